@@ -0,0 +1,30 @@
+// Service worker for bill reminder notifications sent by the
+// send-bill-reminders edge function
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Contas a pagar', {
+      body: data.body,
+      tag: data.tag,
+      icon: '/favicon.ico',
+      data: { url: data.url || '/contas-a-pagar' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/contas-a-pagar';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) {
+        client.navigate(url);
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -9,10 +9,22 @@ import Layout from "./components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Transactions from "./pages/Transactions";
 import NewTransaction from "./pages/NewTransaction";
+import EditTransaction from "./pages/EditTransaction";
+import ImportTransactions from "./pages/ImportTransactions";
 import Categories from "./pages/Categories";
+import CategorizationRules from "./pages/CategorizationRules";
 import Accounts from "./pages/Accounts";
 import Bills from "./pages/Bills";
+import Budgets from "./pages/Budgets";
+import Goals from "./pages/Goals";
+import ScheduledTransactions from "./pages/ScheduledTransactions";
+import CashFlowForecast from "./pages/CashFlowForecast";
+import FinanceCalendar from "./pages/FinanceCalendar";
+import TagReport from "./pages/TagReport";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+import SignUp from "./pages/SignUp";
+import Workspace from "./pages/Workspace";
 import { AuroraBackgroundDemo } from "./components/ui/aurora-demo";
 
 const queryClient = new QueryClient();
@@ -24,14 +36,26 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
+          <Route path="/login" element={<Login />} />
+          <Route path="/cadastro" element={<SignUp />} />
           <Route path="/" element={<Layout />}>
             <Route index element={<Dashboard />} />
             <Route path="inicio" element={<Dashboard />} />
             <Route path="transacoes" element={<Transactions />} />
+            <Route path="transacoes/:id" element={<EditTransaction />} />
             <Route path="nova-transacao" element={<NewTransaction />} />
+            <Route path="importar" element={<ImportTransactions />} />
+            <Route path="agendamentos" element={<ScheduledTransactions />} />
+            <Route path="previsao" element={<CashFlowForecast />} />
             <Route path="categorias" element={<Categories />} />
+            <Route path="regras" element={<CategorizationRules />} />
             <Route path="contas" element={<Accounts />} />
             <Route path="contas-a-pagar" element={<Bills />} />
+            <Route path="calendario" element={<FinanceCalendar />} />
+            <Route path="orcamentos" element={<Budgets />} />
+            <Route path="metas" element={<Goals />} />
+            <Route path="etiquetas" element={<TagReport />} />
+            <Route path="espaco" element={<Workspace />} />
             <Route path="demo" element={<AuroraBackgroundDemo />} />
             <Route path="*" element={<NotFound />} />
           </Route>
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useFinance, Account } from '@/contexts/FinanceContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CURRENCIES, formatCurrency } from '@/lib/currency';
+import { describeUsage, getAccountUsage } from '@/lib/mergeUsage';
+import { Loader2, Merge } from 'lucide-react';
+
+interface AccountEditDialogProps {
+  account: Account;
+  accountTypes: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+// Edits an account, or merges it into another one in the same currency
+const AccountEditDialog = ({ account, accountTypes, onClose }: AccountEditDialogProps) => {
+  const {
+    accounts,
+    transactions,
+    bills,
+    billPayments,
+    scheduledTransactions,
+    categorizationRules,
+    goals,
+    editAccount,
+    mergeAccount,
+  } = useFinance();
+  const [name, setName] = useState(account.name);
+  const [openingBalance, setOpeningBalance] = useState(String(account.openingBalance));
+  const [type, setType] = useState(account.type);
+  const [currency, setCurrency] = useState(account.currency);
+  const [closingDay, setClosingDay] = useState(account.closingDay?.toString() ?? '');
+  const [dueDay, setDueDay] = useState(account.dueDay?.toString() ?? '');
+  const [creditLimit, setCreditLimit] = useState(account.creditLimit?.toString() ?? '');
+  const [targetId, setTargetId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const usageData = { transactions, bills, billPayments, scheduledTransactions, categorizationRules, goals };
+  // Amounts are stored in the account's currency, so it is fixed once it has transactions
+  const hasTransactions = transactions.some(
+    (t) => t.accountId === account.id || t.destinationAccountId === account.id
+  );
+  const mergeTargets = accounts.filter((a) => a.id !== account.id && a.currency === account.currency);
+  const target = accounts.find((a) => a.id === targetId);
+  const usage = getAccountUsage(account.id, usageData, target?.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isNaN(parseFloat(openingBalance))) return;
+
+    setSubmitting(true);
+    try {
+      const isCredit = type === 'credit';
+      await editAccount(account.id, {
+        name,
+        openingBalance: parseFloat(openingBalance),
+        type,
+        currency,
+        closingDay: isCredit && closingDay ? parseInt(closingDay) : null,
+        dueDay: isCredit && dueDay ? parseInt(dueDay) : null,
+        creditLimit: isCredit && creditLimit ? parseFloat(creditLimit) : null,
+      });
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!target) return;
+
+    const moved = usage.length > 0 ? describeUsage(usage) : 'nada além do saldo inicial';
+    if (
+      !window.confirm(
+        `Mesclar "${account.name}" em "${target.name}"? Serão movidos: ${moved}. "${account.name}" será excluída.`
+      )
+    ) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await mergeAccount(account.id, target.id);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar Conta</DialogTitle>
+          <DialogDescription>
+            Saldo atual: {formatCurrency(account.balance, account.currency)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-account-name">Nome da Conta</Label>
+            <Input
+              id="edit-account-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-account-balance">Saldo Inicial</Label>
+              <Input
+                id="edit-account-balance"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-account-currency">Moeda</Label>
+              <select
+                id="edit-account-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md disabled:opacity-60"
+                disabled={hasTransactions}
+                title={hasTransactions ? 'A moeda não pode mudar depois de haver transações' : undefined}
+              >
+                {CURRENCIES.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.code} - {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-account-type">Tipo de Conta</Label>
+            <select
+              id="edit-account-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as Account['type'])}
+              className="w-full px-3 py-2 border rounded-md"
+            >
+              {accountTypes.map((accountType) => (
+                <option key={accountType.id} value={accountType.id}>
+                  {accountType.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {type === 'credit' && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-account-closing-day">Dia de Fechamento</Label>
+                <Input
+                  id="edit-account-closing-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={closingDay}
+                  onChange={(e) => setClosingDay(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-account-due-day">Dia de Vencimento</Label>
+                <Input
+                  id="edit-account-due-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-account-limit">Limite</Label>
+                <Input
+                  id="edit-account-limit"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={creditLimit}
+                  onChange={(e) => setCreditLimit(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Salvando...
+                </>
+              ) : (
+                'Salvar Alterações'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+
+        <div className="border-t pt-4 space-y-3">
+          <div>
+            <h3 className="font-medium">Mesclar em outra conta</h3>
+            <p className="text-sm text-neutral-light">
+              Move as transações, faturas e pagamentos desta conta para a escolhida, que também recebe o
+              saldo inicial dela, e depois a exclui.
+            </p>
+          </div>
+
+          {mergeTargets.length > 0 ? (
+            <>
+              <select
+                aria-label="Mesclar em"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Escolha a conta de destino</option>
+                {mergeTargets.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+
+              {target && (
+                <div className="text-sm bg-gray-50 rounded-md p-3">
+                  {usage.length > 0 ? (
+                    <>
+                      <p>Serão movidos para {target.name}:</p>
+                      <ul className="list-disc pl-5 mt-1">
+                        {usage.map(({ label, count }) => (
+                          <li key={label}>
+                            {count} {label}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <p>Nada usa esta conta; apenas o saldo inicial será somado.</p>
+                  )}
+                  <p className="mt-2">
+                    Saldo de {target.name} após mesclar:{' '}
+                    {formatCurrency(target.balance + account.balance, target.currency)}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={handleMerge}
+                  disabled={!target || submitting}
+                >
+                  <Merge className="mr-2 h-4 w-4" />
+                  Mesclar e Excluir
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-neutral-light">
+              Não há outra conta em {account.currency} para mesclar.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountEditDialog;
@@ -0,0 +1,101 @@
+
+import { useState } from 'react';
+import { useFinance, ReconcileStrategy } from '@/contexts/FinanceContext';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+
+const AccountReconciliation = () => {
+  const { accounts, reconcileAccount } = useFinance();
+  const [pendingAccountId, setPendingAccountId] = useState<string | null>(null);
+
+  const handleReconcile = async (accountId: string, strategy: ReconcileStrategy) => {
+    setPendingAccountId(accountId);
+    try {
+      await reconcileAccount(accountId, strategy);
+    } finally {
+      setPendingAccountId(null);
+    }
+  };
+
+  // Ignore rounding noise from numeric columns
+  const hasDiscrepancy = (storedBalance: number, balance: number) =>
+    Math.abs(storedBalance - balance) >= 0.01;
+
+  const discrepancies = accounts.filter(a => hasDiscrepancy(a.storedBalance, a.balance));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-light">
+        O saldo calculado soma o saldo inicial e todas as transações da conta.
+        Quando ele difere do saldo registrado, escolha qual dos dois está correto.
+      </p>
+
+      {discrepancies.length === 0 && (
+        <div className="flex items-center gap-2 text-green-600 text-sm">
+          <CheckCircle2 size={16} />
+          Todas as contas estão conciliadas
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="pb-2 font-medium">Conta</th>
+              <th className="pb-2 font-medium text-right">Saldo Registrado</th>
+              <th className="pb-2 font-medium text-right">Saldo Calculado</th>
+              <th className="pb-2 font-medium text-right">Diferença</th>
+              <th className="pb-2 font-medium text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {accounts.map((account) => {
+              const difference = account.storedBalance - account.balance;
+              const isPending = pendingAccountId === account.id;
+
+              return (
+                <tr key={account.id} className="border-b last:border-0 hover:bg-gray-50">
+                  <td className="py-3">{account.name}</td>
+                  <td className="py-3 text-right">{formatCurrency(account.storedBalance, account.currency)}</td>
+                  <td className="py-3 text-right">{formatCurrency(account.balance, account.currency)}</td>
+                  <td className={`py-3 text-right ${hasDiscrepancy(account.storedBalance, account.balance) ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(difference, account.currency)}
+                  </td>
+                  <td className="py-3 text-right">
+                    {isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin inline" />
+                    ) : hasDiscrepancy(account.storedBalance, account.balance) ? (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => handleReconcile(account.id, 'stored')}
+                        >
+                          Usar calculado
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => handleReconcile(account.id, 'opening')}
+                        >
+                          Ajustar saldo inicial
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-neutral-light">Conciliada</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AccountReconciliation;
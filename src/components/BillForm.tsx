@@ -36,6 +36,20 @@ import { supabase } from "@/integrations/supabase/client";
 import { CheckCircle2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  BusinessDayAdjustment,
+  WEEKDAY_NAMES,
+  MONTH_NAMES,
+  getOccurrences,
+  canReachMonths,
+  describeRecurrence,
+  toRecurrenceColumns,
+} from "@/lib/recurrence";
+import { REMINDER_OPTIONS, describeReminderDay, getStatusForPaidAmount } from "@/lib/bills";
+import TagInput from "@/components/TagInput";
 
 const schema = z.object({
   description: z.string().min(3, {
@@ -55,8 +69,19 @@ const schema = z.object({
   is_recurring: z.boolean().default(false),
   recurrence_type: z.string().nullable().optional(),
   recurrence_end_date: z.date().nullable().optional(),
+  recurrence_interval: z.string().default("1"),
+  // How the due day is picked in monthly and yearly recurrences
+  recurrence_day_mode: z.enum(["due_date", "month_day", "weekday", "business_day"]).default("due_date"),
+  recurrence_month_day: z.string().default("1"),
+  recurrence_weekday: z.string().default("1"),
+  recurrence_set_position: z.string().default("1"),
+  recurrence_business_day: z.string().default("5"),
+  recurrence_months: z.array(z.number()).default([]),
+  business_day_adjustment: z.enum(["none", "following", "preceding"]).default("none"),
   is_installment: z.boolean().default(false),
   total_installments: z.string().nullable().optional(),
+  reminder_days: z.array(z.number()).default([3, 0]),
+  tags: z.array(z.string()).default([]),
 });
 
 interface BillFormProps {
@@ -72,15 +97,34 @@ interface BillFormProps {
     recurrence_end_date?: string | null;
     is_installment?: boolean;
     total_installments?: number | null;
+    reminder_days?: number[];
+    tags?: string[];
   };
   onClose?: () => void;
 }
 
 type FormData = z.infer<typeof schema>;
 
+const buildRecurrenceRule = (data: FormData): RecurrenceRule => {
+  const frequency = (data.recurrence_type || "monthly") as RecurrenceFrequency;
+  const dayMode = frequency === "weekly" ? "due_date" : data.recurrence_day_mode;
+
+  return {
+    frequency,
+    interval: Math.max(parseInt(data.recurrence_interval, 10) || 1, 1),
+    byMonthDay: dayMode === "month_day" ? parseInt(data.recurrence_month_day, 10) : null,
+    byWeekday: dayMode === "weekday" ? parseInt(data.recurrence_weekday, 10) : null,
+    bySetPosition: dayMode === "weekday" ? parseInt(data.recurrence_set_position, 10) : null,
+    byBusinessDay: dayMode === "business_day" ? parseInt(data.recurrence_business_day, 10) : null,
+    byMonths: frequency !== "weekly" && data.recurrence_months.length > 0 ? data.recurrence_months : null,
+    businessDayAdjustment: dayMode === "business_day" ? "none" : data.business_day_adjustment,
+  };
+};
+
 const BillForm = ({ bill, onClose }: BillFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const navigate = useNavigate();
+  const { currentWorkspace } = useWorkspace();
 
   const form = useForm<FormData>({
     resolver: zodResolver(schema),
@@ -95,11 +139,36 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
       recurrence_end_date: bill?.recurrence_end_date ? new Date(bill.recurrence_end_date) : null,
       is_installment: bill?.is_installment || false,
       total_installments: bill?.total_installments?.toString() || null,
+      recurrence_interval: "1",
+      recurrence_day_mode: "due_date",
+      recurrence_month_day: "1",
+      recurrence_weekday: "1",
+      recurrence_set_position: "1",
+      recurrence_business_day: "5",
+      recurrence_months: [],
+      business_day_adjustment: "none",
+      reminder_days: bill?.reminder_days ?? [3, 0],
+      tags: bill?.tags ?? [],
     },
   });
 
   const isRecurring = form.watch("is_recurring");
   const isInstallment = form.watch("is_installment");
+  const recurrenceType = form.watch("recurrence_type");
+  const recurrenceDayMode = form.watch("recurrence_day_mode");
+  const recurrenceMonths = form.watch("recurrence_months");
+  const reminderDays = form.watch("reminder_days");
+
+  // Next due dates of the rule being edited, computed like the server will
+  const formValues = form.watch();
+  const recurrenceRule = isRecurring && recurrenceType ? buildRecurrenceRule(formValues) : null;
+  const nextDueDates = recurrenceRule
+    ? getOccurrences(recurrenceRule, formValues.due_date, {
+        count: 4,
+        until: formValues.recurrence_end_date,
+      })
+    : [];
+  const monthsUnreachable = !!recurrenceRule && !canReachMonths(recurrenceRule, formValues.due_date);
 
   // Reset related fields when toggling options
   useEffect(() => {
@@ -117,9 +186,12 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
   }, [isRecurring, isInstallment, form]);
 
   const { data: categories, isLoading: isLoadingCategories } = useQuery({
-    queryKey: ["categories"],
+    queryKey: ["categories", currentWorkspace?.id],
     queryFn: async () => {
-      const { data, error } = await supabase.from("categories").select("*");
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .eq("workspace_id", currentWorkspace?.id);
 
       if (error) {
         toast({
@@ -134,6 +206,41 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
     },
   });
 
+  const { data: tagSuggestions } = useQuery({
+    queryKey: ["tags", currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("name")
+        .eq("workspace_id", currentWorkspace?.id);
+
+      if (error) {
+        console.error("Error loading tags:", error);
+        return [];
+      }
+
+      return data.map((tag) => tag.name);
+    },
+  });
+
+  // Replaces the bill's tags; the bill itself is already saved, so a failure
+  // only warns
+  const saveTags = async (billId: string, tags: string[]) => {
+    const { error } = await supabase.rpc("set_bill_tags", {
+      p_bill_id: billId,
+      p_tag_names: tags,
+    });
+
+    if (error) {
+      console.error("Error saving bill tags:", error);
+      toast({
+        title: "Erro ao salvar etiquetas",
+        description: "A conta foi salva, mas as etiquetas não.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const onSubmit = async (data: FormData) => {
     setIsSubmitting(true);
 
@@ -164,12 +271,47 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
         total_installments: data.is_installment && data.total_installments 
           ? parseInt(data.total_installments, 10) 
           : null,
+        reminder_days: data.reminder_days,
       };
 
       if (bill) {
+        const { data: payments, error: paymentsError } = await supabase
+          .from("bill_payments")
+          .select("amount")
+          .eq("bill_id", bill.id);
+
+        if (paymentsError) {
+          console.error("Error loading bill payments:", paymentsError);
+          toast({
+            title: "Erro ao atualizar conta",
+            description: "Ocorreu um erro ao atualizar a conta.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        // The switch marks the bill as paid; otherwise the status follows the
+        // payments, which may no longer cover a changed amount
+        const paid = payments.reduce((total, payment) => total + Number(payment.amount), 0);
+        const status =
+          bill.status === "cancelled"
+            ? bill.status
+            : data.is_paid && (bill.status !== "paid" || paid === 0)
+              ? "paid"
+              : getStatusForPaidAmount(parsedValue, paid);
+
+        // Only this occurrence changes: the recurrence and installments stay as
+        // they were created
         const { error } = await supabase
           .from("bills")
-          .update(billData)
+          .update({
+            description: billData.description,
+            amount: billData.amount,
+            due_date: billData.due_date,
+            category_id: billData.category_id,
+            reminder_days: billData.reminder_days,
+            status,
+          })
           .eq("id", bill.id);
 
         if (error) {
@@ -182,12 +324,76 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
           return;
         }
 
+        if (data.tags.length > 0 || (bill.tags?.length ?? 0) > 0) {
+          await saveTags(bill.id, data.tags);
+        }
+
         toast({
           title: "Conta atualizada",
           description: "Conta atualizada com sucesso!",
         });
+      } else if (data.is_recurring && data.recurrence_type) {
+        // Recurring bills are generated on the server from a template, months ahead
+        const rule = buildRecurrenceRule(data);
+        if (!canReachMonths(rule, data.due_date)) {
+          toast({
+            title: "Erro ao cadastrar conta",
+            description: "A recorrência nunca cai nos meses escolhidos.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const { data: template, error } = await supabase
+          .from("bill_templates")
+          .insert({
+            workspace_id: currentWorkspace?.id,
+            description: billData.description,
+            amount: billData.amount,
+            category_id: billData.category_id,
+            start_date: billData.due_date,
+            recurrence_end_date: billData.recurrence_end_date,
+            reminder_days: billData.reminder_days,
+            ...toRecurrenceColumns(rule),
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error("Error inserting recurring bill:", error);
+          toast({
+            title: "Erro ao cadastrar conta",
+            description: "Ocorreu um erro ao cadastrar a conta recorrente.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const { error: generateError } = await supabase.rpc("generate_recurring_bills", {
+          p_workspace_id: currentWorkspace?.id,
+        });
+        if (generateError) console.error("Error generating recurring bills:", generateError);
+
+        // The first occurrence may not fall on the chosen date
+        const [firstDueDate] = getOccurrences(rule, data.due_date, { count: 1 });
+        if (data.is_paid && firstDueDate) {
+          await supabase
+            .from("bills")
+            .update({ status: "paid" })
+            .eq("template_id", template.id)
+            .eq("due_date", format(firstDueDate, "yyyy-MM-dd"));
+        }
+
+        toast({
+          title: "Conta cadastrada",
+          description: "Conta recorrente cadastrada com sucesso!",
+        });
       } else {
-        const { error } = await supabase.from("bills").insert(billData);
+        const { data: newBill, error } = await supabase
+          .from("bills")
+          .insert({ ...billData, workspace_id: currentWorkspace?.id })
+          .select()
+          .single();
 
         if (error) {
           console.error("Error inserting bill:", error);
@@ -199,6 +405,10 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
           return;
         }
 
+        if (data.tags.length > 0) {
+          await saveTags(newBill.id, data.tags);
+        }
+
         toast({
           title: "Conta cadastrada",
           description: "Conta cadastrada com sucesso!",
@@ -315,152 +525,442 @@ const BillForm = ({ bill, onClose }: BillFormProps) => {
           )}
         />
 
-        <div className="space-y-4 rounded-lg border p-4">
-          <h3 className="font-medium">Tipo de lançamento</h3>
-          
+        {/* Recurring bills are created from a template, which has no tags */}
+        {(bill || !isRecurring) && (
           <FormField
             control={form.control}
-            name="is_installment"
+            name="tags"
             render={({ field }) => (
-              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                <div className="space-y-0.5">
-                  <FormLabel>Parcelado</FormLabel>
-                  <p className="text-sm text-muted-foreground">
-                    Dividir em várias parcelas
-                  </p>
-                </div>
-                <FormControl>
-                  <Switch
-                    checked={field.value}
-                    onCheckedChange={(checked) => {
-                      field.onChange(checked);
-                      if (checked) form.setValue("is_recurring", false);
-                    }}
-                  />
-                </FormControl>
+              <FormItem>
+                <FormLabel>Etiquetas (opcional)</FormLabel>
+                <TagInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  suggestions={tagSuggestions ?? []}
+                />
+                <FormMessage />
               </FormItem>
             )}
           />
-
-          {isInstallment && (
+        )}
+
+        {bill ? (
+          bill.is_recurring && (
+            <p className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+              Conta recorrente: as alterações valem só para esta ocorrência. Para mudar a recorrência,
+              encerre-a e cadastre uma nova conta recorrente.
+            </p>
+          )
+        ) : (
+          <div className="space-y-4 rounded-lg border p-4">
+            <h3 className="font-medium">Tipo de lançamento</h3>
+            
             <FormField
               control={form.control}
-              name="total_installments"
+              name="is_installment"
               render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Número de parcelas</FormLabel>
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Parcelado</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      Dividir em várias parcelas
+                    </p>
+                  </div>
                   <FormControl>
-                    <Input 
-                      type="number" 
-                      placeholder="Ex: 12" 
-                      {...field} 
-                      value={field.value || ''}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        if (value === '' || parseInt(value) > 0) {
-                          field.onChange(value);
-                        }
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked);
+                        if (checked) form.setValue("is_recurring", false);
                       }}
                     />
                   </FormControl>
-                  <FormMessage />
                 </FormItem>
               )}
             />
-          )}
-
-          <FormField
-            control={form.control}
-            name="is_recurring"
-            render={({ field }) => (
-              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                <div className="space-y-0.5">
-                  <FormLabel>Recorrente</FormLabel>
-                  <p className="text-sm text-muted-foreground">
-                    Se repete periodicamente
-                  </p>
-                </div>
-                <FormControl>
-                  <Switch
-                    checked={field.value}
-                    onCheckedChange={(checked) => {
-                      field.onChange(checked);
-                      if (checked) form.setValue("is_installment", false);
-                    }}
-                  />
-                </FormControl>
-              </FormItem>
-            )}
-          />
 
-          {isRecurring && (
-            <>
+            {isInstallment && (
               <FormField
                 control={form.control}
-                name="recurrence_type"
+                name="total_installments"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Tipo de recorrência</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Selecione o tipo" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="monthly">Mensal</SelectItem>
-                        <SelectItem value="weekly">Semanal</SelectItem>
-                        <SelectItem value="yearly">Anual</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Número de parcelas</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        placeholder="Ex: 12" 
+                        {...field} 
+                        value={field.value || ''}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (value === '' || parseInt(value) > 0) {
+                            field.onChange(value);
+                          }
+                        }}
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+            )}
 
-              <FormField
-                control={form.control}
-                name="recurrence_end_date"
-                render={({ field }) => (
-                  <FormItem className="flex flex-col">
-                    <FormLabel>Data final (opcional)</FormLabel>
-                    <Popover>
-                      <PopoverTrigger asChild>
+            <FormField
+              control={form.control}
+              name="is_recurring"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Recorrente</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      Se repete periodicamente
+                    </p>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked);
+                        if (checked) form.setValue("is_installment", false);
+                      }}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {isRecurring && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  A recorrência não pode ser alterada depois de cadastrada: para mudá-la, encerre-a em
+                  Contas a Pagar e cadastre uma nova conta recorrente.
+                </p>
+
+                <FormField
+                  control={form.control}
+                  name="recurrence_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de recorrência</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
                         <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione o tipo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="monthly">Mensal</SelectItem>
+                          <SelectItem value="weekly">Semanal</SelectItem>
+                          <SelectItem value="yearly">Anual</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="recurrence_interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Repetir a cada ({recurrenceType === "weekly" ? "semanas" : recurrenceType === "yearly" ? "anos" : "meses"})
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {recurrenceType !== "weekly" && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_day_mode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dia do vencimento</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="due_date">Mesmo dia do primeiro vencimento</SelectItem>
+                            <SelectItem value="month_day">Dia fixo do mês</SelectItem>
+                            <SelectItem value="weekday">Dia da semana</SelectItem>
+                            <SelectItem value="business_day">Dia útil do mês</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceType !== "weekly" && recurrenceDayMode === "month_day" && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_month_day"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dia</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Array.from({ length: 31 }, (_, i) => (
+                              <SelectItem key={i + 1} value={String(i + 1)}>
+                                Dia {i + 1}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="-1">Último dia do mês</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {recurrenceType !== "weekly" && recurrenceDayMode === "weekday" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormField
+                      control={form.control}
+                      name="recurrence_set_position"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ocorrência</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="1">Primeira</SelectItem>
+                              <SelectItem value="2">Segunda</SelectItem>
+                              <SelectItem value="3">Terceira</SelectItem>
+                              <SelectItem value="4">Quarta</SelectItem>
+                              <SelectItem value="-1">Última</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="recurrence_weekday"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Dia da semana</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {WEEKDAY_NAMES.map((name, index) => (
+                                <SelectItem key={name} value={String(index)}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {recurrenceType !== "weekly" && recurrenceDayMode === "business_day" && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_business_day"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dia útil</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Array.from({ length: 15 }, (_, i) => (
+                              <SelectItem key={i + 1} value={String(i + 1)}>
+                                {i + 1}º dia útil
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="-1">Último dia útil</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          Considera fins de semana e feriados nacionais.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {(recurrenceType === "monthly" || recurrenceType === "yearly") && (
+                  <FormItem>
+                    <FormLabel>
+                      {recurrenceType === "yearly" ? "Todo ano nos meses (opcional)" : "Somente nos meses (opcional)"}
+                    </FormLabel>
+                    <div className="grid grid-cols-6 gap-1">
+                      {MONTH_NAMES.map((name, index) => {
+                        const month = index + 1;
+                        const selected = recurrenceMonths.includes(month);
+                        return (
                           <Button
-                            variant={"outline"}
-                            className={cn(
-                              "w-[240px] pl-3 text-left font-normal",
-                              !field.value && "text-muted-foreground"
-                            )}
+                            key={name}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            onClick={() =>
+                              form.setValue(
+                                "recurrence_months",
+                                selected
+                                  ? recurrenceMonths.filter((m) => m !== month)
+                                  : [...recurrenceMonths, month].sort((a, b) => a - b)
+                              )
+                            }
                           >
-                            {field.value ? (
-                              format(field.value, "PPP")
-                            ) : (
-                              <span>Selecione a data final</span>
-                            )}
-                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            {name}
                           </Button>
-                        </FormControl>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={field.value || undefined}
-                          onSelect={field.onChange}
-                          disabled={(date) => date < new Date()}
-                          initialFocus
-                          className={cn("p-3 pointer-events-auto")}
-                        />
-                      </PopoverContent>
-                    </Popover>
-                    <FormMessage />
+                        );
+                      })}
+                    </div>
+                    {monthsUnreachable && (
+                      <p className="text-sm font-medium text-destructive">
+                        A recorrência nunca cai nesses meses a partir do vencimento escolhido.
+                      </p>
+                    )}
                   </FormItem>
                 )}
-              />
-            </>
-          )}
-        </div>
+
+                {(recurrenceType === "weekly" || recurrenceDayMode !== "business_day") && (
+                  <FormField
+                    control={form.control}
+                    name="business_day_adjustment"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Se cair em fim de semana ou feriado</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value as BusinessDayAdjustment)}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Manter a data</SelectItem>
+                            <SelectItem value="following">Mover para o próximo dia útil</SelectItem>
+                            <SelectItem value="preceding">Antecipar para o dia útil anterior</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="recurrence_end_date"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Data final (opcional)</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant={"outline"}
+                              className={cn(
+                                "w-[240px] pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              {field.value ? (
+                                format(field.value, "PPP")
+                              ) : (
+                                <span>Selecione a data final</span>
+                              )}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value || undefined}
+                            onSelect={field.onChange}
+                            disabled={(date) => date < new Date()}
+                            initialFocus
+                            className={cn("p-3 pointer-events-auto")}
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {recurrenceRule && nextDueDates.length > 0 && (
+                  <div className="rounded-lg bg-muted p-3 text-sm">
+                    <p className="font-medium">{describeRecurrence(recurrenceRule)}</p>
+                    <p className="text-muted-foreground">
+                      Próximos vencimentos: {nextDueDates.map((date) => format(date, "dd/MM/yyyy")).join(", ")}
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <FormItem>
+          <FormLabel>Lembretes</FormLabel>
+          <div className="flex flex-wrap gap-1">
+            {REMINDER_OPTIONS.map((days) => {
+              const selected = reminderDays.includes(days);
+              return (
+                <Button
+                  key={days}
+                  type="button"
+                  size="sm"
+                  variant={selected ? "default" : "outline"}
+                  onClick={() =>
+                    form.setValue(
+                      "reminder_days",
+                      selected
+                        ? reminderDays.filter((d) => d !== days)
+                        : [...reminderDays, days].sort((a, b) => b - a)
+                    )
+                  }
+                >
+                  {describeReminderDay(days)}
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Enviados por notificação e email enquanto a conta estiver em aberto.
+          </p>
+        </FormItem>
 
         <FormField
           control={form.control}
@@ -7,7 +7,10 @@ import * as z from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
 import { Loader2 } from 'lucide-react';
+import { getPaidAmount, getRemainingAmount } from '@/lib/bills';
+import { formatCurrency } from '@/lib/currency';
 
 interface BillPaymentFormProps {
   billId: string;
@@ -17,19 +20,30 @@ interface BillPaymentFormProps {
 const formSchema = z.object({
   accountId: z.string({
     required_error: "Selecione uma conta",
+  }).min(1, "Selecione uma conta"),
+  amount: z.string().refine((value) => {
+    const parsedValue = parseFloat(value);
+    return !isNaN(parsedValue) && parsedValue > 0;
+  }, {
+    message: "O valor deve ser um número maior que zero.",
   }),
 });
 
 const BillPaymentForm = ({ billId, onClose }: BillPaymentFormProps) => {
-  const { bills, accounts, payBill } = useFinance();
+  const { bills, billPayments, accounts, payBill } = useFinance();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const bill = bills.find(b => b.id === billId);
+  const paidAmount = bill ? getPaidAmount(bill.id, billPayments) : 0;
+  const remainingAmount = bill ? getRemainingAmount(bill, billPayments) : 0;
+  // A card invoice is paid from another account
+  const payingAccounts = accounts.filter(a => a.id !== bill?.statementAccountId);
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       accountId: '',
+      amount: remainingAmount.toFixed(2),
     },
   });
 
@@ -38,9 +52,19 @@ const BillPaymentForm = ({ billId, onClose }: BillPaymentFormProps) => {
   }
 
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    const amount = parseFloat(values.amount);
+
+    // Compare in cents to avoid floating point noise
+    if (Math.round(amount * 100) > Math.round(remainingAmount * 100)) {
+      form.setError('amount', {
+        message: `O valor não pode ser maior que o restante (${formatCurrency(remainingAmount)}).`,
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await payBill(billId, values.accountId);
+      await payBill(billId, values.accountId, amount);
       onClose();
     } catch (error) {
       console.error('Error paying bill:', error);
@@ -55,10 +79,33 @@ const BillPaymentForm = ({ billId, onClose }: BillPaymentFormProps) => {
         <div className="mb-6 p-4 bg-gray-50 rounded-lg">
           <h3 className="font-medium mb-2">{bill.description}</h3>
           <p className="font-bold text-xl">
-            {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(bill.amount)}
+            {formatCurrency(bill.amount)}
           </p>
+          {paidAmount > 0 && (
+            <div className="mt-2 text-sm text-neutral-light space-y-1">
+              <p>Pago: {formatCurrency(paidAmount)}</p>
+              <p>Restante: {formatCurrency(remainingAmount)}</p>
+            </div>
+          )}
         </div>
 
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Valor do Pagamento</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" {...field} />
+              </FormControl>
+              <p className="text-xs text-muted-foreground">
+                Informe um valor menor para registrar um pagamento parcial.
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="accountId"
@@ -75,12 +122,12 @@ const BillPaymentForm = ({ billId, onClose }: BillPaymentFormProps) => {
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  {accounts.map((account) => (
+                  {payingAccounts.map((account) => (
                     <SelectItem key={account.id} value={account.id}>
                       <div className="flex items-center justify-between w-full">
                         <span>{account.name}</span>
                         <span className="text-right">
-                          {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(account.balance)}
+                          {formatCurrency(account.balance, account.currency)}
                         </span>
                       </div>
                     </SelectItem>
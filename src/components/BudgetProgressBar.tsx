@@ -0,0 +1,56 @@
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle } from "lucide-react";
+import { Category } from "@/contexts/FinanceContext";
+import { BudgetProgress, BudgetStatus } from "@/lib/budgets";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/currency";
+
+interface BudgetProgressBarProps {
+  category?: Category;
+  progress: BudgetProgress;
+  // Currency budgets are set in
+  currency?: string;
+}
+
+const indicatorColors: Record<BudgetStatus, string> = {
+  ok: "[&>div]:bg-green-500",
+  warning: "[&>div]:bg-yellow-500",
+  exceeded: "[&>div]:bg-red-500",
+};
+
+const BudgetProgressBar = ({ category, progress, currency }: BudgetProgressBarProps) => {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center text-sm">
+        <span className="flex items-center gap-2 font-medium">
+          <span>{category?.icon || "🔹"}</span>
+          {category?.name || "Categoria removida"}
+        </span>
+        <span className="text-neutral-light">
+          {formatCurrency(progress.spent, currency)} de {formatCurrency(progress.planned, currency)}
+        </span>
+      </div>
+
+      <Progress
+        value={Math.min(progress.percent, 100)}
+        className={cn("h-2 bg-gray-100", indicatorColors[progress.status])}
+      />
+
+      {progress.status !== "ok" && (
+        <p
+          className={cn(
+            "flex items-center gap-1 text-xs",
+            progress.status === "exceeded" ? "text-red-600" : "text-yellow-700"
+          )}
+        >
+          <AlertTriangle size={12} />
+          {progress.status === "exceeded"
+            ? `Orçamento estourado em ${formatCurrency(-progress.remaining, currency)}`
+            : `${Math.round(progress.percent)}% do orçamento utilizado`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BudgetProgressBar;
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useFinance, Category } from '@/contexts/FinanceContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Merge } from 'lucide-react';
+import { flattenCategoryTree, getCategoryPath, getCategoryTree, hasSubcategories } from '@/lib/categoryTree';
+import { describeUsage, getCategoryUsage } from '@/lib/mergeUsage';
+
+interface CategoryEditDialogProps {
+  category: Category;
+  emojis: string[];
+  onClose: () => void;
+}
+
+// Edits a category, or merges it into another one of the same type
+const CategoryEditDialog = ({ category, emojis, onClose }: CategoryEditDialogProps) => {
+  const {
+    categories,
+    transactions,
+    bills,
+    scheduledTransactions,
+    categorizationRules,
+    budgets,
+    editCategory,
+    mergeCategory,
+  } = useFinance();
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon);
+  const [parentId, setParentId] = useState(category.parentId ?? '');
+  const [targetId, setTargetId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const sameType = categories.filter((c) => c.type === category.type);
+  // A category with subcategories stays at the top level
+  const parentOptions = hasSubcategories(categories, category.id)
+    ? []
+    : getCategoryTree(sameType)
+        .map((node) => node.category)
+        .filter((c) => c.id !== category.id);
+  // Its own subcategories are left out: they would end up under themselves
+  const mergeTargets = flattenCategoryTree(sameType)
+    .map((node) => node.category)
+    .filter((c) => c.id !== category.id && c.parentId !== category.id);
+  const usage = getCategoryUsage(category.id, {
+    transactions,
+    bills,
+    scheduledTransactions,
+    categorizationRules,
+    budgets,
+    categories,
+  });
+  const target = categories.find((c) => c.id === targetId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !icon) return;
+
+    setSubmitting(true);
+    try {
+      await editCategory(category.id, { ...category, name, icon, parentId: parentId || null });
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!target) return;
+
+    const moved = usage.length > 0 ? describeUsage(usage) : 'nada além da própria categoria';
+    if (
+      !window.confirm(
+        `Mesclar "${category.name}" em "${target.name}"? Serão movidos: ${moved}. "${category.name}" será excluída.`
+      )
+    ) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await mergeCategory(category.id, target.id);
+      onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Editar Categoria</DialogTitle>
+          <DialogDescription>
+            {category.type === 'expense' ? 'Categoria de despesa' : 'Categoria de receita'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-category-name">Nome</Label>
+            <Input
+              id="edit-category-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ícone</Label>
+            <div className="flex items-center space-x-2">
+              <div className="bg-gray-100 p-2 rounded-md text-2xl min-w-10 text-center">
+                {icon}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {emojis.map((emoji) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => setIcon(emoji)}
+                    className={`p-1 rounded-md hover:bg-gray-100 ${emoji === icon ? 'bg-gray-200' : ''}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {(parentOptions.length > 0 || category.parentId) && (
+            <div className="space-y-2">
+              <Label htmlFor="edit-category-parent">Subcategoria de</Label>
+              <select
+                id="edit-category-parent"
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Nenhuma (categoria principal)</option>
+                {parentOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.icon} {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Salvando...
+                </>
+              ) : (
+                'Salvar Alterações'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+
+        <div className="border-t pt-4 space-y-3">
+          <div>
+            <h3 className="font-medium">Mesclar em outra categoria</h3>
+            <p className="text-sm text-neutral-light">
+              Move tudo o que usa esta categoria para a escolhida e depois a exclui.
+            </p>
+          </div>
+
+          {mergeTargets.length > 0 ? (
+            <>
+              <select
+                aria-label="Mesclar em"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Escolha a categoria de destino</option>
+                {mergeTargets.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.icon} {getCategoryPath(categories, option)}
+                  </option>
+                ))}
+              </select>
+
+              {target && (
+                <div className="text-sm bg-gray-50 rounded-md p-3">
+                  {usage.length > 0 ? (
+                    <>
+                      <p>Serão movidos para {target.name}:</p>
+                      <ul className="list-disc pl-5 mt-1">
+                        {usage.map(({ label, count }) => (
+                          <li key={label}>
+                            {count} {label}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <p>Nada usa esta categoria; ela apenas será excluída.</p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={handleMerge}
+                  disabled={!target || submitting}
+                >
+                  <Merge className="mr-2 h-4 w-4" />
+                  Mesclar e Excluir
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-neutral-light">
+              Não há outra categoria de {category.type === 'expense' ? 'despesa' : 'receita'} para mesclar.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryEditDialog;
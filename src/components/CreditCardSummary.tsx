@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useFinance, Account } from '@/contexts/FinanceContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, Settings } from 'lucide-react';
+import { isOpenBill, getRemainingAmount } from '@/lib/bills';
+import {
+  isCreditCard,
+  getCurrentStatement,
+  getStatementTotal,
+  getAvailableLimit,
+} from '@/lib/creditCards';
+import { formatCurrency } from '@/lib/currency';
+
+interface CreditCardSummaryProps {
+  account: Account;
+}
+
+const CreditCardSummary = ({ account }: CreditCardSummaryProps) => {
+  const { transactions, bills, billPayments, editAccount } = useFinance();
+  const [showSettings, setShowSettings] = useState(false);
+  const [closingDay, setClosingDay] = useState(account.closingDay?.toString() ?? '');
+  const [dueDay, setDueDay] = useState(account.dueDay?.toString() ?? '');
+  const [creditLimit, setCreditLimit] = useState(account.creditLimit?.toString() ?? '');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await editAccount(account.id, {
+        name: account.name,
+        openingBalance: account.openingBalance,
+        type: account.type,
+        currency: account.currency,
+        closingDay: parseInt(closingDay),
+        dueDay: parseInt(dueDay),
+        creditLimit: creditLimit ? parseFloat(creditLimit) : null,
+      });
+      setShowSettings(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (showSettings || !isCreditCard(account)) {
+    return showSettings ? (
+      <form onSubmit={handleSaveSettings} className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`closingDay-${account.id}`} className="text-xs">Fechamento</Label>
+            <Input
+              id={`closingDay-${account.id}`}
+              type="number"
+              min="1"
+              max="31"
+              value={closingDay}
+              onChange={(e) => setClosingDay(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`dueDay-${account.id}`} className="text-xs">Vencimento</Label>
+            <Input
+              id={`dueDay-${account.id}`}
+              type="number"
+              min="1"
+              max="31"
+              value={dueDay}
+              onChange={(e) => setDueDay(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`creditLimit-${account.id}`} className="text-xs">Limite</Label>
+            <Input
+              id={`creditLimit-${account.id}`}
+              type="number"
+              step="0.01"
+              min="0"
+              value={creditLimit}
+              onChange={(e) => setCreditLimit(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowSettings(false)} disabled={submitting}>
+            Cancelar
+          </Button>
+          <Button type="submit" size="sm" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar'}
+          </Button>
+        </div>
+      </form>
+    ) : (
+      <div className="text-sm text-neutral-light">
+        <p>Defina os dias de fechamento e vencimento para acompanhar as faturas.</p>
+        <Button variant="link" size="sm" className="px-0" onClick={() => setShowSettings(true)}>
+          Configurar cartão
+        </Button>
+      </div>
+    );
+  }
+
+  const statement = getCurrentStatement(account);
+  const statementTotal = getStatementTotal(transactions, account.id, statement);
+  const availableLimit = getAvailableLimit(account);
+  const upcomingInvoices = bills
+    .filter(b => b.statementAccountId === account.id && isOpenBill(b))
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-neutral-light">Fatura atual</p>
+          <p className="font-semibold text-lg">{formatCurrency(statementTotal, account.currency)}</p>
+          <p className="text-xs text-neutral-light">
+            Fecha em {format(statement.closingDate, 'dd/MM')} · Vence em {format(statement.dueDate, 'dd/MM')}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => setShowSettings(true)} title="Configurar cartão">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {availableLimit !== null && account.creditLimit !== null && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-neutral-light">Limite disponível</span>
+            <span>
+              {formatCurrency(availableLimit, account.currency)} de {formatCurrency(account.creditLimit, account.currency)}
+            </span>
+          </div>
+          <Progress
+            value={account.creditLimit > 0 ? Math.max(0, (availableLimit / account.creditLimit) * 100) : 0}
+            className="h-2 bg-gray-100"
+          />
+        </div>
+      )}
+
+      {upcomingInvoices.length > 0 && (
+        <div>
+          <p className="text-neutral-light mb-1">Faturas em aberto</p>
+          <div className="divide-y">
+            {upcomingInvoices.map(invoice => (
+              <div key={invoice.id} className="flex justify-between py-1">
+                <span>Vence {format(new Date(invoice.dueDate), 'dd/MM/yyyy')}</span>
+                <span className="font-medium">{formatCurrency(getRemainingAmount(invoice, billPayments), account.currency)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreditCardSummary;
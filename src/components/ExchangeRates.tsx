@@ -0,0 +1,198 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileUp, Loader2, Trash2 } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY, parseRatesCsv } from '@/lib/currency';
+import { toCalendarDay } from '@/lib/creditCards';
+
+// Rates used to convert totals between account currencies. Entered by hand or
+// imported from a CSV; a rate for a pair and day already saved is replaced.
+const ExchangeRates = () => {
+  const { accounts, exchangeRates, addExchangeRate, importExchangeRates, deleteExchangeRate } = useFinance();
+  const foreignCurrency = accounts.find((a) => a.currency !== DEFAULT_CURRENCY)?.currency ?? 'USD';
+  const [baseCurrency, setBaseCurrency] = useState(foreignCurrency);
+  const [quoteCurrency, setQuoteCurrency] = useState(DEFAULT_CURRENCY);
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [submitting, setSubmitting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+
+    if (baseCurrency === quoteCurrency) {
+      toast.error('Escolha duas moedas diferentes.');
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      toast.error('Cotação inválida. Digite um número positivo.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await addExchangeRate({ baseCurrency, quoteCurrency, rate: value, date: new Date(date) });
+      setRate('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const { rates, invalidLines } = parseRatesCsv(await file.text());
+      if (invalidLines.length > 0) {
+        toast.error(`Linhas ignoradas por não serem válidas: ${invalidLines.join(', ')}`);
+      }
+      if (rates.length === 0) {
+        toast.error('Nenhuma cotação encontrada no arquivo.');
+        return;
+      }
+      await importExchangeRates(rates);
+    } catch (error) {
+      console.error('Error reading exchange rates file:', error);
+      toast.error('Erro ao ler o arquivo de cotações');
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Tem certeza que deseja excluir esta cotação?')) {
+      deleteExchangeRate(id);
+    }
+  };
+
+  const sortedRates = [...exchangeRates].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="rateBase">De</Label>
+          <select
+            id="rateBase"
+            value={baseCurrency}
+            onChange={(e) => setBaseCurrency(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {CURRENCIES.map((option) => (
+              <option key={option.code} value={option.code}>{option.code}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rateQuote">Para</Label>
+          <select
+            id="rateQuote"
+            value={quoteCurrency}
+            onChange={(e) => setQuoteCurrency(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {CURRENCIES.map((option) => (
+              <option key={option.code} value={option.code}>{option.code}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rateValue">Cotação</Label>
+          <Input
+            id="rateValue"
+            type="number"
+            step="0.0001"
+            min="0"
+            placeholder="0,0000"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rateDate">Data</Label>
+          <Input
+            id="rateDate"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+          />
+        </div>
+        <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar Cotação'}
+        </Button>
+      </form>
+      <p className="text-xs text-neutral-light">
+        1 {baseCurrency} = {rate || '?'} {quoteCurrency}. Cada valor é convertido pela cotação mais recente
+        até a data dele.
+      </p>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-lg border p-4">
+        <p className="text-sm text-neutral-light">
+          Importe um CSV com cabeçalho e as colunas data, moeda de origem, moeda de destino e cotação,
+          por exemplo <code>2026-10-01;USD;BRL;5,42</code>.
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+        <Button variant="outline" disabled={importing} onClick={() => fileInput.current?.click()}>
+          {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+          Importar Arquivo
+        </Button>
+      </div>
+
+      {sortedRates.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="pb-2">Data</th>
+                <th className="pb-2">Par</th>
+                <th className="pb-2 text-right">Cotação</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRates.map((exchangeRate) => (
+                <tr key={exchangeRate.id} className="border-b last:border-0 hover:bg-gray-50">
+                  <td className="py-2">{format(toCalendarDay(exchangeRate.date), 'dd/MM/yyyy')}</td>
+                  <td className="py-2">{exchangeRate.baseCurrency}/{exchangeRate.quoteCurrency}</td>
+                  <td className="py-2 text-right">
+                    {exchangeRate.rate.toLocaleString('pt-BR', { maximumFractionDigits: 6 })}
+                  </td>
+                  <td className="py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleDelete(exchangeRate.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-neutral-light text-center py-4">Nenhuma cotação cadastrada</p>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRates;
@@ -2,8 +2,16 @@
 import { Plus } from "lucide-react";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
 
 const FloatingActionButton = () => {
+  const { canEdit } = useWorkspace();
+
+  // Viewers can't add transactions
+  if (!canEdit) {
+    return null;
+  }
+
   return (
     <Link
       to="/nova-transacao"
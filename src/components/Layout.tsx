@@ -1,9 +1,26 @@
 
-import { Outlet } from "react-router-dom";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import Sidebar from "./Sidebar";
 import FloatingActionButton from "./FloatingActionButton";
+import { useAuth } from "@/contexts/AuthContext";
 
 const Layout = () => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-secondary">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
   return (
     <div className="flex min-h-screen w-full bg-secondary">
       <Sidebar />
@@ -0,0 +1,239 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  BusinessDayAdjustment,
+  WEEKDAY_NAMES,
+  MONTH_NAMES,
+  getReachableMonths,
+} from '@/lib/recurrence';
+
+interface RecurrenceRuleFieldsProps {
+  rule: RecurrenceRule;
+  // First date of the recurrence, to leave out months the rule never falls in
+  startDate?: Date;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+type DayMode = 'start_date' | 'month_day' | 'weekday' | 'business_day';
+
+const getDayMode = (rule: RecurrenceRule): DayMode => {
+  if (rule.byBusinessDay !== null) return 'business_day';
+  if (rule.byWeekday !== null) return 'weekday';
+  if (rule.byMonthDay !== null) return 'month_day';
+  return 'start_date';
+};
+
+const periodNames: Record<RecurrenceFrequency, string> = {
+  weekly: 'semanas',
+  monthly: 'meses',
+  yearly: 'anos',
+};
+
+const RecurrenceRuleFields = ({ rule, startDate, onChange }: RecurrenceRuleFieldsProps) => {
+  const dayMode = getDayMode(rule);
+  const isWeekly = rule.frequency === 'weekly';
+  const reachableMonths = startDate && !isNaN(startDate.getTime()) ? getReachableMonths(rule, startDate) : null;
+  const isReachable = (month: number) => !reachableMonths || reachableMonths.includes(month);
+
+  const setDayMode = (mode: DayMode) => {
+    onChange({
+      ...rule,
+      byMonthDay: mode === 'month_day' ? 1 : null,
+      byWeekday: mode === 'weekday' ? 1 : null,
+      bySetPosition: mode === 'weekday' ? 1 : null,
+      byBusinessDay: mode === 'business_day' ? 5 : null,
+      businessDayAdjustment: mode === 'business_day' ? 'none' : rule.businessDayAdjustment,
+    });
+  };
+
+  // Months the rule can't reach are dropped, so the selection never leaves it
+  // without occurrences
+  const toggleMonth = (month: number) => {
+    const months = (rule.byMonths ?? []).filter(isReachable);
+    const next = months.includes(month)
+      ? months.filter((m) => m !== month)
+      : [...months, month].sort((a, b) => a - b);
+    onChange({ ...rule, byMonths: next.length > 0 ? next : null });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="recurrenceFrequency">Frequência</Label>
+        <select
+          id="recurrenceFrequency"
+          value={rule.frequency}
+          onChange={(e) => {
+            const frequency = e.target.value as RecurrenceFrequency;
+            // Day rules only apply to monthly and yearly recurrences
+            onChange({
+              ...rule,
+              frequency,
+              ...(frequency === 'weekly' && {
+                byMonthDay: null,
+                byWeekday: null,
+                bySetPosition: null,
+                byBusinessDay: null,
+              }),
+              byMonths: frequency === 'weekly' ? null : rule.byMonths,
+            });
+          }}
+          className="w-full px-3 py-2 border rounded-md"
+        >
+          <option value="monthly">Mensal</option>
+          <option value="weekly">Semanal</option>
+          <option value="yearly">Anual</option>
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="recurrenceInterval">Repetir a cada ({periodNames[rule.frequency]})</Label>
+        <Input
+          id="recurrenceInterval"
+          type="number"
+          min="1"
+          step="1"
+          value={rule.interval}
+          onChange={(e) => onChange({ ...rule, interval: Math.max(parseInt(e.target.value) || 1, 1) })}
+        />
+      </div>
+
+      {!isWeekly && (
+        <div className="space-y-2">
+          <Label htmlFor="recurrenceDayMode">Dia</Label>
+          <select
+            id="recurrenceDayMode"
+            value={dayMode}
+            onChange={(e) => setDayMode(e.target.value as DayMode)}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="start_date">Mesmo dia da data inicial</option>
+            <option value="month_day">Dia fixo do mês</option>
+            <option value="weekday">Dia da semana</option>
+            <option value="business_day">Dia útil do mês</option>
+          </select>
+        </div>
+      )}
+
+      {!isWeekly && dayMode === 'month_day' && (
+        <div className="space-y-2">
+          <Label htmlFor="recurrenceMonthDay">Dia do mês</Label>
+          <select
+            id="recurrenceMonthDay"
+            value={rule.byMonthDay ?? 1}
+            onChange={(e) => onChange({ ...rule, byMonthDay: parseInt(e.target.value) })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {Array.from({ length: 31 }, (_, i) => (
+              <option key={i + 1} value={i + 1}>
+                Dia {i + 1}
+              </option>
+            ))}
+            <option value={-1}>Último dia do mês</option>
+          </select>
+        </div>
+      )}
+
+      {!isWeekly && dayMode === 'weekday' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="recurrenceSetPosition">Ocorrência</Label>
+            <select
+              id="recurrenceSetPosition"
+              value={rule.bySetPosition ?? 1}
+              onChange={(e) => onChange({ ...rule, bySetPosition: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border rounded-md"
+            >
+              <option value={1}>Primeira</option>
+              <option value={2}>Segunda</option>
+              <option value={3}>Terceira</option>
+              <option value={4}>Quarta</option>
+              <option value={-1}>Última</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recurrenceWeekday">Dia da semana</Label>
+            <select
+              id="recurrenceWeekday"
+              value={rule.byWeekday ?? 1}
+              onChange={(e) => onChange({ ...rule, byWeekday: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border rounded-md"
+            >
+              {WEEKDAY_NAMES.map((name, index) => (
+                <option key={name} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {!isWeekly && dayMode === 'business_day' && (
+        <div className="space-y-2">
+          <Label htmlFor="recurrenceBusinessDay">Dia útil</Label>
+          <select
+            id="recurrenceBusinessDay"
+            value={rule.byBusinessDay ?? 5}
+            onChange={(e) => onChange({ ...rule, byBusinessDay: parseInt(e.target.value) })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {Array.from({ length: 15 }, (_, i) => (
+              <option key={i + 1} value={i + 1}>
+                {i + 1}º dia útil
+              </option>
+            ))}
+            <option value={-1}>Último dia útil</option>
+          </select>
+          <p className="text-xs text-neutral-light">Considera fins de semana e feriados nacionais.</p>
+        </div>
+      )}
+
+      {dayMode !== 'business_day' && (
+        <div className="space-y-2">
+          <Label htmlFor="recurrenceAdjustment">Se cair em fim de semana ou feriado</Label>
+          <select
+            id="recurrenceAdjustment"
+            value={rule.businessDayAdjustment}
+            onChange={(e) => onChange({ ...rule, businessDayAdjustment: e.target.value as BusinessDayAdjustment })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="none">Manter a data</option>
+            <option value="following">Mover para o próximo dia útil</option>
+            <option value="preceding">Antecipar para o dia útil anterior</option>
+          </select>
+        </div>
+      )}
+
+      {!isWeekly && (
+        <div className="space-y-2 md:col-span-2">
+          <Label>{rule.frequency === 'yearly' ? 'Todo ano nos meses (opcional)' : 'Somente nos meses (opcional)'}</Label>
+          <div className="grid grid-cols-6 md:grid-cols-12 gap-1">
+            {MONTH_NAMES.map((name, index) => (
+              <Button
+                key={name}
+                type="button"
+                size="sm"
+                variant={rule.byMonths?.includes(index + 1) && isReachable(index + 1) ? 'default' : 'outline'}
+                disabled={!isReachable(index + 1)}
+                onClick={() => toggleMonth(index + 1)}
+              >
+                {name}
+              </Button>
+            ))}
+          </div>
+          {rule.byMonths?.length && !rule.byMonths.some(isReachable) ? (
+            <p className="text-xs text-red-500">
+              A recorrência nunca cai nesses meses a partir da data inicial. Escolha outros meses.
+            </p>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceRuleFields;
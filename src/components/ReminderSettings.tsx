@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Bell, BellOff, Loader2, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/lib/pushNotifications';
+
+// Per-user reminder channels. Lead times are set on each bill.
+const ReminderSettings = () => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [emailDigest, setEmailDigest] = useState(true);
+  const pushSupported = isPushSupported();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const [{ data: settings, error }, subscription] = await Promise.all([
+          supabase.from('notification_settings').select('*').eq('user_id', user.id).maybeSingle(),
+          getPushSubscription(),
+        ]);
+
+        if (error) throw error;
+
+        setEmailDigest(settings?.email_digest ?? true);
+        setPushEnabled(subscription !== null);
+      } catch (error) {
+        console.error('Error loading reminder settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [user]);
+
+  const togglePush = async () => {
+    setSaving(true);
+    try {
+      if (pushEnabled) {
+        const endpoint = await unsubscribeFromPush();
+        if (endpoint) {
+          const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', endpoint);
+          if (error) throw error;
+        }
+        setPushEnabled(false);
+        toast.success('Notificações desativadas neste navegador');
+        return;
+      }
+
+      const subscription = await subscribeToPush();
+      if (!subscription) {
+        toast.error('Permissão para notificações negada');
+        return;
+      }
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert(subscription, { onConflict: 'endpoint' });
+      if (error) throw error;
+
+      setPushEnabled(true);
+      toast.success('Notificações ativadas neste navegador');
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      toast.error('Erro ao atualizar notificações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEmailDigest = async (enabled: boolean) => {
+    setEmailDigest(enabled);
+    try {
+      const { error } = await supabase
+        .from('notification_settings')
+        .upsert({ email_digest: enabled, updated_at: new Date().toISOString() });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating notification settings:', error);
+      toast.error('Erro ao salvar preferência de email');
+      setEmailDigest(!enabled);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between rounded-lg border p-4">
+        <div className="space-y-0.5 pr-4">
+          <p className="font-medium flex items-center gap-2">
+            <Bell className="h-4 w-4" /> Notificações no navegador
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {pushSupported
+              ? 'Avisos nos dias escolhidos em cada conta e enquanto ela estiver vencida.'
+              : 'Este navegador não suporta notificações.'}
+          </p>
+        </div>
+        <Button
+          variant={pushEnabled ? 'outline' : 'default'}
+          size="sm"
+          disabled={!pushSupported || saving}
+          onClick={togglePush}
+        >
+          {saving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : pushEnabled ? (
+            <>
+              <BellOff className="mr-1 h-4 w-4" /> Desativar
+            </>
+          ) : (
+            'Ativar'
+          )}
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between rounded-lg border p-4">
+        <div className="space-y-0.5 pr-4">
+          <p className="font-medium flex items-center gap-2">
+            <Mail className="h-4 w-4" /> Resumo por email
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Um email por dia com as contas a vencer e vencidas, para {user?.email}.
+          </p>
+        </div>
+        <Switch checked={emailDigest} onCheckedChange={toggleEmailDigest} />
+      </div>
+    </div>
+  );
+};
+
+export default ReminderSettings;
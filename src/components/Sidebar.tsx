@@ -1,9 +1,11 @@
 import { NavLink } from "react-router-dom";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Menu, Home, CreditCard, CalendarMinus, Wallet, ListChecks } from "lucide-react";
+import { Menu, Home, CreditCard, CalendarMinus, Wallet, ListChecks, LogOut, Users, Wand2, PiggyBank, CalendarClock, TrendingUp, CalendarDays, Target, Tag } from "lucide-react";
 import { useState } from "react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/contexts/AuthContext";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
 
 const NAV_ITEMS = [
   {
@@ -16,23 +18,82 @@ const NAV_ITEMS = [
     icon: <CreditCard size="18" />,
     path: "/transacoes",
   },
+  {
+    title: "Agendamentos",
+    icon: <CalendarClock size="18" />,
+    path: "/agendamentos",
+  },
   {
     title: "Contas a Pagar",
     icon: <CalendarMinus size="18" />,
     path: "/contas-a-pagar",
   },
+  {
+    title: "Calendário",
+    icon: <CalendarDays size="18" />,
+    path: "/calendario",
+  },
+  {
+    title: "Previsão de Caixa",
+    icon: <TrendingUp size="18" />,
+    path: "/previsao",
+  },
+  {
+    title: "Orçamentos",
+    icon: <PiggyBank size="18" />,
+    path: "/orcamentos",
+  },
+  {
+    title: "Metas",
+    icon: <Target size="18" />,
+    path: "/metas",
+  },
+  {
+    title: "Etiquetas",
+    icon: <Tag size="18" />,
+    path: "/etiquetas",
+  },
   {
     title: "Categorias",
     icon: <ListChecks size="18" />,
     path: "/categorias",
   },
+  {
+    title: "Regras",
+    icon: <Wand2 size="18" />,
+    path: "/regras",
+  },
   {
     title: "Contas",
     icon: <Wallet size="18" />,
     path: "/contas",
   },
+  {
+    title: "Espaço de Trabalho",
+    icon: <Users size="18" />,
+    path: "/espaco",
+  },
 ];
 
+const UserFooter = () => {
+  const { user, signOut } = useAuth();
+
+  return (
+    <div className="p-4 border-t">
+      <p className="text-xs text-gray-500 truncate mb-2">{user?.email}</p>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full justify-start px-3"
+        onClick={signOut}
+      >
+        <LogOut className="mr-3 h-4 w-4" />
+        Sair
+      </Button>
+    </div>
+  );
+};
+
 const Sidebar = () => {
   const isMobile = useIsMobile();
   const [isOpen, setIsOpen] = useState(false);
@@ -52,6 +113,8 @@ const Sidebar = () => {
               <p className="text-sm text-gray-500">Gerencie suas finanças</p>
             </div>
 
+            <WorkspaceSwitcher />
+
             <div className="px-2 flex-grow">
               <ul className="space-y-1">
                 {NAV_ITEMS.map((item) => (
@@ -75,6 +138,8 @@ const Sidebar = () => {
                 ))}
               </ul>
             </div>
+
+            <UserFooter />
           </nav>
         </SheetContent>
       </Sheet>
@@ -89,6 +154,8 @@ const Sidebar = () => {
           <p className="text-sm text-gray-500">Gerencie suas finanças</p>
         </div>
 
+        <WorkspaceSwitcher />
+
         <div className="px-2 flex-grow">
           <ul className="space-y-1">
             {NAV_ITEMS.map((item) => (
@@ -109,6 +176,8 @@ const Sidebar = () => {
             ))}
           </ul>
         </div>
+
+        <UserFooter />
       </nav>
     </aside>
   );
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Tag names already used in the workspace, offered while typing
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const sameTag = (a: string, b: string) => a.toLocaleLowerCase('pt-BR') === b.toLocaleLowerCase('pt-BR');
+
+// Free-form tags typed as chips: Enter or comma adds the text typed so far,
+// Backspace on an empty field removes the last one
+const TagInput = ({ id, value, onChange, suggestions }: TagInputProps) => {
+  const [text, setText] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const addTag = (name: string) => {
+    const tag = name.trim();
+    setText('');
+    if (!tag || value.some((t) => sameTag(t, tag))) return;
+
+    // Reuse the spelling of an existing tag
+    onChange([...value, suggestions.find((s) => sameTag(s, tag)) ?? tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((t) => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const query = text.trim().toLocaleLowerCase('pt-BR');
+  const matches = suggestions
+    .filter((s) => !value.some((t) => sameTag(t, s)))
+    .filter((s) => s.toLocaleLowerCase('pt-BR').includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="hover:text-primary/70"
+              aria-label={`Remover etiqueta ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          value={text}
+          placeholder={value.length === 0 ? 'Ex.: Viagem Floripa' : ''}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            addTag(text);
+          }}
+          className="h-7 min-w-[8rem] flex-1 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {focused && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-white py-1 shadow-md">
+          {matches.map((suggestion) => (
+            <li key={suggestion}>
+              <button
+                type="button"
+                // Keeps the focus in the field, so it doesn't add the half-typed text on blur
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(suggestion)}
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-50"
+              >
+                {suggestion}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
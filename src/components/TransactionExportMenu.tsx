@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Download, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useFinance, Transaction } from "@/contexts/FinanceContext";
+import { exportTransactions, ExportFormat } from "@/lib/transactionExport";
+
+interface TransactionExportMenuProps {
+  // Already filtered list, exported as shown
+  transactions: Transaction[];
+  filtersDescription: string;
+}
+
+const TransactionExportMenu = ({ transactions, filtersDescription }: TransactionExportMenuProps) => {
+  const { getCategoryById, getAccountById, exchangeRates, baseCurrency } = useFinance();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(true);
+    try {
+      await exportTransactions(exportFormat, {
+        transactions,
+        getCategoryById,
+        getAccountById,
+        exchangeRates,
+        currency: baseCurrency,
+        filtersDescription,
+      });
+    } catch (error) {
+      console.error("Error exporting transactions:", error);
+      toast.error("Erro ao exportar transações");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting || transactions.length === 0}>
+          {exporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Exportar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("pdf")}>
+          <FileText className="mr-2 h-4 w-4" />
+          Extrato em PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TransactionExportMenu;
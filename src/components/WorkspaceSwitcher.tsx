@@ -0,0 +1,44 @@
+
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ROLE_LABELS = {
+  owner: "Proprietário",
+  editor: "Editor",
+  viewer: "Leitor",
+};
+
+const WorkspaceSwitcher = () => {
+  const { workspaces, currentWorkspace, selectWorkspace } = useWorkspace();
+
+  if (!currentWorkspace) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 mb-4">
+      <p className="text-xs text-gray-500 mb-1">Espaço de trabalho</p>
+      <Select value={currentWorkspace.id} onValueChange={selectWorkspace}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+              <span className="ml-2 text-xs text-gray-500">{ROLE_LABELS[workspace.role]}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
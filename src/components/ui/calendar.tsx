@@ -14,6 +14,7 @@ function Calendar({
   classNames,
   showOutsideDays = true,
   locale = ptBR,
+  components,
   ...props
 }: CalendarProps) {
   return (
@@ -58,6 +59,7 @@ function Calendar({
       components={{
         IconLeft: ({ ..._props }) => <ChevronLeft className="h-4 w-4" />,
         IconRight: ({ ..._props }) => <ChevronRight className="h-4 w-4" />,
+        ...components,
       }}
       {...props}
     />
@@ -1,25 +1,59 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { findRuleCategory } from '@/lib/categorizationRules';
+import { RecurrenceRule, getTemplateRule, toRecurrenceColumns } from '@/lib/recurrence';
+import { DEFAULT_CURRENCY, ExchangeRate, ExchangeRateInput } from '@/lib/currency';
+import { hasCategory } from '@/lib/transactionSplits';
+import { hasSubcategories } from '@/lib/categoryTree';
 
 // Types
-export type TransactionType = 'income' | 'expense';
-export type BillStatus = 'pending' | 'paid' | 'cancelled';
+export type TransactionType = 'income' | 'expense' | 'transfer';
+export type CategoryType = Exclude<TransactionType, 'transfer'>;
+export type BillStatus = 'pending' | 'partially_paid' | 'paid' | 'cancelled';
 export type RecurrenceType = 'monthly' | 'weekly' | 'yearly' | null;
+export type RuleMatchType = 'contains' | 'regex';
 
 export interface Category {
   id: string;
   name: string;
-  type: TransactionType;
+  type: CategoryType;
   icon: string;
   color?: string;
+  // Top-level category this one is a subcategory of
+  parentId?: string | null;
 }
 
 export interface Account {
   id: string;
   name: string;
+  // Opening balance plus every transaction in the ledger
   balance: number;
+  openingBalance: number;
+  // Cached balance on the account row, compared against `balance` when reconciling
+  storedBalance: number;
   type: 'bank' | 'cash' | 'credit' | 'investment';
+  // ISO 4217 code; amounts of the account's transactions are in this currency
+  currency: string;
+  // Statement cycle and limit, only used by credit card accounts
+  closingDay: number | null;
+  dueDay: number | null;
+  creditLimit: number | null;
+}
+
+export type AccountInput = Omit<Account, 'id' | 'balance' | 'storedBalance'>;
+
+// 'opening' trusts the stored balance and adjusts the opening balance to match it,
+// 'stored' trusts the ledger and overwrites the stored balance with the computed one
+export type ReconcileStrategy = 'opening' | 'stored';
+
+// Part of a transaction's amount assigned to one category
+export interface TransactionSplit {
+  categoryId: string;
+  amount: number;
 }
 
 export interface Transaction {
@@ -27,9 +61,64 @@ export interface Transaction {
   type: TransactionType;
   amount: number;
   date: Date;
-  categoryId: string;
+  categoryId: string | null;
   accountId: string;
   description: string;
+  // Only set for transfers, where `accountId` is the source account
+  destinationAccountId?: string | null;
+  // Amount credited to the destination when its currency differs from the source's
+  destinationAmount?: number | null;
+  // Installments of a card purchase point to the first installment
+  parentTransactionId?: string | null;
+  installmentNumber?: number | null;
+  installmentCount?: number | null;
+  // Category lines adding up to `amount`; empty unless the transaction is split
+  splits?: TransactionSplit[];
+  // Savings goal the transaction contributes to
+  goalId?: string | null;
+  // Free-form tag names, e.g. a trip or an event spanning several categories
+  tags?: string[];
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+// Assigns `categoryId` to transactions matching every condition that is set
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  categoryId: string;
+  matchType: RuleMatchType;
+  pattern: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  accountId: string | null;
+  priority: number;
+}
+
+export interface CategoryChange {
+  transactionId: string;
+  categoryId: string;
+}
+
+export interface Budget {
+  id: string;
+  categoryId: string;
+  // yyyy-MM
+  month: string;
+  amount: number;
+  rollover: boolean;
+}
+
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  deadline: Date | null;
+  // Transfers into and out of this account count as contributions
+  accountId: string | null;
 }
 
 export interface Bill {
@@ -37,7 +126,8 @@ export interface Bill {
   description: string;
   amount: number;
   dueDate: Date;
-  categoryId: string;
+  // Null for credit card invoices
+  categoryId: string | null;
   status: BillStatus;
   isRecurring: boolean;
   recurrenceType: RecurrenceType;
@@ -46,6 +136,48 @@ export interface Bill {
   totalInstallments: number | null;
   currentInstallment: number | null;
   parentBillId: string | null;
+  // Recurring bills are occurrences of a template generated on the server
+  templateId: string | null;
+  // Set on invoices generated for a closed credit card statement
+  statementAccountId: string | null;
+  // yyyy-MM of the month the statement closed in
+  statementMonth: string | null;
+  // Days before the due date to send reminders, 0 for the due date itself
+  reminderDays: number[];
+}
+
+export interface BillPayment {
+  id: string;
+  billId: string;
+  accountId: string;
+  transactionId: string | null;
+  amount: number;
+  paidAt: Date;
+}
+
+export interface ScheduledTransaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  categoryId: string | null;
+  accountId: string;
+  destinationAccountId: string | null;
+  rule: RecurrenceRule;
+  startDate: Date;
+  endDate: Date | null;
+  // Occurrences wait in `pendingTransactions` until confirmed
+  requiresConfirmation: boolean;
+  // Date of the last occurrence posted or left pending
+  lastPostedDate: Date | null;
+}
+
+// An occurrence of a scheduled transaction waiting for confirmation
+export interface PendingTransaction {
+  id: string;
+  scheduledTransactionId: string;
+  date: Date;
+  amount: number;
 }
 
 interface FinanceContextType {
@@ -53,90 +185,381 @@ interface FinanceContextType {
   categories: Category[];
   accounts: Account[];
   bills: Bill[];
+  billPayments: BillPayment[];
+  categorizationRules: CategorizationRule[];
+  budgets: Budget[];
+  goals: Goal[];
+  exchangeRates: ExchangeRate[];
+  tags: Tag[];
+  // Currency the Dashboard converts its totals to, remembered per browser
+  baseCurrency: string;
+  setBaseCurrency: (currency: string) => void;
+  scheduledTransactions: ScheduledTransaction[];
+  pendingTransactions: PendingTransaction[];
   loading: boolean;
   billsLoading: boolean;
+  // Transactions without a category get one from the categorization rules
   addTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>;
+  // Bulk insert used by the statement import; resolves to the number of rows saved
+  importTransactions: (transactions: Omit<Transaction, 'id'>[]) => Promise<number>;
+  // Splits a credit card purchase into monthly installments
+  addInstallmentPurchase: (transaction: Omit<Transaction, 'id'>, installments: number) => Promise<void>;
+  // Act on the installments of a purchase dated after today
+  cancelRemainingInstallments: (parentId: string) => Promise<void>;
+  settleRemainingInstallments: (parentId: string) => Promise<void>;
   editTransaction: (id: string, transaction: Omit<Transaction, 'id'>) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
   addCategory: (category: Omit<Category, 'id'>) => Promise<void>;
   editCategory: (id: string, category: Omit<Category, 'id'>) => Promise<void>;
   deleteCategory: (id: string) => Promise<void>;
-  addAccount: (account: Omit<Account, 'id'>) => Promise<void>;
-  editAccount: (id: string, account: Omit<Account, 'id'>) => Promise<void>;
+  // Moves everything using the source category to the target, then deletes it
+  mergeCategory: (sourceId: string, targetId: string) => Promise<void>;
+  addAccount: (account: AccountInput) => Promise<void>;
+  editAccount: (id: string, account: AccountInput) => Promise<void>;
   deleteAccount: (id: string) => Promise<void>;
+  // Moves everything using the source account to the target, then deletes it
+  mergeAccount: (sourceId: string, targetId: string) => Promise<void>;
+  reconcileAccount: (id: string, strategy: ReconcileStrategy) => Promise<void>;
+  addCategorizationRule: (rule: Omit<CategorizationRule, 'id'>) => Promise<void>;
+  editCategorizationRule: (id: string, rule: Omit<CategorizationRule, 'id'>) => Promise<void>;
+  deleteCategorizationRule: (id: string) => Promise<void>;
+  // Category id chosen by the rules for a transaction, if any rule matches
+  getRuleCategoryId: (transaction: Pick<Transaction, 'type' | 'description' | 'amount' | 'accountId'>) => string | undefined;
+  recategorizeTransactions: (changes: CategoryChange[]) => Promise<void>;
+  addBudget: (budget: Omit<Budget, 'id'>) => Promise<void>;
+  editBudget: (id: string, budget: Omit<Budget, 'id'>) => Promise<void>;
+  deleteBudget: (id: string) => Promise<void>;
+  addGoal: (goal: Omit<Goal, 'id'>) => Promise<void>;
+  editGoal: (id: string, goal: Omit<Goal, 'id'>) => Promise<void>;
+  deleteGoal: (id: string) => Promise<void>;
+  addExchangeRate: (rate: ExchangeRateInput) => Promise<void>;
+  // Bulk upsert used by the rates file import; resolves to the number of rows saved
+  importExchangeRates: (rates: ExchangeRateInput[]) => Promise<number>;
+  deleteExchangeRate: (id: string) => Promise<void>;
+  addScheduledTransaction: (schedule: Omit<ScheduledTransaction, 'id' | 'lastPostedDate'>) => Promise<void>;
+  deleteScheduledTransaction: (id: string) => Promise<void>;
+  // Posts the occurrence to the ledger, with a corrected amount if given
+  confirmPendingTransaction: (id: string, amount?: number) => Promise<void>;
+  dismissPendingTransaction: (id: string) => Promise<void>;
   getCategoryById: (id: string) => Category | undefined;
   getAccountById: (id: string) => Account | undefined;
   addBill: (bill: Omit<Bill, 'id'>) => Promise<void>;
   editBill: (id: string, bill: Omit<Bill, 'id'>) => Promise<void>;
+  rescheduleBill: (id: string, dueDate: Date) => Promise<void>;
   deleteBill: (id: string) => Promise<void>;
-  payBill: (billId: string, accountId: string) => Promise<void>;
+  stopBillRecurrence: (templateId: string) => Promise<void>;
+  // Pays the remaining amount when `amount` is omitted
+  payBill: (billId: string, accountId: string, amount?: number) => Promise<void>;
 }
 
+const BASE_CURRENCY_KEY = 'baseCurrency';
+
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
 
+// Transactions are selected together with their split lines and tag names
+const TRANSACTION_COLUMNS = '*, transaction_splits(*), transaction_tags(tags(name))';
+
+type TransactionRow = Tables<'transactions'> & {
+  transaction_splits?: Tables<'transaction_splits'>[];
+  transaction_tags?: { tags: Pick<Tables<'tags'>, 'name'> | null }[];
+};
+
+const sortTagNames = (names: string[]) => [...names].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+
+const formatTransaction = (trans: TransactionRow): Transaction => ({
+  id: trans.id,
+  type: trans.type as TransactionType,
+  amount: Number(trans.amount),
+  date: new Date(trans.date),
+  categoryId: trans.category_id,
+  accountId: trans.account_id,
+  description: trans.description,
+  destinationAccountId: trans.destination_account_id,
+  destinationAmount: trans.destination_amount === null ? null : Number(trans.destination_amount),
+  parentTransactionId: trans.parent_transaction_id,
+  installmentNumber: trans.installment_number,
+  installmentCount: trans.installment_count,
+  goalId: trans.goal_id,
+  splits: (trans.transaction_splits ?? []).map((split) => ({
+    categoryId: split.category_id,
+    amount: Number(split.amount),
+  })),
+  tags: sortTagNames(
+    (trans.transaction_tags ?? []).flatMap((link) => (link.tags ? [link.tags.name] : []))
+  ),
+});
+
+const formatCategorizationRule = (rule: Tables<'categorization_rules'>): CategorizationRule => ({
+  id: rule.id,
+  name: rule.name,
+  categoryId: rule.category_id,
+  matchType: rule.match_type as RuleMatchType,
+  pattern: rule.pattern,
+  minAmount: rule.min_amount === null ? null : Number(rule.min_amount),
+  maxAmount: rule.max_amount === null ? null : Number(rule.max_amount),
+  accountId: rule.account_id,
+  priority: rule.priority,
+});
+
+const formatBudget = (budget: Tables<'budgets'>): Budget => ({
+  id: budget.id,
+  categoryId: budget.category_id,
+  month: budget.month.slice(0, 7),
+  amount: Number(budget.amount),
+  rollover: budget.rollover,
+});
+
+const formatBill = (bill: Tables<'bills'>): Bill => ({
+  id: bill.id,
+  description: bill.description,
+  amount: Number(bill.amount),
+  dueDate: new Date(bill.due_date),
+  categoryId: bill.category_id,
+  status: bill.status as BillStatus,
+  isRecurring: bill.is_recurring,
+  recurrenceType: bill.recurrence_type as RecurrenceType,
+  recurrenceEndDate: bill.recurrence_end_date ? new Date(bill.recurrence_end_date) : null,
+  isInstallment: bill.is_installment,
+  totalInstallments: bill.total_installments,
+  currentInstallment: bill.current_installment,
+  parentBillId: bill.parent_bill_id,
+  templateId: bill.template_id,
+  statementAccountId: bill.statement_account_id,
+  statementMonth: bill.statement_month ? bill.statement_month.slice(0, 7) : null,
+  reminderDays: bill.reminder_days,
+});
+
+const formatBillPayment = (payment: Tables<'bill_payments'>): BillPayment => ({
+  id: payment.id,
+  billId: payment.bill_id,
+  accountId: payment.account_id,
+  transactionId: payment.transaction_id,
+  amount: Number(payment.amount),
+  paidAt: new Date(payment.paid_at),
+});
+
+// Schedule dates and goal deadlines are calendar days, kept at local
+// midnight like the recurrence helpers expect
+const parseCalendarDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatGoal = (goal: Tables<'goals'>): Goal => ({
+  id: goal.id,
+  name: goal.name,
+  targetAmount: Number(goal.target_amount),
+  deadline: goal.deadline ? parseCalendarDay(goal.deadline) : null,
+  accountId: goal.account_id,
+});
+
+const formatExchangeRate = (rate: Tables<'exchange_rates'>): ExchangeRate => ({
+  id: rate.id,
+  baseCurrency: rate.base_currency,
+  quoteCurrency: rate.quote_currency,
+  rate: Number(rate.rate),
+  // Same UTC midnight as transaction dates, so rates apply on the right day
+  date: new Date(rate.date),
+});
+
+const formatScheduledTransaction = (schedule: Tables<'scheduled_transactions'>): ScheduledTransaction => ({
+  id: schedule.id,
+  type: schedule.type as TransactionType,
+  amount: Number(schedule.amount),
+  description: schedule.description,
+  categoryId: schedule.category_id,
+  accountId: schedule.account_id,
+  destinationAccountId: schedule.destination_account_id,
+  rule: getTemplateRule(schedule),
+  startDate: parseCalendarDay(schedule.start_date),
+  endDate: schedule.recurrence_end_date ? parseCalendarDay(schedule.recurrence_end_date) : null,
+  requiresConfirmation: schedule.requires_confirmation,
+  lastPostedDate: schedule.generated_until ? parseCalendarDay(schedule.generated_until) : null,
+});
+
+const formatPendingTransaction = (pending: Tables<'pending_transactions'>): PendingTransaction => ({
+  id: pending.id,
+  scheduledTransactionId: pending.scheduled_transaction_id,
+  date: parseCalendarDay(pending.date),
+  amount: Number(pending.amount),
+});
+
+// Loads accounts together with their ledger-derived balances
+const loadAccounts = async (workspaceId: string): Promise<Account[]> => {
+  const [{ data: accountsData, error: accountsError }, { data: balancesData, error: balancesError }] =
+    await Promise.all([
+      supabase.from('accounts').select('*').eq('workspace_id', workspaceId),
+      supabase.from('account_balances').select('*').eq('workspace_id', workspaceId),
+    ]);
+
+  if (accountsError) throw accountsError;
+  if (balancesError) throw balancesError;
+
+  return accountsData.map((acc) => {
+    const balanceRow = balancesData.find((b) => b.account_id === acc.id);
+    return {
+      id: acc.id,
+      name: acc.name,
+      balance: Number(balanceRow?.computed_balance ?? acc.opening_balance),
+      openingBalance: Number(acc.opening_balance),
+      storedBalance: Number(acc.balance),
+      type: acc.type as Account['type'],
+      currency: acc.currency,
+      closingDay: acc.closing_day,
+      dueDay: acc.due_day,
+      creditLimit: acc.credit_limit === null ? null : Number(acc.credit_limit),
+    };
+  });
+};
+
 export const FinanceProvider = ({ children }: { children: ReactNode }) => {
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [bills, setBills] = useState<Bill[]>([]);
+  const [billPayments, setBillPayments] = useState<BillPayment[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [baseCurrency, setStoredBaseCurrency] = useState(
+    () => localStorage.getItem(BASE_CURRENCY_KEY) ?? DEFAULT_CURRENCY
+  );
+  const [scheduledTransactions, setScheduledTransactions] = useState<ScheduledTransaction[]>([]);
+  const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [billsLoading, setBillsLoading] = useState(true);
 
-  // Fetch data from Supabase
+  // Fetch data from Supabase for the selected workspace. Row-level security
+  // only returns workspaces the user belongs to, so we still filter by the
+  // selected one and reload whenever it changes.
   useEffect(() => {
+    if (!workspaceId) {
+      setCategories([]);
+      setAccounts([]);
+      setTransactions([]);
+      setCategorizationRules([]);
+      setBudgets([]);
+      setGoals([]);
+      setExchangeRates([]);
+      setTags([]);
+      setScheduledTransactions([]);
+      setPendingTransactions([]);
+      setLoading(false);
+      return;
+    }
+
     const fetchData = async () => {
       setLoading(true);
       try {
         // Fetch categories
         const { data: categoriesData, error: categoriesError } = await supabase
           .from('categories')
-          .select('*');
+          .select('*')
+          .eq('workspace_id', workspaceId);
         
         if (categoriesError) throw categoriesError;
         
-        // Fetch accounts
-        const { data: accountsData, error: accountsError } = await supabase
-          .from('accounts')
-          .select('*');
-        
-        if (accountsError) throw accountsError;
+        // Post scheduled transactions that came due since the last visit
+        const { error: postError } = await supabase.rpc('post_scheduled_transactions', {
+          p_workspace_id: workspaceId,
+        });
+
+        if (postError) {
+          console.error('Error posting scheduled transactions:', postError);
+        }
+
+        // Fetch accounts with their computed balances
+        const formattedAccounts = await loadAccounts(workspaceId);
         
         // Fetch transactions
         const { data: transactionsData, error: transactionsError } = await supabase
           .from('transactions')
-          .select('*');
+          .select(TRANSACTION_COLUMNS)
+          .eq('workspace_id', workspaceId);
         
         if (transactionsError) throw transactionsError;
 
+        // Fetch categorization rules
+        const { data: rulesData, error: rulesError } = await supabase
+          .from('categorization_rules')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (rulesError) throw rulesError;
+
+        // Fetch budgets
+        const { data: budgetsData, error: budgetsError } = await supabase
+          .from('budgets')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (budgetsError) throw budgetsError;
+
+        // Fetch savings goals
+        const { data: goalsData, error: goalsError } = await supabase
+          .from('goals')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (goalsError) throw goalsError;
+
+        // Fetch exchange rates
+        const { data: ratesData, error: ratesError } = await supabase
+          .from('exchange_rates')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (ratesError) throw ratesError;
+
+        // Fetch tags
+        const { data: tagsData, error: tagsError } = await supabase
+          .from('tags')
+          .select('id, name')
+          .eq('workspace_id', workspaceId);
+
+        if (tagsError) throw tagsError;
+
+        // Fetch scheduled transactions and the occurrences awaiting confirmation
+        const { data: schedulesData, error: schedulesError } = await supabase
+          .from('scheduled_transactions')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (schedulesError) throw schedulesError;
+
+        const { data: pendingData, error: pendingError } = await supabase
+          .from('pending_transactions')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (pendingError) throw pendingError;
+
         // Transform data to match our interfaces
         const formattedCategories = categoriesData.map((cat) => ({
           id: cat.id,
           name: cat.name,
-          type: cat.type as TransactionType,
+          type: cat.type as CategoryType,
           icon: cat.icon,
           color: cat.color,
+          parentId: cat.parent_id,
         }));
 
-        const formattedAccounts = accountsData.map((acc) => ({
-          id: acc.id,
-          name: acc.name,
-          balance: Number(acc.balance),
-          type: acc.type as 'bank' | 'cash' | 'credit' | 'investment',
-        }));
-
-        const formattedTransactions = transactionsData.map((trans) => ({
-          id: trans.id,
-          type: trans.type as TransactionType,
-          amount: Number(trans.amount),
-          date: new Date(trans.date),
-          categoryId: trans.category_id,
-          accountId: trans.account_id,
-          description: trans.description,
-        }));
+        const formattedTransactions = transactionsData.map(formatTransaction);
 
         setCategories(formattedCategories);
         setAccounts(formattedAccounts);
         setTransactions(formattedTransactions);
+        setCategorizationRules(rulesData.map(formatCategorizationRule));
+        setBudgets(budgetsData.map(formatBudget));
+        setGoals(goalsData.map(formatGoal));
+        setExchangeRates(ratesData.map(formatExchangeRate));
+        setTags(tagsData);
+        setScheduledTransactions(schedulesData.map(formatScheduledTransaction));
+        setPendingTransactions(pendingData.map(formatPendingTransaction));
       } catch (error) {
         console.error('Error fetching data:', error);
         toast.error('Erro ao carregar dados');
@@ -146,36 +569,45 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     };
 
     fetchData();
-  }, []);
+  }, [workspaceId]);
 
   // Fetch bills data
   useEffect(() => {
+    if (!workspaceId) {
+      setBills([]);
+      setBillPayments([]);
+      setBillsLoading(false);
+      return;
+    }
+
     const fetchBills = async () => {
       setBillsLoading(true);
       try {
+        // Create invoices for credit card statements closed since the last visit
+        const { error: statementsError } = await supabase.rpc('generate_card_statement_bills', {
+          p_workspace_id: workspaceId,
+        });
+
+        if (statementsError) {
+          console.error('Error generating card statement bills:', statementsError);
+        }
+
         const { data: billsData, error: billsError } = await supabase
           .from('bills')
-          .select('*');
+          .select('*')
+          .eq('workspace_id', workspaceId);
         
         if (billsError) throw billsError;
-        
-        const formattedBills = billsData.map((bill) => ({
-          id: bill.id,
-          description: bill.description,
-          amount: Number(bill.amount),
-          dueDate: new Date(bill.due_date),
-          categoryId: bill.category_id,
-          status: bill.status as BillStatus,
-          isRecurring: bill.is_recurring,
-          recurrenceType: bill.recurrence_type as RecurrenceType,
-          recurrenceEndDate: bill.recurrence_end_date ? new Date(bill.recurrence_end_date) : null,
-          isInstallment: bill.is_installment,
-          totalInstallments: bill.total_installments,
-          currentInstallment: bill.current_installment,
-          parentBillId: bill.parent_bill_id,
-        }));
 
-        setBills(formattedBills);
+        const { data: paymentsData, error: paymentsError } = await supabase
+          .from('bill_payments')
+          .select('*')
+          .eq('workspace_id', workspaceId);
+
+        if (paymentsError) throw paymentsError;
+        
+        setBills(billsData.map(formatBill));
+        setBillPayments(paymentsData.map(formatBillPayment));
       } catch (error) {
         console.error('Error fetching bills:', error);
         toast.error('Erro ao carregar contas a pagar');
@@ -185,62 +617,308 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     };
 
     fetchBills();
-  }, []);
+  }, [workspaceId]);
+
+  // Balances are derived from the ledger, so reload them after it changes
+  const refreshAccounts = async () => {
+    try {
+      setAccounts(await loadAccounts(workspaceId));
+    } catch (error) {
+      console.error('Error refreshing accounts:', error);
+    }
+  };
+
+  const getRuleCategoryId = (
+    transaction: Pick<Transaction, 'type' | 'description' | 'amount' | 'accountId'>
+  ) => findRuleCategory(categorizationRules, categories, transaction);
+
+  // Replaces the split lines of a transaction; the database checks they add
+  // up to its amount and keeps the first line as its category
+  const saveTransactionSplits = async (transactionId: string, splits: TransactionSplit[]) => {
+    const { error } = await supabase.rpc('set_transaction_splits', {
+      p_transaction_id: transactionId,
+      p_splits: splits.map((split) => ({ category_id: split.categoryId, amount: split.amount })),
+    });
+
+    if (error) throw error;
+  };
+
+  // Replaces the tags of a transaction, creating the ones not used before.
+  // Tag names are matched ignoring case, so the saved spelling is returned.
+  const saveTransactionTags = async (transactionId: string, tagNames: string[]) => {
+    const { data, error } = await supabase.rpc('set_transaction_tags', {
+      p_transaction_id: transactionId,
+      p_tag_names: tagNames,
+    });
+
+    if (error) throw error;
+
+    setTags((current) => [
+      ...current,
+      ...data.filter((tag) => !current.some((t) => t.id === tag.id)).map(({ id, name }) => ({ id, name })),
+    ]);
+    return sortTagNames(data.map((tag) => tag.name));
+  };
 
   const addTransaction = async (transaction: Omit<Transaction, 'id'>) => {
+    const splits = transaction.type === 'transfer' ? [] : transaction.splits ?? [];
+    const categoryId = transaction.type === 'transfer'
+      ? null
+      : splits[0]?.categoryId || transaction.categoryId || getRuleCategoryId(transaction);
+
+    if (transaction.type !== 'transfer' && !categoryId) {
+      toast.error('Nenhuma regra de categorização corresponde a esta transação. Selecione uma categoria.');
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('transactions')
         .insert({
+          workspace_id: workspaceId,
           type: transaction.type,
           amount: transaction.amount,
           date: transaction.date.toISOString(),
-          category_id: transaction.categoryId,
+          category_id: categoryId,
           account_id: transaction.accountId,
           description: transaction.description,
+          destination_account_id: transaction.type === 'transfer' ? transaction.destinationAccountId : null,
+          destination_amount: transaction.type === 'transfer' ? transaction.destinationAmount ?? null : null,
+          goal_id: transaction.goalId ?? null,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      const newTransaction = {
-        id: data.id,
-        type: data.type as TransactionType,
-        amount: Number(data.amount),
-        date: new Date(data.date),
-        categoryId: data.category_id,
-        accountId: data.account_id,
-        description: data.description,
-      };
+      let tagNames: string[] = [];
+      try {
+        if (splits.length > 0) {
+          await saveTransactionSplits(data.id, splits);
+        }
+        if (transaction.tags?.length) {
+          tagNames = await saveTransactionTags(data.id, transaction.tags);
+        }
+      } catch (detailsError) {
+        // Don't leave the transaction behind without its lines or tags
+        await supabase.from('transactions').delete().eq('id', data.id);
+        throw detailsError;
+      }
+
+      const newTransaction = { ...formatTransaction(data), splits, tags: tagNames };
 
       setTransactions([...transactions, newTransaction]);
-      toast.success('Transação adicionada com sucesso!');
+      await refreshAccounts();
+      toast.success(
+        newTransaction.type === 'transfer'
+          ? 'Transferência realizada com sucesso!'
+          : 'Transação adicionada com sucesso!'
+      );
     } catch (error) {
       console.error('Error adding transaction:', error);
       toast.error('Erro ao adicionar transação');
     }
   };
 
+  const importTransactions = async (newTransactions: Omit<Transaction, 'id'>[]) => {
+    if (newTransactions.length === 0) return 0;
+
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert(
+          newTransactions.map((transaction) => ({
+            workspace_id: workspaceId,
+            type: transaction.type,
+            amount: transaction.amount,
+            date: transaction.date.toISOString(),
+            category_id: transaction.categoryId || getRuleCategoryId(transaction),
+            account_id: transaction.accountId,
+            description: transaction.description,
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      setTransactions([...transactions, ...data.map(formatTransaction)]);
+      await refreshAccounts();
+      toast.success(`${data.length} transações importadas com sucesso!`);
+      return data.length;
+    } catch (error) {
+      console.error('Error importing transactions:', error);
+      toast.error('Erro ao importar transações');
+      return 0;
+    }
+  };
+
+  const addInstallmentPurchase = async (transaction: Omit<Transaction, 'id'>, installments: number) => {
+    const categoryId = transaction.categoryId || getRuleCategoryId(transaction);
+
+    if (!categoryId) {
+      toast.error('Nenhuma regra de categorização corresponde a esta transação. Selecione uma categoria.');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('create_installment_purchase', {
+        p_account_id: transaction.accountId,
+        p_category_id: categoryId,
+        p_description: transaction.description,
+        p_amount: transaction.amount,
+        p_date: transaction.date.toISOString(),
+        p_installments: installments,
+      });
+
+      if (error) throw error;
+
+      // Every installment carries the purchase's tags
+      const tagNames = transaction.tags?.length
+        ? (await Promise.all(data.map((row) => saveTransactionTags(row.id, transaction.tags!))))[0]
+        : [];
+
+      setTransactions([...transactions, ...data.map((row) => ({ ...formatTransaction(row), tags: tagNames }))]);
+      await refreshAccounts();
+      toast.success(`Compra parcelada em ${installments}x adicionada com sucesso!`);
+    } catch (error) {
+      console.error('Error adding installment purchase:', error);
+      toast.error('Erro ao adicionar compra parcelada');
+    }
+  };
+
+  const isRemainingInstallment = (t: Transaction, parentId: string, now = new Date()) =>
+    (t.id === parentId || t.parentTransactionId === parentId) && new Date(t.date) > now;
+
+  // Installments already posted are kept; if the parent itself is cancelled,
+  // the database moves them under the earliest one left
+  const cancelRemainingInstallments = async (parentId: string) => {
+    const now = new Date();
+
+    try {
+      const { error } = await supabase.rpc('cancel_remaining_installments', {
+        p_parent_id: parentId,
+        p_after: now.toISOString(),
+      });
+
+      if (error) throw error;
+
+      const kept = transactions.filter((t) => !isRemainingInstallment(t, parentId, now));
+      const parentKept = kept.some((t) => t.id === parentId);
+      const [newParent] = kept
+        .filter((t) => t.parentTransactionId === parentId)
+        .sort((a, b) => (a.installmentNumber ?? 0) - (b.installmentNumber ?? 0));
+
+      setTransactions(
+        kept.map((t) => {
+          if (parentKept || !newParent || t.parentTransactionId !== parentId) return t;
+          return { ...t, parentTransactionId: t.id === newParent.id ? null : newParent.id };
+        })
+      );
+      await refreshAccounts();
+      toast.success('Parcelas restantes canceladas com sucesso!');
+    } catch (error) {
+      console.error('Error cancelling installments:', error);
+      toast.error('Erro ao cancelar parcelas');
+    }
+  };
+
+  // Moves the remaining installments to today so they fall in the current statement
+  const settleRemainingInstallments = async (parentId: string) => {
+    const today = new Date(new Date().toISOString().split('T')[0]);
+
+    try {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ date: today.toISOString() })
+        .or(`id.eq.${parentId},parent_transaction_id.eq.${parentId}`)
+        .gt('date', new Date().toISOString());
+
+      if (error) throw error;
+
+      setTransactions(
+        transactions.map((t) => (isRemainingInstallment(t, parentId) ? { ...t, date: today } : t))
+      );
+      await refreshAccounts();
+      toast.success('Parcelas antecipadas para a fatura atual!');
+    } catch (error) {
+      console.error('Error settling installments:', error);
+      toast.error('Erro ao antecipar parcelas');
+    }
+  };
+
   const editTransaction = async (id: string, transaction: Omit<Transaction, 'id'>) => {
+    const splits = transaction.type === 'transfer' ? [] : transaction.splits ?? [];
+    const previous = transactions.find((t) => t.id === id);
+    const wasSplit = (previous?.splits?.length ?? 0) > 0;
+    const wasTagged = (previous?.tags?.length ?? 0) > 0;
+    const categoryId = transaction.type === 'transfer'
+      ? null
+      : splits[0]?.categoryId || transaction.categoryId || getRuleCategoryId(transaction);
+
+    if (transaction.type !== 'transfer' && !categoryId) {
+      toast.error('Nenhuma regra de categorização corresponde a esta transação. Selecione uma categoria.');
+      return;
+    }
+
+    const toRow = (t: Omit<Transaction, 'id'>, rowCategoryId: string | null) => ({
+      type: t.type,
+      amount: t.amount,
+      date: t.date.toISOString(),
+      category_id: rowCategoryId,
+      account_id: t.accountId,
+      description: t.description,
+      destination_account_id: t.type === 'transfer' ? t.destinationAccountId : null,
+      destination_amount: t.type === 'transfer' ? t.destinationAmount ?? null : null,
+      goal_id: t.goalId ?? null,
+    });
+
     try {
       const { error } = await supabase
         .from('transactions')
-        .update({
-          type: transaction.type,
-          amount: transaction.amount,
-          date: transaction.date.toISOString(),
-          category_id: transaction.categoryId,
-          account_id: transaction.accountId,
-          description: transaction.description,
-        })
+        .update(toRow(transaction, categoryId))
         .eq('id', id);
 
       if (error) throw error;
 
+      let splitsSaved = false;
+      let tagNames = previous?.tags ?? [];
+      try {
+        if (splits.length > 0 || wasSplit) {
+          await saveTransactionSplits(id, splits);
+          splitsSaved = true;
+        }
+        if (transaction.tags?.length || wasTagged) {
+          tagNames = await saveTransactionTags(id, transaction.tags ?? []);
+        }
+      } catch (detailsError) {
+        // Put the original row back so it still matches its lines and tags
+        if (previous) {
+          await supabase.from('transactions').update(toRow(previous, previous.categoryId)).eq('id', id);
+          if (splitsSaved) {
+            await saveTransactionSplits(id, previous.splits ?? []).catch((restoreError) =>
+              console.error('Error restoring transaction splits:', restoreError)
+            );
+          }
+        }
+        throw detailsError;
+      }
+
       setTransactions(
-        transactions.map((t) => (t.id === id ? { ...transaction, id } : t))
+        transactions.map((t) =>
+          t.id === id
+            ? {
+                // Installment links and other columns the edit doesn't touch are kept
+                ...t,
+                ...transaction,
+                id,
+                categoryId,
+                splits,
+                tags: tagNames,
+              }
+            : t
+        )
       );
+      await refreshAccounts();
       toast.success('Transação atualizada com sucesso!');
     } catch (error) {
       console.error('Error updating transaction:', error);
@@ -257,7 +935,9 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
 
       if (error) throw error;
 
-      setTransactions(transactions.filter((t) => t.id !== id));
+      // Deleting the first installment deletes the whole purchase
+      setTransactions(transactions.filter((t) => t.id !== id && t.parentTransactionId !== id));
+      await refreshAccounts();
       toast.success('Transação excluída com sucesso!');
     } catch (error) {
       console.error('Error deleting transaction:', error);
@@ -270,10 +950,12 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       const { data, error } = await supabase
         .from('categories')
         .insert({
+          workspace_id: workspaceId,
           name: category.name,
           type: category.type,
           icon: category.icon,
           color: category.color,
+          parent_id: category.parentId ?? null,
         })
         .select()
         .single();
@@ -283,9 +965,10 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       const newCategory = {
         id: data.id,
         name: data.name,
-        type: data.type as TransactionType,
+        type: data.type as CategoryType,
         icon: data.icon,
         color: data.color,
+        parentId: data.parent_id,
       };
 
       setCategories([...categories, newCategory]);
@@ -297,6 +980,13 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const editCategory = async (id: string, category: Omit<Category, 'id'>) => {
+    const previous = categories.find((c) => c.id === id);
+    // Subcategories share the parent's type, so it can't change under them
+    if (previous && previous.type !== category.type && hasSubcategories(categories, id)) {
+      toast.error('Não é possível mudar o tipo de uma categoria com subcategorias');
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('categories')
@@ -305,6 +995,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
           type: category.type,
           icon: category.icon,
           color: category.color,
+          parent_id: category.parentId ?? null,
         })
         .eq('id', id);
 
@@ -321,11 +1012,11 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const deleteCategory = async (id: string) => {
-    // Check if any transactions use this category
-    const transactionsWithCategory = transactions.filter(t => t.categoryId === id);
+    // Check if any transactions use this category, split lines included
+    const transactionsWithCategory = transactions.filter(t => hasCategory(t, id));
     
     if (transactionsWithCategory.length > 0) {
-      toast.error('Não é possível excluir uma categoria que está sendo utilizada em transações.');
+      toast.error('Não é possível excluir uma categoria que está sendo utilizada em transações. Mescle-a em outra categoria.');
       return;
     }
     
@@ -337,7 +1028,16 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
 
       if (error) throw error;
 
-      setCategories(categories.filter((c) => c.id !== id));
+      // Its subcategories become top-level categories
+      setCategories(
+        categories
+          .filter((c) => c.id !== id)
+          .map((c) => (c.parentId === id ? { ...c, parentId: null } : c))
+      );
+      // Rules pointing at the category are removed with it
+      setCategorizationRules(categorizationRules.filter((r) => r.categoryId !== id));
+      setBudgets(budgets.filter((b) => b.categoryId !== id));
+      setScheduledTransactions(scheduledTransactions.filter((s) => s.categoryId !== id));
       toast.success('Categoria excluída com sucesso!');
     } catch (error) {
       console.error('Error deleting category:', error);
@@ -345,14 +1045,68 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const addAccount = async (account: Omit<Account, 'id'>) => {
+  const mergeCategory = async (sourceId: string, targetId: string) => {
+    const target = categories.find((c) => c.id === targetId);
+
+    try {
+      const { error } = await supabase.rpc('merge_categories', {
+        p_source_id: sourceId,
+        p_target_id: targetId,
+      });
+
+      if (error) throw error;
+
+      // Budgets of the same month were added together on the server
+      const [{ data: billsData, error: billsError }, { data: budgetsData, error: budgetsError }] = await Promise.all([
+        supabase.from('bills').select('*').eq('workspace_id', workspaceId),
+        supabase.from('budgets').select('*').eq('workspace_id', workspaceId),
+      ]);
+
+      if (billsError) throw billsError;
+      if (budgetsError) throw budgetsError;
+
+      const moveCategory = (categoryId: string) => (categoryId === sourceId ? targetId : categoryId);
+      const childrenParentId = target?.parentId ?? targetId;
+
+      setTransactions(
+        transactions.map((t) => ({
+          ...t,
+          categoryId: t.categoryId && moveCategory(t.categoryId),
+          splits: t.splits?.map((split) => ({ ...split, categoryId: moveCategory(split.categoryId) })),
+        }))
+      );
+      setCategories(
+        categories
+          .filter((c) => c.id !== sourceId)
+          .map((c) => (c.parentId === sourceId ? { ...c, parentId: childrenParentId } : c))
+      );
+      setCategorizationRules(categorizationRules.map((r) => ({ ...r, categoryId: moveCategory(r.categoryId) })));
+      setScheduledTransactions(
+        scheduledTransactions.map((s) => ({ ...s, categoryId: s.categoryId && moveCategory(s.categoryId) }))
+      );
+      setBills(billsData.map(formatBill));
+      setBudgets(budgetsData.map(formatBudget));
+      toast.success(`Categoria mesclada em ${target?.name ?? 'outra categoria'} com sucesso!`);
+    } catch (error) {
+      console.error('Error merging categories:', error);
+      toast.error('Erro ao mesclar categorias');
+    }
+  };
+
+  const addAccount = async (account: AccountInput) => {
     try {
       const { data, error } = await supabase
         .from('accounts')
         .insert({
+          workspace_id: workspaceId,
           name: account.name,
-          balance: account.balance,
+          opening_balance: account.openingBalance,
+          balance: account.openingBalance,
           type: account.type,
+          currency: account.currency,
+          closing_day: account.closingDay,
+          due_day: account.dueDay,
+          credit_limit: account.creditLimit,
         })
         .select()
         .single();
@@ -362,8 +1116,14 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       const newAccount = {
         id: data.id,
         name: data.name,
-        balance: Number(data.balance),
-        type: data.type as 'bank' | 'cash' | 'credit' | 'investment',
+        balance: Number(data.opening_balance),
+        openingBalance: Number(data.opening_balance),
+        storedBalance: Number(data.balance),
+        type: data.type as Account['type'],
+        currency: data.currency,
+        closingDay: data.closing_day,
+        dueDay: data.due_day,
+        creditLimit: data.credit_limit === null ? null : Number(data.credit_limit),
       };
 
       setAccounts([...accounts, newAccount]);
@@ -374,22 +1134,34 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const editAccount = async (id: string, account: Omit<Account, 'id'>) => {
+  const editAccount = async (id: string, account: AccountInput) => {
+    const previous = accounts.find((a) => a.id === id);
+
+    if (!previous) {
+      toast.error('Conta não encontrada');
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('accounts')
         .update({
           name: account.name,
-          balance: account.balance,
+          opening_balance: account.openingBalance,
+          // The stored balance moves with the opening balance, so editing it
+          // doesn't show up as a discrepancy when reconciling
+          balance: previous.storedBalance + account.openingBalance - previous.openingBalance,
           type: account.type,
+          currency: account.currency,
+          closing_day: account.closingDay,
+          due_day: account.dueDay,
+          credit_limit: account.creditLimit,
         })
         .eq('id', id);
 
       if (error) throw error;
 
-      setAccounts(
-        accounts.map((a) => (a.id === id ? { ...account, id } : a))
-      );
+      await refreshAccounts();
       toast.success('Conta atualizada com sucesso!');
     } catch (error) {
       console.error('Error updating account:', error);
@@ -399,10 +1171,12 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
 
   const deleteAccount = async (id: string) => {
     // Check if any transactions use this account
-    const transactionsWithAccount = transactions.filter(t => t.accountId === id);
+    const transactionsWithAccount = transactions.filter(
+      t => t.accountId === id || t.destinationAccountId === id
+    );
     
     if (transactionsWithAccount.length > 0) {
-      toast.error('Não é possível excluir uma conta que está sendo utilizada em transações.');
+      toast.error('Não é possível excluir uma conta que está sendo utilizada em transações. Mescle-a em outra conta.');
       return;
     }
     
@@ -415,6 +1189,12 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
       if (error) throw error;
 
       setAccounts(accounts.filter((a) => a.id !== id));
+      // Rules restricted to the account are removed with it
+      setCategorizationRules(categorizationRules.filter((r) => r.accountId !== id));
+      setScheduledTransactions(
+        scheduledTransactions.filter((s) => s.accountId !== id && s.destinationAccountId !== id)
+      );
+      setGoals(goals.map((g) => (g.accountId === id ? { ...g, accountId: null } : g)));
       toast.success('Conta excluída com sucesso!');
     } catch (error) {
       console.error('Error deleting account:', error);
@@ -422,6 +1202,486 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const mergeAccount = async (sourceId: string, targetId: string) => {
+    const target = accounts.find((a) => a.id === targetId);
+
+    try {
+      const { error } = await supabase.rpc('merge_accounts', {
+        p_source_id: sourceId,
+        p_target_id: targetId,
+      });
+
+      if (error) throw error;
+
+      // Transfers between the two accounts were removed and card invoices of
+      // the same month combined, so those are reloaded
+      const [transactionsResult, schedulesResult, billsResult, paymentsResult] = await Promise.all([
+        supabase.from('transactions').select(TRANSACTION_COLUMNS).eq('workspace_id', workspaceId),
+        supabase.from('scheduled_transactions').select('*').eq('workspace_id', workspaceId),
+        supabase.from('bills').select('*').eq('workspace_id', workspaceId),
+        supabase.from('bill_payments').select('*').eq('workspace_id', workspaceId),
+      ]);
+
+      if (transactionsResult.error) throw transactionsResult.error;
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (billsResult.error) throw billsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      setTransactions(transactionsResult.data.map(formatTransaction));
+      setScheduledTransactions(schedulesResult.data.map(formatScheduledTransaction));
+      setBills(billsResult.data.map(formatBill));
+      setBillPayments(paymentsResult.data.map(formatBillPayment));
+      setCategorizationRules(
+        categorizationRules.map((r) => (r.accountId === sourceId ? { ...r, accountId: targetId } : r))
+      );
+      setGoals(goals.map((g) => (g.accountId === sourceId ? { ...g, accountId: targetId } : g)));
+      await refreshAccounts();
+      toast.success(`Conta mesclada em ${target?.name ?? 'outra conta'} com sucesso!`);
+    } catch (error) {
+      console.error('Error merging accounts:', error);
+      toast.error('Erro ao mesclar contas');
+    }
+  };
+
+  const reconcileAccount = async (id: string, strategy: ReconcileStrategy) => {
+    const account = accounts.find((a) => a.id === id);
+
+    if (!account) {
+      toast.error('Conta não encontrada');
+      return;
+    }
+
+    try {
+      const discrepancy = account.storedBalance - account.balance;
+      const { error } = await supabase
+        .from('accounts')
+        .update(
+          strategy === 'opening'
+            ? { opening_balance: account.openingBalance + discrepancy }
+            : { balance: account.balance }
+        )
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await refreshAccounts();
+      toast.success('Conta conciliada com sucesso!');
+    } catch (error) {
+      console.error('Error reconciling account:', error);
+      toast.error('Erro ao conciliar conta');
+    }
+  };
+
+  const addCategorizationRule = async (rule: Omit<CategorizationRule, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .insert({
+          workspace_id: workspaceId,
+          name: rule.name,
+          category_id: rule.categoryId,
+          match_type: rule.matchType,
+          pattern: rule.pattern,
+          min_amount: rule.minAmount,
+          max_amount: rule.maxAmount,
+          account_id: rule.accountId,
+          priority: rule.priority,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setCategorizationRules([...categorizationRules, formatCategorizationRule(data)]);
+      toast.success('Regra adicionada com sucesso!');
+    } catch (error) {
+      console.error('Error adding categorization rule:', error);
+      toast.error('Erro ao adicionar regra');
+    }
+  };
+
+  const editCategorizationRule = async (id: string, rule: Omit<CategorizationRule, 'id'>) => {
+    try {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .update({
+          name: rule.name,
+          category_id: rule.categoryId,
+          match_type: rule.matchType,
+          pattern: rule.pattern,
+          min_amount: rule.minAmount,
+          max_amount: rule.maxAmount,
+          account_id: rule.accountId,
+          priority: rule.priority,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setCategorizationRules(
+        categorizationRules.map((r) => (r.id === id ? { ...rule, id } : r))
+      );
+      toast.success('Regra atualizada com sucesso!');
+    } catch (error) {
+      console.error('Error updating categorization rule:', error);
+      toast.error('Erro ao atualizar regra');
+    }
+  };
+
+  const deleteCategorizationRule = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setCategorizationRules(categorizationRules.filter((r) => r.id !== id));
+      toast.success('Regra excluída com sucesso!');
+    } catch (error) {
+      console.error('Error deleting categorization rule:', error);
+      toast.error('Erro ao excluir regra');
+    }
+  };
+
+  const recategorizeTransactions = async (changes: CategoryChange[]) => {
+    if (changes.length === 0) return;
+
+    // One update per target category instead of one per transaction
+    const idsByCategory = new Map<string, string[]>();
+    changes.forEach(({ transactionId, categoryId }) => {
+      idsByCategory.set(categoryId, [...(idsByCategory.get(categoryId) || []), transactionId]);
+    });
+
+    try {
+      const results = await Promise.all(
+        [...idsByCategory].map(([categoryId, ids]) =>
+          supabase
+            .from('transactions')
+            .update({ category_id: categoryId })
+            .in('id', ids)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      const categoryByTransaction = new Map(changes.map((c) => [c.transactionId, c.categoryId]));
+      setTransactions(
+        transactions.map((t) =>
+          categoryByTransaction.has(t.id) ? { ...t, categoryId: categoryByTransaction.get(t.id) } : t
+        )
+      );
+      toast.success(`${changes.length} transações recategorizadas com sucesso!`);
+    } catch (error) {
+      console.error('Error recategorizing transactions:', error);
+      toast.error('Erro ao reaplicar regras');
+    }
+  };
+
+  const addBudget = async (budget: Omit<Budget, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('budgets')
+        .insert({
+          workspace_id: workspaceId,
+          category_id: budget.categoryId,
+          month: `${budget.month}-01`,
+          amount: budget.amount,
+          rollover: budget.rollover,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setBudgets([...budgets, formatBudget(data)]);
+      toast.success('Orçamento adicionado com sucesso!');
+    } catch (error) {
+      console.error('Error adding budget:', error);
+      toast.error('Erro ao adicionar orçamento. Verifique se a categoria já possui orçamento neste mês.');
+    }
+  };
+
+  const editBudget = async (id: string, budget: Omit<Budget, 'id'>) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .update({
+          category_id: budget.categoryId,
+          month: `${budget.month}-01`,
+          amount: budget.amount,
+          rollover: budget.rollover,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setBudgets(budgets.map((b) => (b.id === id ? { ...budget, id } : b)));
+      toast.success('Orçamento atualizado com sucesso!');
+    } catch (error) {
+      console.error('Error updating budget:', error);
+      toast.error('Erro ao atualizar orçamento');
+    }
+  };
+
+  const deleteBudget = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setBudgets(budgets.filter((b) => b.id !== id));
+      toast.success('Orçamento excluído com sucesso!');
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      toast.error('Erro ao excluir orçamento');
+    }
+  };
+
+  const addGoal = async (goal: Omit<Goal, 'id'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('goals')
+        .insert({
+          workspace_id: workspaceId,
+          name: goal.name,
+          target_amount: goal.targetAmount,
+          deadline: goal.deadline ? format(goal.deadline, 'yyyy-MM-dd') : null,
+          account_id: goal.accountId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setGoals([...goals, formatGoal(data)]);
+      toast.success('Meta adicionada com sucesso!');
+    } catch (error) {
+      console.error('Error adding goal:', error);
+      toast.error('Erro ao adicionar meta');
+    }
+  };
+
+  const editGoal = async (id: string, goal: Omit<Goal, 'id'>) => {
+    try {
+      const { error } = await supabase
+        .from('goals')
+        .update({
+          name: goal.name,
+          target_amount: goal.targetAmount,
+          deadline: goal.deadline ? format(goal.deadline, 'yyyy-MM-dd') : null,
+          account_id: goal.accountId,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setGoals(goals.map((g) => (g.id === id ? { ...goal, id } : g)));
+      toast.success('Meta atualizada com sucesso!');
+    } catch (error) {
+      console.error('Error updating goal:', error);
+      toast.error('Erro ao atualizar meta');
+    }
+  };
+
+  // Tagged transactions stay in the ledger and lose the tag
+  const deleteGoal = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('goals')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setGoals(goals.filter((g) => g.id !== id));
+      setTransactions(transactions.map((t) => (t.goalId === id ? { ...t, goalId: null } : t)));
+      toast.success('Meta excluída com sucesso!');
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+      toast.error('Erro ao excluir meta');
+    }
+  };
+
+  const setBaseCurrency = (currency: string) => {
+    localStorage.setItem(BASE_CURRENCY_KEY, currency);
+    setStoredBaseCurrency(currency);
+  };
+
+  // A rate for the same pair and day replaces the one already entered
+  const saveExchangeRates = async (rates: ExchangeRateInput[]) => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        rates.map((rate) => ({
+          workspace_id: workspaceId,
+          base_currency: rate.baseCurrency,
+          quote_currency: rate.quoteCurrency,
+          rate: rate.rate,
+          date: rate.date.toISOString().split('T')[0],
+        })),
+        { onConflict: 'workspace_id,base_currency,quote_currency,date' }
+      )
+      .select();
+
+    if (error) throw error;
+
+    const saved = data.map(formatExchangeRate);
+    setExchangeRates([
+      ...exchangeRates.filter((r) => !saved.some((s) => s.id === r.id)),
+      ...saved,
+    ]);
+    return saved.length;
+  };
+
+  const addExchangeRate = async (rate: ExchangeRateInput) => {
+    try {
+      await saveExchangeRates([rate]);
+      toast.success('Cotação salva com sucesso!');
+    } catch (error) {
+      console.error('Error adding exchange rate:', error);
+      toast.error('Erro ao salvar cotação');
+    }
+  };
+
+  const importExchangeRates = async (rates: ExchangeRateInput[]) => {
+    if (rates.length === 0) return 0;
+
+    try {
+      const count = await saveExchangeRates(rates);
+      toast.success(`${count} cotações importadas com sucesso!`);
+      return count;
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      toast.error('Erro ao importar cotações');
+      return 0;
+    }
+  };
+
+  const deleteExchangeRate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setExchangeRates(exchangeRates.filter((r) => r.id !== id));
+      toast.success('Cotação excluída com sucesso!');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Erro ao excluir cotação');
+    }
+  };
+
+  const addScheduledTransaction = async (schedule: Omit<ScheduledTransaction, 'id' | 'lastPostedDate'>) => {
+    try {
+      const { error } = await supabase.from('scheduled_transactions').insert({
+        workspace_id: workspaceId,
+        type: schedule.type,
+        amount: schedule.amount,
+        description: schedule.description,
+        category_id: schedule.categoryId,
+        account_id: schedule.accountId,
+        destination_account_id: schedule.destinationAccountId,
+        start_date: format(schedule.startDate, 'yyyy-MM-dd'),
+        recurrence_end_date: schedule.endDate ? format(schedule.endDate, 'yyyy-MM-dd') : null,
+        requires_confirmation: schedule.requiresConfirmation,
+        ...toRecurrenceColumns(schedule.rule),
+      });
+
+      if (error) throw error;
+
+      // Occurrences already due are posted right away
+      const { error: postError } = await supabase.rpc('post_scheduled_transactions', {
+        p_workspace_id: workspaceId,
+      });
+
+      if (postError) throw postError;
+
+      const [schedulesResult, pendingResult, transactionsResult] = await Promise.all([
+        supabase.from('scheduled_transactions').select('*').eq('workspace_id', workspaceId),
+        supabase.from('pending_transactions').select('*').eq('workspace_id', workspaceId),
+        supabase.from('transactions').select(TRANSACTION_COLUMNS).eq('workspace_id', workspaceId),
+      ]);
+
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (pendingResult.error) throw pendingResult.error;
+      if (transactionsResult.error) throw transactionsResult.error;
+
+      setScheduledTransactions(schedulesResult.data.map(formatScheduledTransaction));
+      setPendingTransactions(pendingResult.data.map(formatPendingTransaction));
+      setTransactions(transactionsResult.data.map(formatTransaction));
+      await refreshAccounts();
+      toast.success('Agendamento adicionado com sucesso!');
+    } catch (error) {
+      console.error('Error adding scheduled transaction:', error);
+      toast.error('Erro ao adicionar agendamento');
+    }
+  };
+
+  // Transactions already posted stay in the ledger
+  const deleteScheduledTransaction = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('scheduled_transactions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setScheduledTransactions(scheduledTransactions.filter((s) => s.id !== id));
+      setPendingTransactions(pendingTransactions.filter((p) => p.scheduledTransactionId !== id));
+      toast.success('Agendamento excluído com sucesso!');
+    } catch (error) {
+      console.error('Error deleting scheduled transaction:', error);
+      toast.error('Erro ao excluir agendamento');
+    }
+  };
+
+  const confirmPendingTransaction = async (id: string, amount?: number) => {
+    try {
+      const { data, error } = await supabase.rpc('confirm_pending_transaction', {
+        p_pending_id: id,
+        p_amount: amount,
+      });
+
+      if (error) throw error;
+
+      setPendingTransactions(pendingTransactions.filter((p) => p.id !== id));
+      setTransactions([...transactions, formatTransaction(data)]);
+      await refreshAccounts();
+      toast.success('Lançamento confirmado com sucesso!');
+    } catch (error) {
+      console.error('Error confirming pending transaction:', error);
+      toast.error('Erro ao confirmar lançamento');
+    }
+  };
+
+  // Skips the occurrence; it is not created again
+  const dismissPendingTransaction = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('pending_transactions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setPendingTransactions(pendingTransactions.filter((p) => p.id !== id));
+      toast.success('Lançamento ignorado');
+    } catch (error) {
+      console.error('Error dismissing pending transaction:', error);
+      toast.error('Erro ao ignorar lançamento');
+    }
+  };
+
   const getCategoryById = (id: string) => {
     return categories.find((c) => c.id === id);
   };
@@ -431,10 +1691,16 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const addBill = async (bill: Omit<Bill, 'id'>) => {
+    if (bill.isRecurring && bill.recurrenceType) {
+      await addRecurringBill(bill);
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('bills')
         .insert({
+          workspace_id: workspaceId,
           description: bill.description,
           amount: bill.amount,
           due_date: bill.dueDate.toISOString(),
@@ -447,6 +1713,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
           total_installments: bill.totalInstallments,
           current_installment: bill.currentInstallment,
           parent_bill_id: bill.parentBillId,
+          reminder_days: bill.reminderDays,
         })
         .select()
         .single();
@@ -465,6 +1732,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
           
           installmentPromises.push(
             supabase.from('bills').insert({
+              workspace_id: workspaceId,
               description: bill.description,
               amount: bill.amount,
               due_date: installmentDueDate.toISOString(),
@@ -474,6 +1742,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
               total_installments: bill.totalInstallments,
               current_installment: i,
               parent_bill_id: data.id,
+              reminder_days: bill.reminderDays,
             })
           );
         }
@@ -482,77 +1751,17 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
         await Promise.all(installmentPromises);
       }
 
-      // If it's a recurring bill, create first recurrence
-      if (bill.isRecurring && bill.recurrenceType) {
-        // We'll create the first recurrence right away
-        const nextDueDate = new Date(bill.dueDate);
-        
-        // Calculate next due date based on recurrence type
-        if (bill.recurrenceType === 'monthly') {
-          nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-        } else if (bill.recurrenceType === 'weekly') {
-          nextDueDate.setDate(nextDueDate.getDate() + 7);
-        } else if (bill.recurrenceType === 'yearly') {
-          nextDueDate.setFullYear(nextDueDate.getFullYear() + 1);
-        }
-        
-        // Only create new recurrence if it's before the end date
-        if (!bill.recurrenceEndDate || nextDueDate <= bill.recurrenceEndDate) {
-          await supabase.from('bills').insert({
-            description: bill.description,
-            amount: bill.amount,
-            due_date: nextDueDate.toISOString(),
-            category_id: bill.categoryId,
-            status: 'pending',
-            is_recurring: bill.isRecurring,
-            recurrence_type: bill.recurrenceType,
-            recurrence_end_date: bill.recurrenceEndDate ? bill.recurrenceEndDate.toISOString() : null
-          });
-        }
-      }
-
-      const newBill = {
-        id: data.id,
-        description: data.description,
-        amount: Number(data.amount),
-        dueDate: new Date(data.due_date),
-        categoryId: data.category_id,
-        status: data.status as BillStatus,
-        isRecurring: data.is_recurring,
-        recurrenceType: data.recurrence_type as RecurrenceType,
-        recurrenceEndDate: data.recurrence_end_date ? new Date(data.recurrence_end_date) : null,
-        isInstallment: data.is_installment,
-        totalInstallments: data.total_installments,
-        currentInstallment: data.current_installment,
-        parentBillId: data.parent_bill_id,
-      };
-
-      setBills([...bills, newBill]);
+      setBills([...bills, formatBill(data)]);
       
       // Refetch all bills to get installments
       const { data: billsData, error: billsError } = await supabase
         .from('bills')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', workspaceId);
       
       if (billsError) throw billsError;
       
-      const formattedBills = billsData.map((bill) => ({
-        id: bill.id,
-        description: bill.description,
-        amount: Number(bill.amount),
-        dueDate: new Date(bill.due_date),
-        categoryId: bill.category_id,
-        status: bill.status as BillStatus,
-        isRecurring: bill.is_recurring,
-        recurrenceType: bill.recurrence_type as RecurrenceType,
-        recurrenceEndDate: bill.recurrence_end_date ? new Date(bill.recurrence_end_date) : null,
-        isInstallment: bill.is_installment,
-        totalInstallments: bill.total_installments,
-        currentInstallment: bill.current_installment,
-        parentBillId: bill.parent_bill_id,
-      }));
-
-      setBills(formattedBills);
+      setBills(billsData.map(formatBill));
       toast.success('Conta a pagar adicionada com sucesso!');
     } catch (error) {
       console.error('Error adding bill:', error);
@@ -560,6 +1769,81 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Stores the template and lets the server create its occurrences
+  const addRecurringBill = async (bill: Omit<Bill, 'id'>) => {
+    if (!bill.categoryId) {
+      toast.error('Selecione uma categoria para a conta recorrente');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('bill_templates').insert({
+        workspace_id: workspaceId,
+        description: bill.description,
+        amount: bill.amount,
+        category_id: bill.categoryId,
+        recurrence_type: bill.recurrenceType ?? 'monthly',
+        start_date: bill.dueDate.toISOString().split('T')[0],
+        recurrence_end_date: bill.recurrenceEndDate ? bill.recurrenceEndDate.toISOString().split('T')[0] : null,
+        reminder_days: bill.reminderDays,
+      });
+
+      if (error) throw error;
+
+      const { error: generateError } = await supabase.rpc('generate_recurring_bills', {
+        p_workspace_id: workspaceId,
+      });
+
+      if (generateError) throw generateError;
+
+      const { data: billsData, error: billsError } = await supabase
+        .from('bills')
+        .select('*')
+        .eq('workspace_id', workspaceId);
+
+      if (billsError) throw billsError;
+
+      setBills(billsData.map(formatBill));
+      toast.success('Conta recorrente adicionada com sucesso!');
+    } catch (error) {
+      console.error('Error adding recurring bill:', error);
+      toast.error('Erro ao adicionar conta recorrente');
+    }
+  };
+
+  // Deleting the template keeps paid occurrences and removes the open ones
+  // that were generated ahead
+  const stopBillRecurrence = async (templateId: string) => {
+    try {
+      const { error: billsError } = await supabase
+        .from('bills')
+        .delete()
+        .eq('template_id', templateId)
+        .eq('status', 'pending')
+        .gte('due_date', new Date().toISOString().split('T')[0]);
+
+      if (billsError) throw billsError;
+
+      const { error } = await supabase
+        .from('bill_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      const today = new Date(new Date().toISOString().split('T')[0]);
+      setBills(
+        bills
+          .filter((b) => b.templateId !== templateId || b.status !== 'pending' || b.dueDate < today)
+          .map((b) => (b.templateId === templateId ? { ...b, templateId: null } : b))
+      );
+      toast.success('Recorrência encerrada com sucesso!');
+    } catch (error) {
+      console.error('Error stopping bill recurrence:', error);
+      toast.error('Erro ao encerrar recorrência');
+    }
+  };
+
   const editBill = async (id: string, bill: Omit<Bill, 'id'>) => {
     try {
       const { error } = await supabase
@@ -577,6 +1861,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
           total_installments: bill.totalInstallments,
           current_installment: bill.currentInstallment,
           parent_bill_id: bill.parentBillId,
+          reminder_days: bill.reminderDays,
         })
         .eq('id', id);
 
@@ -590,6 +1875,22 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Moves a single bill to another due date; `dueDate` is a local calendar day
+  const rescheduleBill = async (id: string, dueDate: Date) => {
+    try {
+      const dueDateKey = format(dueDate, 'yyyy-MM-dd');
+      const { error } = await supabase.from('bills').update({ due_date: dueDateKey }).eq('id', id);
+
+      if (error) throw error;
+
+      setBills(bills.map((b) => (b.id === id ? { ...b, dueDate: new Date(dueDateKey) } : b)));
+      toast.success(`Vencimento alterado para ${format(dueDate, 'dd/MM/yyyy')}`);
+    } catch (error) {
+      console.error('Error rescheduling bill:', error);
+      toast.error('Erro ao alterar vencimento');
+    }
+  };
+
   const deleteBill = async (id: string) => {
     try {
       // Get the bill to check if it's part of an installment series
@@ -637,7 +1938,7 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const payBill = async (billId: string, accountId: string) => {
+  const payBill = async (billId: string, accountId: string, amount?: number) => {
     try {
       // Find the bill and account
       const bill = bills.find(b => b.id === billId);
@@ -648,114 +1949,45 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
-      // Update bill status to paid
-      const { error: billError } = await supabase
-        .from('bills')
-        .update({ status: 'paid' })
-        .eq('id', billId);
+      // Records the payment and its expense and updates the bill status in a
+      // single database transaction
+      const { data, error } = await supabase.rpc('pay_bill', {
+        p_bill_id: billId,
+        p_account_id: accountId,
+        p_amount: amount,
+      });
 
-      if (billError) throw billError;
+      if (error) throw error;
 
-      // Create a transaction for this payment
-      const { error: transactionError } = await supabase
+      // Reload the expense with the tags it got from the bill
+      const { data: paymentTransaction, error: transactionError } = await supabase
         .from('transactions')
-        .insert({
-          type: 'expense',
-          amount: bill.amount,
-          date: new Date().toISOString(),
-          category_id: bill.categoryId,
-          account_id: accountId,
-          description: `Pagamento: ${bill.description}`,
-        });
+        .select(TRANSACTION_COLUMNS)
+        .eq('id', data.id)
+        .single();
 
       if (transactionError) throw transactionError;
 
-      // Update account balance
-      const newBalance = account.balance - bill.amount;
-      const { error: accountError } = await supabase
-        .from('accounts')
-        .update({ balance: newBalance })
-        .eq('id', accountId);
-
-      if (accountError) throw accountError;
-
-      // If it's a recurring bill, create the next occurrence
-      if (bill.isRecurring && bill.recurrenceType) {
-        const nextDueDate = new Date(bill.dueDate);
-        
-        // Calculate next due date based on recurrence type
-        if (bill.recurrenceType === 'monthly') {
-          nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-        } else if (bill.recurrenceType === 'weekly') {
-          nextDueDate.setDate(nextDueDate.getDate() + 7);
-        } else if (bill.recurrenceType === 'yearly') {
-          nextDueDate.setFullYear(nextDueDate.getFullYear() + 1);
-        }
-        
-        // Only create new recurrence if it's before the end date
-        if (!bill.recurrenceEndDate || nextDueDate <= bill.recurrenceEndDate) {
-          await supabase.from('bills').insert({
-            description: bill.description,
-            amount: bill.amount,
-            due_date: nextDueDate.toISOString(),
-            category_id: bill.categoryId,
-            status: 'pending',
-            is_recurring: bill.isRecurring,
-            recurrence_type: bill.recurrenceType,
-            recurrence_end_date: bill.recurrenceEndDate ? bill.recurrenceEndDate.toISOString() : null
-          });
-        }
-      }
-
-      // Refresh data
-      // Update bills list
-      setBills(bills.map(b => b.id === billId ? { ...b, status: 'paid' } : b));
-      
-      // Update accounts list
-      setAccounts(accounts.map(a => a.id === accountId ? { ...a, balance: newBalance } : a));
-      
-      // Fetch latest transactions
-      const { data: transactionsData } = await supabase
-        .from('transactions')
-        .select('*');
-        
-      if (transactionsData) {
-        const formattedTransactions = transactionsData.map((trans) => ({
-          id: trans.id,
-          type: trans.type as TransactionType,
-          amount: Number(trans.amount),
-          date: new Date(trans.date),
-          categoryId: trans.category_id,
-          accountId: trans.account_id,
-          description: trans.description,
-        }));
+      setTransactions([...transactions, formatTransaction(paymentTransaction)]);
+      await refreshAccounts();
 
-        setTransactions(formattedTransactions);
-      }
-      
-      // Refetch bills to get the updated list including new recurrence
+      // Refetch bills to get the updated status
       const { data: billsData } = await supabase
         .from('bills')
-        .select('*');
+        .select('*')
+        .eq('workspace_id', workspaceId);
         
       if (billsData) {
-        const formattedBills = billsData.map((bill) => ({
-          id: bill.id,
-          description: bill.description,
-          amount: Number(bill.amount),
-          dueDate: new Date(bill.due_date),
-          categoryId: bill.category_id,
-          status: bill.status as BillStatus,
-          isRecurring: bill.is_recurring,
-          recurrenceType: bill.recurrence_type as RecurrenceType,
-          recurrenceEndDate: bill.recurrence_end_date ? new Date(bill.recurrence_end_date) : null,
-          isInstallment: bill.is_installment,
-          totalInstallments: bill.total_installments,
-          currentInstallment: bill.current_installment,
-          parentBillId: bill.parent_bill_id,
-        }));
+        setBills(billsData.map(formatBill));
+      }
+
+      const { data: paymentsData } = await supabase
+        .from('bill_payments')
+        .select('*')
+        .eq('workspace_id', workspaceId);
 
-        setBills(formattedBills);
+      if (paymentsData) {
+        setBillPayments(paymentsData.map(formatBillPayment));
       }
 
       toast.success('Pagamento registrado com sucesso!');
@@ -772,22 +2004,59 @@ export const FinanceProvider = ({ children }: { children: ReactNode }) => {
         categories,
         accounts,
         bills,
+        billPayments,
+        categorizationRules,
+        budgets,
+        goals,
+        exchangeRates,
+        tags,
+        baseCurrency,
+        setBaseCurrency,
+        scheduledTransactions,
+        pendingTransactions,
         loading,
         billsLoading,
         addTransaction,
+        importTransactions,
+        addInstallmentPurchase,
+        cancelRemainingInstallments,
+        settleRemainingInstallments,
         editTransaction,
         deleteTransaction,
         addCategory,
         editCategory,
         deleteCategory,
+        mergeCategory,
         addAccount,
         editAccount,
         deleteAccount,
+        mergeAccount,
+        reconcileAccount,
+        addCategorizationRule,
+        editCategorizationRule,
+        deleteCategorizationRule,
+        getRuleCategoryId,
+        recategorizeTransactions,
+        addBudget,
+        editBudget,
+        deleteBudget,
+        addGoal,
+        editGoal,
+        deleteGoal,
+        addExchangeRate,
+        importExchangeRates,
+        deleteExchangeRate,
+        addScheduledTransaction,
+        deleteScheduledTransaction,
+        confirmPendingTransaction,
+        dismissPendingTransaction,
         getCategoryById,
         getAccountById,
         addBill,
         editBill,
+        rescheduleBill,
         deleteBill,
+        stopBillRecurrence,
         payBill,
       }}
     >
@@ -0,0 +1,225 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // Role of the signed-in user in this workspace
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  loading: boolean;
+  canEdit: boolean;
+  selectWorkspace: (id: string) => void;
+  createWorkspace: (name: string) => Promise<void>;
+  getMembers: () => Promise<WorkspaceMember[]>;
+  addMember: (email: string, role: WorkspaceRole) => Promise<boolean>;
+  updateMemberRole: (userId: string, role: WorkspaceRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+}
+
+const SELECTED_WORKSPACE_KEY = 'selectedWorkspaceId';
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+const fetchWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return data
+    .filter((membership) => membership.workspaces)
+    .map((membership) => ({
+      id: membership.workspaces.id,
+      name: membership.workspaces.name,
+      role: membership.role as WorkspaceRole,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [storedWorkspaceId, setStoredWorkspaceId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_WORKSPACE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces([]);
+      setLoading(false);
+      return;
+    }
+
+    const loadWorkspaces = async () => {
+      setLoading(true);
+      try {
+        setWorkspaces(await fetchWorkspaces(userId));
+      } catch (error) {
+        console.error('Error fetching workspaces:', error);
+        toast.error('Erro ao carregar espaços de trabalho');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadWorkspaces();
+  }, [userId]);
+
+  // Fall back to the first workspace when the stored one is no longer available
+  const currentWorkspace =
+    workspaces.find((w) => w.id === storedWorkspaceId) ?? workspaces[0] ?? null;
+
+  const selectWorkspace = (id: string) => {
+    localStorage.setItem(SELECTED_WORKSPACE_KEY, id);
+    setStoredWorkspaceId(id);
+  };
+
+  const createWorkspace = async (name: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ name })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setWorkspaces(await fetchWorkspaces(userId));
+      selectWorkspace(data.id);
+      toast.success('Espaço de trabalho criado com sucesso!');
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast.error('Erro ao criar espaço de trabalho');
+    }
+  };
+
+  const currentWorkspaceId = currentWorkspace?.id;
+
+  // Stable per workspace so pages can reload members when it changes
+  const getMembers = useCallback(async (): Promise<WorkspaceMember[]> => {
+    if (!currentWorkspaceId) return [];
+
+    const { data, error } = await supabase.rpc('get_workspace_members', {
+      p_workspace_id: currentWorkspaceId,
+    });
+
+    if (error) {
+      console.error('Error fetching members:', error);
+      toast.error('Erro ao carregar membros');
+      return [];
+    }
+
+    return data.map((member) => ({
+      userId: member.user_id,
+      email: member.email,
+      role: member.role as WorkspaceRole,
+    }));
+  }, [currentWorkspaceId]);
+
+  const addMember = async (email: string, role: WorkspaceRole) => {
+    if (!currentWorkspace) return false;
+
+    const { error } = await supabase.rpc('add_workspace_member', {
+      p_workspace_id: currentWorkspace.id,
+      p_email: email,
+      p_role: role,
+    });
+
+    if (error) {
+      console.error('Error adding member:', error);
+      toast.error('Erro ao adicionar membro. Verifique se o e-mail já possui cadastro.');
+      return false;
+    }
+
+    toast.success('Membro adicionado com sucesso!');
+    return true;
+  };
+
+  const updateMemberRole = async (memberId: string, role: WorkspaceRole) => {
+    if (!currentWorkspace) return;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', currentWorkspace.id)
+        .eq('user_id', memberId);
+
+      if (error) throw error;
+
+      toast.success('Papel atualizado com sucesso!');
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      toast.error('Erro ao atualizar papel');
+    }
+  };
+
+  const removeMember = async (memberId: string) => {
+    if (!currentWorkspace) return;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', currentWorkspace.id)
+        .eq('user_id', memberId);
+
+      if (error) throw error;
+
+      // Leaving a workspace removes it from the switcher
+      if (memberId === userId) {
+        setWorkspaces(await fetchWorkspaces(userId));
+      }
+      toast.success('Membro removido com sucesso!');
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast.error('Erro ao remover membro');
+    }
+  };
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        currentWorkspace,
+        loading,
+        canEdit: currentWorkspace?.role === 'owner' || currentWorkspace?.role === 'editor',
+        selectWorkspace,
+        createWorkspace,
+        getMembers,
+        addMember,
+        updateMemberRole,
+        removeMember,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
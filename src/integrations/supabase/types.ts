@@ -12,31 +12,275 @@ export type Database = {
       accounts: {
         Row: {
           balance: number
+          closing_day: number | null
           created_at: string
+          credit_limit: number | null
+          currency: string
+          due_day: number | null
           id: string
           name: string
+          opening_balance: number
           type: string
+          user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           balance?: number
+          closing_day?: number | null
           created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          due_day?: number | null
           id?: string
           name: string
+          opening_balance?: number
           type: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           balance?: number
+          closing_day?: number | null
           created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          due_day?: number | null
           id?: string
           name?: string
+          opening_balance?: number
           type?: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "accounts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      bills: {
+      bill_payments: {
+        Row: {
+          account_id: string
+          amount: number
+          bill_id: string
+          created_at: string
+          id: string
+          paid_at: string
+          transaction_id: string | null
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          bill_id: string
+          created_at?: string
+          id?: string
+          paid_at?: string
+          transaction_id?: string | null
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          bill_id?: string
+          created_at?: string
+          id?: string
+          paid_at?: string
+          transaction_id?: string | null
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_reminder_log: {
+        Row: {
+          bill_id: string
+          channel: string
+          sent_on: string
+          user_id: string
+        }
+        Insert: {
+          bill_id: string
+          channel: string
+          sent_on?: string
+          user_id: string
+        }
+        Update: {
+          bill_id?: string
+          channel?: string
+          sent_on?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_reminder_log_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_tags: {
+        Row: {
+          bill_id: string
+          tag_id: string
+          workspace_id: string
+        }
+        Insert: {
+          bill_id: string
+          tag_id: string
+          workspace_id: string
+        }
+        Update: {
+          bill_id?: string
+          tag_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_tags_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_templates: {
         Row: {
           amount: number
+          business_day_adjustment: string
+          by_business_day: number | null
+          by_month_day: number | null
+          by_months: number[] | null
+          by_set_position: number | null
+          by_weekday: number | null
+          category_id: string
+          created_at: string
+          description: string
+          generated_until: string | null
+          id: string
+          recurrence_end_date: string | null
+          recurrence_interval: number
+          recurrence_type: string
+          reminder_days: number[]
+          start_date: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          amount: number
+          business_day_adjustment?: string
+          by_business_day?: number | null
+          by_month_day?: number | null
+          by_months?: number[] | null
+          by_set_position?: number | null
+          by_weekday?: number | null
           category_id: string
+          created_at?: string
+          description: string
+          generated_until?: string | null
+          id?: string
+          recurrence_end_date?: string | null
+          recurrence_interval?: number
+          recurrence_type: string
+          reminder_days?: number[]
+          start_date: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          amount?: number
+          business_day_adjustment?: string
+          by_business_day?: number | null
+          by_month_day?: number | null
+          by_months?: number[] | null
+          by_set_position?: number | null
+          by_weekday?: number | null
+          category_id?: string
+          created_at?: string
+          description?: string
+          generated_until?: string | null
+          id?: string
+          recurrence_end_date?: string | null
+          recurrence_interval?: number
+          recurrence_type?: string
+          reminder_days?: number[]
+          start_date?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          amount: number
+          category_id: string | null
           created_at: string
           current_installment: number | null
           description: string
@@ -47,12 +291,18 @@ export type Database = {
           parent_bill_id: string | null
           recurrence_end_date: string | null
           recurrence_type: string | null
+          reminder_days: number[]
+          statement_account_id: string | null
+          statement_month: string | null
           status: string
+          template_id: string | null
           total_installments: number | null
+          user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           amount: number
-          category_id: string
+          category_id?: string | null
           created_at?: string
           current_installment?: number | null
           description: string
@@ -63,12 +313,18 @@ export type Database = {
           parent_bill_id?: string | null
           recurrence_end_date?: string | null
           recurrence_type?: string | null
+          reminder_days?: number[]
+          statement_account_id?: string | null
+          statement_month?: string | null
           status?: string
+          template_id?: string | null
           total_installments?: number | null
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           amount?: number
-          category_id?: string
+          category_id?: string | null
           created_at?: string
           current_installment?: number | null
           description?: string
@@ -79,8 +335,14 @@ export type Database = {
           parent_bill_id?: string | null
           recurrence_end_date?: string | null
           recurrence_type?: string | null
+          reminder_days?: number[]
+          statement_account_id?: string | null
+          statement_month?: string | null
           status?: string
+          template_id?: string | null
           total_installments?: number | null
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Relationships: [
           {
@@ -97,6 +359,75 @@ export type Database = {
             referencedRelation: "bills"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bills_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_statement_account_id_fkey"
+            columns: ["statement_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "bill_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          month: string
+          rollover: boolean
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          month: string
+          rollover?: boolean
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          rollover?: boolean
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       categories: {
@@ -106,7 +437,10 @@ export type Database = {
           icon: string
           id: string
           name: string
+          parent_id: string | null
           type: string
+          user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           color?: string | null
@@ -114,7 +448,10 @@ export type Database = {
           icon: string
           id?: string
           name: string
+          parent_id?: string | null
           type: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           color?: string | null
@@ -122,64 +459,957 @@ export type Database = {
           icon?: string
           id?: string
           name?: string
+          parent_id?: string | null
           type?: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      transactions: {
+      categorization_rules: {
         Row: {
-          account_id: string
-          amount: number
+          account_id: string | null
           category_id: string
           created_at: string
-          date: string
-          description: string
           id: string
-          type: string
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          pattern: string | null
+          priority: number
+          user_id: string | null
+          workspace_id: string
         }
         Insert: {
-          account_id: string
-          amount: number
+          account_id?: string | null
           category_id: string
           created_at?: string
-          date: string
-          description: string
           id?: string
-          type: string
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          pattern?: string | null
+          priority?: number
+          user_id?: string | null
+          workspace_id: string
         }
         Update: {
-          account_id?: string
-          amount?: number
+          account_id?: string | null
           category_id?: string
           created_at?: string
-          date?: string
-          description?: string
           id?: string
-          type?: string
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          pattern?: string | null
+          priority?: number
+          user_id?: string | null
+          workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "transactions_account_id_fkey"
+            foreignKeyName: "categorization_rules_account_id_fkey"
             columns: ["account_id"]
             isOneToOne: false
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "transactions_category_id_fkey"
+            foreignKeyName: "categorization_rules_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "categorization_rules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          date: string
+          id: string
+          quote_currency: string
+          rate: number
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          date: string
+          id?: string
+          quote_currency: string
+          rate: number
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          deadline: string | null
+          id: string
+          name: string
+          target_amount: number
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          deadline?: string | null
+          id?: string
+          name: string
+          target_amount: number
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          deadline?: string | null
+          id?: string
+          name?: string
+          target_amount?: number
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goals_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          email_digest: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email_digest?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          email_digest?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pending_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          date: string
+          id: string
+          scheduled_transaction_id: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          date: string
+          id?: string
+          scheduled_transaction_id: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          date?: string
+          id?: string
+          scheduled_transaction_id?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_transactions_scheduled_transaction_id_fkey"
+            columns: ["scheduled_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_transactions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_id?: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      scheduled_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          business_day_adjustment: string
+          by_business_day: number | null
+          by_month_day: number | null
+          by_months: number[] | null
+          by_set_position: number | null
+          by_weekday: number | null
+          category_id: string | null
+          created_at: string
+          description: string
+          destination_account_id: string | null
+          generated_until: string | null
+          id: string
+          recurrence_end_date: string | null
+          recurrence_interval: number
+          recurrence_type: string
+          requires_confirmation: boolean
+          start_date: string
+          type: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          business_day_adjustment?: string
+          by_business_day?: number | null
+          by_month_day?: number | null
+          by_months?: number[] | null
+          by_set_position?: number | null
+          by_weekday?: number | null
+          category_id?: string | null
+          created_at?: string
+          description: string
+          destination_account_id?: string | null
+          generated_until?: string | null
+          id?: string
+          recurrence_end_date?: string | null
+          recurrence_interval?: number
+          recurrence_type: string
+          requires_confirmation?: boolean
+          start_date: string
+          type: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          business_day_adjustment?: string
+          by_business_day?: number | null
+          by_month_day?: number | null
+          by_months?: number[] | null
+          by_set_position?: number | null
+          by_weekday?: number | null
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          destination_account_id?: string | null
+          generated_until?: string | null
+          id?: string
+          recurrence_end_date?: string | null
+          recurrence_interval?: number
+          recurrence_type?: string
+          requires_confirmation?: boolean
+          start_date?: string
+          type?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transactions_destination_account_id_fkey"
+            columns: ["destination_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transactions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          transaction_id: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          transaction_id: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          transaction_id?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          tag_id: string
+          transaction_id: string
+          workspace_id: string
+        }
+        Insert: {
+          tag_id: string
+          transaction_id: string
+          workspace_id: string
+        }
+        Update: {
+          tag_id?: string
+          transaction_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string
+          destination_account_id: string | null
+          destination_amount: number | null
+          goal_id: string | null
+          id: string
+          installment_count: number | null
+          installment_number: number | null
+          parent_transaction_id: string | null
+          scheduled_transaction_id: string | null
+          type: string
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          date: string
+          description: string
+          destination_account_id?: string | null
+          destination_amount?: number | null
+          goal_id?: string | null
+          id?: string
+          installment_count?: number | null
+          installment_number?: number | null
+          parent_transaction_id?: string | null
+          scheduled_transaction_id?: string | null
+          type: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          date?: string
+          description?: string
+          destination_account_id?: string | null
+          destination_amount?: number | null
+          goal_id?: string | null
+          id?: string
+          installment_count?: number | null
+          installment_number?: number | null
+          parent_transaction_id?: string | null
+          scheduled_transaction_id?: string | null
+          type?: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_destination_account_id_fkey"
+            columns: ["destination_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_parent_transaction_id_fkey"
+            columns: ["parent_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_scheduled_transaction_id_fkey"
+            columns: ["scheduled_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      account_balances: {
+        Row: {
+          account_id: string | null
+          computed_balance: number | null
+          opening_balance: number | null
+          stored_balance: number | null
+          workspace_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      add_workspace_member: {
+        Args: {
+          p_workspace_id: string
+          p_email: string
+          p_role: string
+        }
+        Returns: undefined
+      }
+      adjust_to_business_day: {
+        Args: {
+          p_date: string
+          p_adjustment: string
+        }
+        Returns: string
+      }
+      brazilian_holidays: {
+        Args: {
+          p_year: number
+        }
+        Returns: string[]
+      }
+      can_edit_workspace: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      cancel_remaining_installments: {
+        Args: {
+          p_after: string
+          p_parent_id: string
+        }
+        Returns: undefined
+      }
+      card_closing_date: {
+        Args: {
+          p_month: string
+          p_closing_day: number
+        }
+        Returns: string
+      }
+      card_due_date: {
+        Args: {
+          p_month: string
+          p_closing_day: number
+          p_due_day: number
+        }
+        Returns: string
+      }
+      confirm_pending_transaction: {
+        Args: {
+          p_pending_id: string
+          p_amount?: number
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string
+          destination_account_id: string | null
+          destination_amount: number | null
+          goal_id: string | null
+          id: string
+          installment_count: number | null
+          installment_number: number | null
+          parent_transaction_id: string | null
+          scheduled_transaction_id: string | null
+          type: string
+          user_id: string | null
+          workspace_id: string | null
+        }
+      }
+      create_installment_purchase: {
+        Args: {
+          p_account_id: string
+          p_category_id: string
+          p_description: string
+          p_amount: number
+          p_date: string
+          p_installments: number
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string
+          destination_account_id: string | null
+          destination_amount: number | null
+          goal_id: string | null
+          id: string
+          installment_count: number | null
+          installment_number: number | null
+          parent_transaction_id: string | null
+          scheduled_transaction_id: string | null
+          type: string
+          user_id: string | null
+          workspace_id: string | null
+        }[]
+      }
+      due_bill_reminders: {
+        Args: {
+          p_user_id?: string
+        }
+        Returns: {
+          user_id: string
+          email: string
+          email_digest: boolean
+          workspace_name: string
+          bill_id: string
+          description: string
+          remaining: number
+          due_date: string
+          days_until: number
+        }[]
+      }
+      easter_date: {
+        Args: {
+          p_year: number
+        }
+        Returns: string
+      }
+      ensure_tags: {
+        Args: {
+          p_workspace_id: string
+          p_names: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string | null
+          workspace_id: string
+        }[]
+      }
+      generate_card_statement_bills: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: number
+      }
+      generate_recurring_bills: {
+        Args: {
+          p_months_ahead?: number
+          p_workspace_id?: string
+        }
+        Returns: number
+      }
+      get_workspace_members: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          user_id: string
+          email: string
+          role: string
+        }[]
+      }
+      is_business_day: {
+        Args: {
+          p_date: string
+        }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      merge_accounts: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: undefined
+      }
+      merge_categories: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: undefined
+      }
+      nth_business_day: {
+        Args: {
+          p_month: string
+          p_n: number
+        }
+        Returns: string
+      }
+      nth_weekday: {
+        Args: {
+          p_month: string
+          p_weekday: number
+          p_position: number
+        }
+        Returns: string
+      }
+      pay_bill: {
+        Args: {
+          p_bill_id: string
+          p_account_id: string
+          p_amount?: number
+        }
+        Returns: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          date: string
+          description: string
+          destination_account_id: string | null
+          destination_amount: number | null
+          goal_id: string | null
+          id: string
+          installment_count: number | null
+          installment_number: number | null
+          parent_transaction_id: string | null
+          scheduled_transaction_id: string | null
+          type: string
+          user_id: string | null
+          workspace_id: string | null
+        }
+      }
+      post_scheduled_transactions: {
+        Args: {
+          p_workspace_id?: string
+        }
+        Returns: number
+      }
+      set_bill_tags: {
+        Args: {
+          p_bill_id: string
+          p_tag_names: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string | null
+          workspace_id: string
+        }[]
+      }
+      set_transaction_splits: {
+        Args: {
+          p_transaction_id: string
+          p_splits: Json
+        }
+        Returns: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          transaction_id: string
+          user_id: string | null
+          workspace_id: string
+        }[]
+      }
+      set_transaction_tags: {
+        Args: {
+          p_transaction_id: string
+          p_tag_names: string[]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string | null
+          workspace_id: string
+        }[]
+      }
+      workspace_role: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
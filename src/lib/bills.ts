@@ -0,0 +1,29 @@
+import type { BillPayment } from '@/contexts/FinanceContext';
+
+// Bills that still expect a payment
+export const isOpenBill = (bill: { status: string }) =>
+  bill.status === 'pending' || bill.status === 'partially_paid';
+
+export const getPaidAmount = (billId: string, payments: Pick<BillPayment, 'billId' | 'amount'>[]) =>
+  payments
+    .filter((payment) => payment.billId === billId)
+    .reduce((total, payment) => total + payment.amount, 0);
+
+export const getRemainingAmount = (
+  bill: { id: string; amount: number },
+  payments: Pick<BillPayment, 'billId' | 'amount'>[]
+) => Math.max(bill.amount - getPaidAmount(bill.id, payments), 0);
+
+// Status of an open bill given what was paid on it
+export const getStatusForPaidAmount = (amount: number, paid: number) => {
+  if (paid >= amount) return 'paid';
+  return paid > 0 ? 'partially_paid' : 'pending';
+};
+
+// Lead times offered for bill reminders, in days before the due date
+export const REMINDER_OPTIONS = [15, 7, 3, 1, 0];
+
+export const describeReminderDay = (days: number) => {
+  if (days === 0) return 'No dia';
+  return days === 1 ? '1 dia antes' : `${days} dias antes`;
+};
@@ -0,0 +1,85 @@
+import { format, subMonths } from 'date-fns';
+import type { Account, Budget, Category, Transaction } from '@/contexts/FinanceContext';
+import { getCategoryFamilyIds } from '@/lib/categoryTree';
+import { DEFAULT_CURRENCY, ExchangeRate, convertAmount } from '@/lib/currency';
+import { getCategoryAmount } from '@/lib/transactionSplits';
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetProgress {
+  // Budget amount plus anything carried over from previous months
+  planned: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+  status: BudgetStatus;
+}
+
+// Everything budget progress is computed from. Budgets are set in `currency`,
+// and spending in other currencies is converted to it.
+export interface BudgetData {
+  budgets: Budget[];
+  transactions: Transaction[];
+  categories: Category[];
+  accounts: Account[];
+  rates: ExchangeRate[];
+  currency: string;
+}
+
+// Share of the planned amount that triggers a warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// Same local yyyy-MM key the transaction filters use
+export const getMonthKey = (date: Date) => format(date, 'yyyy-MM');
+
+export const shiftMonthKey = (month: string, delta: number) =>
+  getMonthKey(subMonths(new Date(`${month}-01T00:00:00`), -delta));
+
+// A parent's budget also counts what was spent in its subcategories. Amounts
+// are converted at the rate of each transaction's date; without a rate they
+// are left out.
+export const getSpentInMonth = (
+  { transactions, categories, accounts, rates, currency }: BudgetData,
+  categoryId: string,
+  month: string
+) => {
+  const categoryIds = getCategoryFamilyIds(categories, categoryId);
+  return transactions
+    .filter((t) => t.type === 'expense' && getMonthKey(new Date(t.date)) === month)
+    .reduce((total, t) => {
+      const amount = categoryIds.reduce((sum, id) => sum + getCategoryAmount(t, id), 0);
+      if (amount === 0) return total;
+      const from = accounts.find((a) => a.id === t.accountId)?.currency ?? DEFAULT_CURRENCY;
+      return total + (convertAmount(amount, from, currency, rates, t.date) ?? 0);
+    }, 0);
+};
+
+// With rollover, the previous month's leftover (negative when overspent) is
+// added to this month, following the chain back while budgets exist
+export const getPlannedAmount = (budget: Budget, data: BudgetData): number => {
+  if (!budget.rollover) return budget.amount;
+
+  const previousMonth = shiftMonthKey(budget.month, -1);
+  const previous = data.budgets.find((b) => b.categoryId === budget.categoryId && b.month === previousMonth);
+  if (!previous) return budget.amount;
+
+  const leftover =
+    getPlannedAmount(previous, data) - getSpentInMonth(data, previous.categoryId, previous.month);
+
+  return budget.amount + leftover;
+};
+
+export const getBudgetProgress = (budget: Budget, data: BudgetData): BudgetProgress => {
+  const planned = getPlannedAmount(budget, data);
+  const spent = getSpentInMonth(data, budget.categoryId, budget.month);
+  const percent = planned > 0 ? (spent / planned) * 100 : spent > 0 ? 100 : 0;
+
+  let status: BudgetStatus = 'ok';
+  if (percent >= 100) {
+    status = 'exceeded';
+  } else if (percent >= BUDGET_WARNING_RATIO * 100) {
+    status = 'warning';
+  }
+
+  return { planned, spent, remaining: planned - spent, percent, status };
+};
@@ -0,0 +1,215 @@
+import { addDays, differenceInCalendarDays, format, startOfToday } from 'date-fns';
+import type {
+  Account,
+  Bill,
+  BillPayment,
+  PendingTransaction,
+  ScheduledTransaction,
+  Transaction,
+  TransactionType,
+} from '@/contexts/FinanceContext';
+import { getRemainingAmount, isOpenBill } from '@/lib/bills';
+import { toCalendarDay } from '@/lib/creditCards';
+import { ExchangeRate, convertAmount, sumInCurrency } from '@/lib/currency';
+import { getOccurrences } from '@/lib/recurrence';
+
+export const FORECAST_DAYS = 90;
+
+export type ForecastSource = 'transaction' | 'bill' | 'scheduled' | 'pending';
+
+export interface ForecastEvent {
+  date: Date;
+  description: string;
+  source: ForecastSource;
+  // Signed amount per account the event moves money in or out of
+  changes: Record<string, number>;
+}
+
+export interface ForecastDay {
+  date: Date;
+  balances: Record<string, number>;
+  // Sum over the accounts that can run out of money (cards are left out),
+  // converted to the forecast currency
+  total: number;
+  events: ForecastEvent[];
+}
+
+export interface CashFlowForecast {
+  days: ForecastDay[];
+  // First day a non-credit account is projected below zero
+  firstNegative: { date: Date; accountId: string; balance: number } | null;
+  // Currencies no rate converts: accounts in them are left out of the
+  // totals, bills in them out of the forecast
+  missing: string[];
+}
+
+interface ForecastInput {
+  accounts: Account[];
+  transactions: Transaction[];
+  bills: Bill[];
+  billPayments: BillPayment[];
+  scheduledTransactions: ScheduledTransaction[];
+  pendingTransactions: PendingTransaction[];
+  // Account open bills are paid from; bills are left out when null
+  billAccountId: string | null;
+  rates: ExchangeRate[];
+  // Currency of the daily totals; each balance stays in its account's currency
+  currency: string;
+  days?: number;
+}
+
+// Credit card balances are negative while there is debt, so they never
+// count as running out of money
+export const isCashAccount = (account: Account) => account.type !== 'credit';
+
+// Bills are assumed to be paid from the first bank account
+export const getDefaultBillAccountId = (accounts: Account[]) => {
+  const cashAccounts = accounts.filter(isCashAccount);
+  return (cashAccounts.find((a) => a.type === 'bank') ?? cashAccounts[0])?.id ?? null;
+};
+
+const getChanges = (
+  type: TransactionType,
+  amount: number,
+  accountId: string,
+  destinationAccountId?: string | null,
+  destinationAmount?: number | null
+): Record<string, number> => {
+  if (type === 'income') return { [accountId]: amount };
+  if (type === 'expense') return { [accountId]: -amount };
+  if (!destinationAccountId || destinationAccountId === accountId) return {};
+  return { [accountId]: -amount, [destinationAccountId]: destinationAmount ?? amount };
+};
+
+// Projects the balance of every account day by day, starting from today's
+// balances. Future-dated ledger entries (e.g. card installments) are already
+// in `balance`, so they are taken out and applied on their own date.
+export const getCashFlowForecast = ({
+  accounts,
+  transactions,
+  bills,
+  billPayments,
+  scheduledTransactions,
+  pendingTransactions,
+  billAccountId,
+  rates,
+  currency,
+  days = FORECAST_DAYS,
+}: ForecastInput): CashFlowForecast => {
+  const today = startOfToday();
+  const end = addDays(today, days - 1);
+  const balances: Record<string, number> = Object.fromEntries(accounts.map((a) => [a.id, a.balance]));
+  const events: ForecastEvent[] = [];
+  const missing = new Set<string>();
+
+  // Anything already due is expected to happen today
+  const addEvent = (date: Date, description: string, source: ForecastSource, changes: Record<string, number>) => {
+    const day = date < today ? today : date;
+    if (day > end || Object.keys(changes).length === 0) return;
+    events.push({ date: day, description, source, changes });
+  };
+
+  transactions.forEach((t) => {
+    const day = toCalendarDay(new Date(t.date));
+    if (day <= today) return;
+
+    const changes = getChanges(t.type, t.amount, t.accountId, t.destinationAccountId, t.destinationAmount);
+    Object.entries(changes).forEach(([accountId, amount]) => {
+      if (accountId in balances) balances[accountId] -= amount;
+    });
+    addEvent(day, t.description, 'transaction', changes);
+  });
+
+  const billAccount = accounts.find((a) => a.id === billAccountId);
+  if (billAccount) {
+    bills.filter(isOpenBill).forEach((bill) => {
+      const remaining = getRemainingAmount(bill, billPayments);
+      if (remaining <= 0) return;
+
+      // Card invoices are in the card's currency, other bills in the forecast
+      // currency; the paying account spends the amount in its own
+      const billCurrency = accounts.find((a) => a.id === bill.statementAccountId)?.currency ?? currency;
+      const paid = convertAmount(remaining, billCurrency, billAccount.currency, rates);
+      if (paid === null) {
+        missing.add(billCurrency);
+        return;
+      }
+
+      // Paying a card invoice moves the money to the card instead of spending it
+      const changes = bill.statementAccountId
+        ? getChanges('transfer', paid, billAccount.id, bill.statementAccountId, remaining)
+        : getChanges('expense', paid, billAccount.id);
+      addEvent(toCalendarDay(bill.dueDate), bill.description, 'bill', changes);
+    });
+  }
+
+  const schedulesById = new Map(scheduledTransactions.map((s) => [s.id, s]));
+
+  pendingTransactions.forEach((pending) => {
+    const schedule = schedulesById.get(pending.scheduledTransactionId);
+    if (!schedule) return;
+    addEvent(
+      pending.date,
+      schedule.description,
+      'pending',
+      getChanges(schedule.type, pending.amount, schedule.accountId, schedule.destinationAccountId)
+    );
+  });
+
+  scheduledTransactions.forEach((schedule) => {
+    const until = schedule.endDate && schedule.endDate < end ? schedule.endDate : end;
+    getOccurrences(schedule.rule, schedule.startDate, { until })
+      .filter((date) => date >= today && (!schedule.lastPostedDate || date > schedule.lastPostedDate))
+      .forEach((date) =>
+        addEvent(
+          date,
+          schedule.description,
+          'scheduled',
+          getChanges(schedule.type, schedule.amount, schedule.accountId, schedule.destinationAccountId)
+        )
+      );
+  });
+
+  const eventsByDay = new Map<string, ForecastEvent[]>();
+  events.forEach((event) => {
+    const key = format(event.date, 'yyyy-MM-dd');
+    eventsByDay.set(key, [...(eventsByDay.get(key) ?? []), event]);
+  });
+
+  const cashAccounts = accounts.filter(isCashAccount);
+  const forecastDays: ForecastDay[] = [];
+  let firstNegative: CashFlowForecast['firstNegative'] = null;
+
+  for (let offset = 0; offset <= differenceInCalendarDays(end, today); offset++) {
+    const date = addDays(today, offset);
+    const dayEvents = eventsByDay.get(format(date, 'yyyy-MM-dd')) ?? [];
+
+    dayEvents.forEach((event) => {
+      Object.entries(event.changes).forEach(([accountId, amount]) => {
+        if (accountId in balances) balances[accountId] += amount;
+      });
+    });
+
+    if (!firstNegative) {
+      const negative = cashAccounts.find((a) => balances[a.id] < 0);
+      if (negative) firstNegative = { date, accountId: negative.id, balance: balances[negative.id] };
+    }
+
+    // Converted at today's rates: future rates are not known yet
+    const total = sumInCurrency(
+      cashAccounts.map((a) => ({ amount: balances[a.id], currency: a.currency })),
+      currency,
+      rates
+    );
+    total.missing.forEach((code) => missing.add(code));
+
+    forecastDays.push({
+      date,
+      balances: { ...balances },
+      total: total.total,
+      events: dayEvents,
+    });
+  }
+
+  return { days: forecastDays, firstNegative, missing: [...missing] };
+};
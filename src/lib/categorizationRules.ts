@@ -0,0 +1,49 @@
+import type { Category, CategorizationRule, Transaction } from '@/contexts/FinanceContext';
+
+type RuleTarget = Pick<Transaction, 'type' | 'description' | 'amount' | 'accountId'>;
+
+export const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Every condition set on the rule must hold; unset conditions are ignored
+export const matchesRule = (rule: CategorizationRule, transaction: RuleTarget) => {
+  if (rule.accountId && rule.accountId !== transaction.accountId) return false;
+  if (rule.minAmount !== null && transaction.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && transaction.amount > rule.maxAmount) return false;
+
+  if (rule.pattern) {
+    if (rule.matchType === 'regex') {
+      // A rule saved with an invalid expression never matches
+      if (!isValidRegex(rule.pattern)) return false;
+      return new RegExp(rule.pattern, 'i').test(transaction.description);
+    }
+    return transaction.description.toLowerCase().includes(rule.pattern.toLowerCase());
+  }
+
+  return true;
+};
+
+// Returns the category of the first matching rule, by ascending priority, whose
+// category has the same type as the transaction
+export const findRuleCategory = (
+  rules: CategorizationRule[],
+  categories: Category[],
+  transaction: RuleTarget
+): string | undefined => {
+  if (transaction.type === 'transfer') return undefined;
+
+  const match = [...rules]
+    .sort((a, b) => a.priority - b.priority)
+    .find((rule) => {
+      const category = categories.find((c) => c.id === rule.categoryId);
+      return category?.type === transaction.type && matchesRule(rule, transaction);
+    });
+
+  return match?.categoryId;
+};
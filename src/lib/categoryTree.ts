@@ -0,0 +1,70 @@
+import type { Category } from '@/contexts/FinanceContext';
+
+export interface CategoryNode {
+  category: Category;
+  children: Category[];
+}
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name, 'pt-BR');
+
+// A subcategory whose parent is gone is shown as a top-level category
+const getParent = (categories: Category[], category: Category) =>
+  category.parentId ? categories.find((c) => c.id === category.parentId) : undefined;
+
+export const getSubcategories = (categories: Category[], parentId: string) =>
+  categories.filter((c) => c.parentId === parentId).sort(byName);
+
+export const hasSubcategories = (categories: Category[], categoryId: string) =>
+  categories.some((c) => c.parentId === categoryId);
+
+// Top-level categories with their subcategories, both sorted by name. The
+// tree has two levels, which the database enforces.
+export const getCategoryTree = (categories: Category[]): CategoryNode[] =>
+  categories
+    .filter((c) => !getParent(categories, c))
+    .sort(byName)
+    .map((category) => ({ category, children: getSubcategories(categories, category.id) }));
+
+// Categories ordered as in the tree, each parent followed by its
+// subcategories, for selects that indent them
+export const flattenCategoryTree = (categories: Category[]) =>
+  getCategoryTree(categories).flatMap(({ category, children }) => [
+    { category, depth: 0 },
+    ...children.map((child) => ({ category: child, depth: 1 })),
+  ]);
+
+// The top-level category a category rolls up into: its parent, or itself
+export const getRootCategoryId = (categories: Category[], categoryId: string) => {
+  const category = categories.find((c) => c.id === categoryId);
+  return (category && getParent(categories, category)?.id) ?? categoryId;
+};
+
+// The category and its subcategories, for filters and totals of a parent
+export const getCategoryFamilyIds = (categories: Category[], categoryId: string) => [
+  categoryId,
+  ...categories.filter((c) => c.parentId === categoryId).map((c) => c.id),
+];
+
+// "Transporte › Uber" for subcategories, the plain name otherwise
+export const getCategoryPath = (categories: Category[], category: Category) => {
+  const parent = getParent(categories, category);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+// Adds amounts by category up into their top-level categories. With
+// `parentId`, breaks that parent's total down by subcategory instead; what was
+// assigned to the parent itself stays under the parent's id.
+export const rollUpCategoryTotals = (
+  totals: Record<string, number>,
+  categories: Category[],
+  parentId: string | null = null
+) =>
+  Object.entries(totals).reduce((acc, [categoryId, amount]) => {
+    const rootId = getRootCategoryId(categories, categoryId);
+    if (parentId === null) {
+      acc[rootId] = (acc[rootId] ?? 0) + amount;
+    } else if (rootId === parentId) {
+      acc[categoryId] = (acc[categoryId] ?? 0) + amount;
+    }
+    return acc;
+  }, {} as Record<string, number>);
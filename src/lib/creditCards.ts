@@ -0,0 +1,59 @@
+import { addMonths, format, lastDayOfMonth, startOfToday } from 'date-fns';
+import type { Account, Transaction } from '@/contexts/FinanceContext';
+
+export interface StatementPeriod {
+  // yyyy-MM of the month the statement closes in
+  month: string;
+  // Purchases from `start` (inclusive) to `closingDate` (exclusive)
+  start: Date;
+  closingDate: Date;
+  dueDate: Date;
+}
+
+// Same clamping as card_closing_date in the database: a closing day of 31
+// closes on the last day of shorter months
+const dayInMonth = (monthDate: Date, day: number) => {
+  const lastDay = lastDayOfMonth(monthDate).getDate();
+  return new Date(monthDate.getFullYear(), monthDate.getMonth(), Math.min(day, lastDay));
+};
+
+export const isCreditCard = (account: Account) =>
+  account.type === 'credit' && account.closingDay !== null && account.dueDay !== null;
+
+// Transaction dates are stored at UTC midnight, so compare calendar days in UTC
+export const toCalendarDay = (date: Date) => new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+export const getStatementPeriod = (account: Account, monthDate: Date): StatementPeriod => {
+  const closingDay = account.closingDay ?? 1;
+  const dueDay = account.dueDay ?? 1;
+  const closingDate = dayInMonth(monthDate, closingDay);
+
+  return {
+    month: format(monthDate, 'yyyy-MM'),
+    start: dayInMonth(addMonths(monthDate, -1), closingDay),
+    closingDate,
+    dueDate: dayInMonth(dueDay > closingDay ? monthDate : addMonths(monthDate, 1), dueDay),
+  };
+};
+
+// The statement a purchase made on the local calendar day `day` belongs to
+export const getStatementForDay = (account: Account, day: Date): StatementPeriod => {
+  const period = getStatementPeriod(account, day);
+  return day < period.closingDate ? period : getStatementPeriod(account, addMonths(day, 1));
+};
+
+export const getCurrentStatement = (account: Account) => getStatementForDay(account, startOfToday());
+
+// Purchases minus refunds in the period; payments are transfers and do not count
+export const getStatementTotal = (transactions: Transaction[], accountId: string, period: StatementPeriod) =>
+  transactions
+    .filter((t) => {
+      if (t.accountId !== accountId || t.type === 'transfer') return false;
+      const day = toCalendarDay(new Date(t.date));
+      return day >= period.start && day < period.closingDate;
+    })
+    .reduce((total, t) => total + (t.type === 'expense' ? t.amount : -t.amount), 0);
+
+// The balance of a card is negative while there is debt on it
+export const getAvailableLimit = (account: Account) =>
+  account.creditLimit === null ? null : account.creditLimit + Math.min(account.balance, 0);
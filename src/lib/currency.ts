@@ -0,0 +1,159 @@
+import { parseAmount, parseCsv, parseDate } from '@/lib/statementImport';
+
+export const DEFAULT_CURRENCY = 'BRL';
+
+export const CURRENCIES = [
+  { code: 'BRL', name: 'Real' },
+  { code: 'USD', name: 'Dólar americano' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'Libra esterlina' },
+  { code: 'ARS', name: 'Peso argentino' },
+  { code: 'CLP', name: 'Peso chileno' },
+  { code: 'UYU', name: 'Peso uruguaio' },
+  { code: 'CAD', name: 'Dólar canadense' },
+  { code: 'AUD', name: 'Dólar australiano' },
+  { code: 'CHF', name: 'Franco suíço' },
+  { code: 'JPY', name: 'Iene' },
+];
+
+// One unit of `baseCurrency` is worth `rate` units of `quoteCurrency` on `date`
+export interface ExchangeRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  date: Date;
+}
+
+export type ExchangeRateInput = Omit<ExchangeRate, 'id'>;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatCurrency = (value: number, currency: string = DEFAULT_CURRENCY) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+};
+
+// "R$", "US$", "€"... as formatCurrency prints it
+export const getCurrencySymbol = (currency: string) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+// Latest quote of the pair on or before `date`; without one, the oldest quote after it
+const findQuote = (rates: ExchangeRate[], base: string, quote: string, date?: Date) => {
+  const pair = rates
+    .filter((r) => r.baseCurrency === base && r.quoteCurrency === quote)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (pair.length === 0) return null;
+  if (!date) return pair[pair.length - 1];
+
+  const before = pair.filter((r) => r.date <= date);
+  return before.length > 0 ? before[before.length - 1] : pair[0];
+};
+
+const getPairRate = (rates: ExchangeRate[], from: string, to: string, date?: Date) => {
+  const direct = findQuote(rates, from, to, date);
+  if (direct) return direct.rate;
+  const inverse = findQuote(rates, to, from, date);
+  return inverse ? 1 / inverse.rate : null;
+};
+
+// Units of `to` per unit of `from`, going through a common currency when the
+// pair itself was never quoted (USD→BRL and EUR→BRL give USD→EUR). Null when
+// no rate connects them.
+export const getRate = (rates: ExchangeRate[], from: string, to: string, date?: Date) => {
+  if (from === to) return 1;
+
+  const pairRate = getPairRate(rates, from, to, date);
+  if (pairRate !== null) return pairRate;
+
+  const currencies = new Set(rates.flatMap((r) => [r.baseCurrency, r.quoteCurrency]));
+  for (const via of currencies) {
+    if (via === from || via === to) continue;
+    const first = getPairRate(rates, from, via, date);
+    const second = first === null ? null : getPairRate(rates, via, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+
+  return null;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRate[],
+  date?: Date
+) => {
+  const rate = getRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+};
+
+export interface ConvertedTotal {
+  total: number;
+  // Currencies left out of the total because no rate converts them
+  missing: string[];
+}
+
+export const sumInCurrency = (
+  items: { amount: number; currency: string; date?: Date }[],
+  to: string,
+  rates: ExchangeRate[]
+): ConvertedTotal => {
+  const missing = new Set<string>();
+  const total = items.reduce((sum, item) => {
+    const converted = convertAmount(item.amount, item.currency, to, rates, item.date);
+    if (converted === null) {
+      missing.add(item.currency);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+
+  return { total, missing: [...missing] };
+};
+
+export interface ParsedRates {
+  rates: ExchangeRateInput[];
+  // 1-based line numbers of the rows that could not be read
+  invalidLines: number[];
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// Reads a CSV with a header line and the columns date, base currency, quote
+// currency and rate, e.g. "2026-10-01;USD;BRL;5,42"
+export const parseRatesCsv = (text: string): ParsedRates => {
+  const { rows } = parseCsv(text);
+  const rates: ExchangeRateInput[] = [];
+  const invalidLines: number[] = [];
+
+  rows.forEach((row, index) => {
+    const [dateValue = '', base = '', quote = '', rateValue = ''] = row;
+    const date = parseDate(dateValue);
+    const baseCurrency = base.trim().toUpperCase();
+    const quoteCurrency = quote.trim().toUpperCase();
+    const rate = parseAmount(rateValue);
+
+    if (
+      !date ||
+      !CURRENCY_CODE.test(baseCurrency) ||
+      !CURRENCY_CODE.test(quoteCurrency) ||
+      baseCurrency === quoteCurrency ||
+      rate === null ||
+      rate <= 0
+    ) {
+      invalidLines.push(index + 2);
+      return;
+    }
+
+    rates.push({ baseCurrency, quoteCurrency, rate, date });
+  });
+
+  return { rates, invalidLines };
+};
@@ -0,0 +1,70 @@
+import { addMonths, differenceInCalendarMonths, startOfMonth, startOfToday, subMonths } from 'date-fns';
+import type { Goal, Transaction } from '@/contexts/FinanceContext';
+
+export type GoalStatus = 'completed' | 'on_track' | 'behind' | 'no_deadline';
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percent: number;
+  // Monthly amount still needed to reach the target by the deadline
+  requiredMonthly: number | null;
+  // Average of the last `PACE_MONTHS` months, used for the projection
+  monthlyPace: number;
+  projectedDate: Date | null;
+  status: GoalStatus;
+}
+
+// Months of contributions averaged to project the completion date
+export const PACE_MONTHS = 3;
+
+// Signed contribution of a transaction to the goal: money set aside counts
+// positive, money taken back out counts negative
+export const getGoalContribution = (goal: Goal, transaction: Transaction) => {
+  const intoAccount = goal.accountId !== null && transaction.type === 'transfer' &&
+    transaction.destinationAccountId === goal.accountId;
+  const outOfAccount = goal.accountId !== null && transaction.accountId === goal.accountId &&
+    (transaction.type === 'transfer' || transaction.type === 'expense');
+
+  if (intoAccount) return transaction.destinationAmount ?? transaction.amount;
+  if (outOfAccount) return -transaction.amount;
+  if (transaction.goalId !== goal.id) return 0;
+  return transaction.type === 'expense' ? -transaction.amount : transaction.amount;
+};
+
+export const getGoalContributions = (goal: Goal, transactions: Transaction[]) =>
+  transactions.filter((t) => getGoalContribution(goal, t) !== 0);
+
+export const getGoalProgress = (goal: Goal, transactions: Transaction[]): GoalProgress => {
+  const today = startOfToday();
+  const contributions = getGoalContributions(goal, transactions);
+  const saved = contributions.reduce((total, t) => total + getGoalContribution(goal, t), 0);
+  const remaining = Math.max(goal.targetAmount - saved, 0);
+  const percent = Math.min((saved / goal.targetAmount) * 100, 100);
+
+  const paceStart = startOfMonth(subMonths(today, PACE_MONTHS - 1));
+  const monthlyPace = contributions
+    .filter((t) => new Date(t.date) >= paceStart)
+    .reduce((total, t) => total + getGoalContribution(goal, t), 0) / PACE_MONTHS;
+
+  // The current month counts, so a deadline this month leaves one month
+  const monthsLeft = goal.deadline ? Math.max(differenceInCalendarMonths(goal.deadline, today) + 1, 1) : null;
+  const requiredMonthly = monthsLeft && remaining > 0 ? remaining / monthsLeft : null;
+
+  const projectedDate = remaining === 0
+    ? today
+    : monthlyPace > 0
+      ? addMonths(today, Math.ceil(remaining / monthlyPace))
+      : null;
+
+  let status: GoalStatus;
+  if (remaining === 0) {
+    status = 'completed';
+  } else if (!goal.deadline) {
+    status = 'no_deadline';
+  } else {
+    status = projectedDate && projectedDate <= goal.deadline ? 'on_track' : 'behind';
+  }
+
+  return { saved, remaining, percent, requiredMonthly, monthlyPace, projectedDate, status };
+};
@@ -0,0 +1,83 @@
+import type {
+  BillPayment,
+  Bill,
+  Budget,
+  CategorizationRule,
+  Category,
+  Goal,
+  ScheduledTransaction,
+  Transaction,
+} from '@/contexts/FinanceContext';
+import { hasCategory } from '@/lib/transactionSplits';
+
+// What a merge moves to the target, shown before confirming it
+export interface UsageCount {
+  label: string;
+  count: number;
+}
+
+interface CategoryUsageData {
+  transactions: Transaction[];
+  bills: Bill[];
+  scheduledTransactions: ScheduledTransaction[];
+  categorizationRules: CategorizationRule[];
+  budgets: Budget[];
+  categories: Category[];
+}
+
+interface AccountUsageData {
+  transactions: Transaction[];
+  bills: Bill[];
+  billPayments: BillPayment[];
+  scheduledTransactions: ScheduledTransaction[];
+  categorizationRules: CategorizationRule[];
+  goals: Goal[];
+}
+
+const nonEmpty = (counts: UsageCount[]) => counts.filter((usage) => usage.count > 0);
+
+// Split lines included: a transaction split across the category counts once
+export const getCategoryUsage = (categoryId: string, data: CategoryUsageData) =>
+  nonEmpty([
+    { label: 'transações', count: data.transactions.filter((t) => hasCategory(t, categoryId)).length },
+    { label: 'contas a pagar', count: data.bills.filter((b) => b.categoryId === categoryId).length },
+    { label: 'agendamentos', count: data.scheduledTransactions.filter((s) => s.categoryId === categoryId).length },
+    { label: 'regras', count: data.categorizationRules.filter((r) => r.categoryId === categoryId).length },
+    { label: 'orçamentos', count: data.budgets.filter((b) => b.categoryId === categoryId).length },
+    { label: 'subcategorias', count: data.categories.filter((c) => c.parentId === categoryId).length },
+  ]);
+
+const isTransferBetween = (
+  item: { type: string; accountId: string; destinationAccountId?: string | null },
+  a: string,
+  b: string
+) =>
+  item.type === 'transfer' &&
+  ((item.accountId === a && item.destinationAccountId === b) ||
+    (item.accountId === b && item.destinationAccountId === a));
+
+// With a target, transfers between the two accounts are counted apart: the
+// merge deletes them instead of moving them
+export const getAccountUsage = (accountId: string, data: AccountUsageData, targetId?: string) => {
+  const uses = (item: { accountId: string; destinationAccountId?: string | null }) =>
+    item.accountId === accountId || item.destinationAccountId === accountId;
+  const between = (item: Transaction | ScheduledTransaction) =>
+    !!targetId && isTransferBetween(item, accountId, targetId);
+
+  return nonEmpty([
+    { label: 'transações', count: data.transactions.filter((t) => uses(t) && !between(t)).length },
+    { label: 'pagamentos de contas', count: data.billPayments.filter((p) => p.accountId === accountId).length },
+    { label: 'faturas do cartão', count: data.bills.filter((b) => b.statementAccountId === accountId).length },
+    { label: 'agendamentos', count: data.scheduledTransactions.filter((s) => uses(s) && !between(s)).length },
+    { label: 'regras', count: data.categorizationRules.filter((r) => r.accountId === accountId).length },
+    { label: 'metas', count: data.goals.filter((g) => g.accountId === accountId).length },
+    {
+      label: 'transferências entre as duas contas, que serão excluídas',
+      count:
+        data.transactions.filter(between).length + data.scheduledTransactions.filter(between).length,
+    },
+  ]);
+};
+
+export const describeUsage = (usage: UsageCount[]) =>
+  usage.map(({ label, count }) => `${count} ${label}`).join(', ');
@@ -0,0 +1,53 @@
+// Public half of the VAPID key pair the send-bill-reminders function signs with
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+
+// PushManager wants the key as bytes, VAPID keys are base64url
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const getRegistration = () => navigator.serviceWorker.register('/sw.js');
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await getRegistration();
+  return registration.pushManager.getSubscription();
+};
+
+// Asks for permission and subscribes this browser; null when the user declines
+export const subscribeToPush = async (): Promise<PushSubscriptionKeys | null> => {
+  if (!isPushSupported()) return null;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return null;
+
+  const registration = await getRegistration();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) return null;
+  return { endpoint, p256dh: keys.p256dh, auth: keys.auth };
+};
+
+// Returns the endpoint that was dropped, if any
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
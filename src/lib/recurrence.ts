@@ -0,0 +1,270 @@
+import { addDays, addMonths, addWeeks, format, getDaysInMonth, startOfMonth } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RecurrenceFrequency = 'monthly' | 'weekly' | 'yearly';
+
+// What to do when a due date falls on a weekend or holiday
+export type BusinessDayAdjustment = 'none' | 'following' | 'preceding';
+
+// Mirrors the recurrence columns of bill_templates and the
+// recurrence_candidate function in the database
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every `interval` weeks, months or years
+  interval: number;
+  // Day of the month, -1 for the last day
+  byMonthDay: number | null;
+  // 0 (Sunday) to 6; `bySetPosition` picks which one of the month, -1 for the last
+  byWeekday: number | null;
+  bySetPosition: number | null;
+  // Nth business day of the month, -1 for the last
+  byBusinessDay: number | null;
+  // Months (1-12) with an occurrence; null for every month. A yearly rule
+  // falls in each of them, otherwise only in the start date's month
+  byMonths: number[] | null;
+  businessDayAdjustment: BusinessDayAdjustment;
+}
+
+export const WEEKDAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+export const MONTH_NAMES = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+export const createRecurrenceRule = (frequency: RecurrenceFrequency): RecurrenceRule => ({
+  frequency,
+  interval: 1,
+  byMonthDay: null,
+  byWeekday: null,
+  bySetPosition: null,
+  byBusinessDay: null,
+  byMonths: null,
+  businessDayAdjustment: 'none',
+});
+
+// Recurrence columns shared by bill_templates and scheduled_transactions
+type RecurrenceColumns = Pick<
+  Tables<'bill_templates'>,
+  | 'recurrence_type'
+  | 'recurrence_interval'
+  | 'by_month_day'
+  | 'by_weekday'
+  | 'by_set_position'
+  | 'by_business_day'
+  | 'by_months'
+  | 'business_day_adjustment'
+>;
+
+export const getTemplateRule = (template: RecurrenceColumns): RecurrenceRule => ({
+  frequency: template.recurrence_type as RecurrenceFrequency,
+  interval: template.recurrence_interval,
+  byMonthDay: template.by_month_day,
+  byWeekday: template.by_weekday,
+  bySetPosition: template.by_set_position,
+  byBusinessDay: template.by_business_day,
+  byMonths: template.by_months,
+  businessDayAdjustment: template.business_day_adjustment as BusinessDayAdjustment,
+});
+
+export const toRecurrenceColumns = (rule: RecurrenceRule): RecurrenceColumns => ({
+  recurrence_type: rule.frequency,
+  recurrence_interval: rule.interval,
+  by_month_day: rule.byMonthDay,
+  by_weekday: rule.byWeekday,
+  by_set_position: rule.bySetPosition,
+  by_business_day: rule.byBusinessDay,
+  by_months: rule.byMonths,
+  business_day_adjustment: rule.businessDayAdjustment,
+});
+
+// Easter Sunday (anonymous Gregorian algorithm), which the movable holidays follow
+const getEaster = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// National holidays plus the days banks close (Carnival and Corpus Christi)
+export const getBrazilianHolidays = (year: number): Date[] => {
+  const fixed: [number, number][] = [[1, 1], [4, 21], [5, 1], [9, 7], [10, 12], [11, 2], [11, 15], [12, 25]];
+  if (year >= 2024) fixed.push([11, 20]);
+
+  const easter = getEaster(year);
+  return [
+    ...fixed.map(([month, day]) => new Date(year, month - 1, day)),
+    ...[-48, -47, -2, 60].map((offset) => addDays(easter, offset)),
+  ];
+};
+
+const holidayCache = new Map<number, Set<string>>();
+
+export const isBusinessDay = (date: Date) => {
+  const weekday = date.getDay();
+  if (weekday === 0 || weekday === 6) return false;
+
+  const year = date.getFullYear();
+  if (!holidayCache.has(year)) {
+    holidayCache.set(year, new Set(getBrazilianHolidays(year).map((d) => format(d, 'yyyy-MM-dd'))));
+  }
+  return !holidayCache.get(year)!.has(format(date, 'yyyy-MM-dd'));
+};
+
+export const adjustToBusinessDay = (date: Date, adjustment: BusinessDayAdjustment) => {
+  if (adjustment === 'none') return date;
+
+  let adjusted = date;
+  while (!isBusinessDay(adjusted)) {
+    adjusted = addDays(adjusted, adjustment === 'preceding' ? -1 : 1);
+  }
+  return adjusted;
+};
+
+// Counts from the start of the month, or from its end when `n` is -1
+const getNthBusinessDay = (month: Date, n: number) => {
+  const step = n < 0 ? -1 : 1;
+  let date = n < 0 ? new Date(month.getFullYear(), month.getMonth(), getDaysInMonth(month)) : month;
+  let count = 0;
+
+  for (;;) {
+    if (isBusinessDay(date)) {
+      count += 1;
+      if (count === Math.abs(n)) return date;
+    }
+    date = addDays(date, step);
+  }
+};
+
+const getNthWeekday = (month: Date, weekday: number, position: number) => {
+  if (position < 0) {
+    const lastDay = new Date(month.getFullYear(), month.getMonth(), getDaysInMonth(month));
+    return addDays(lastDay, -((lastDay.getDay() - weekday + 7) % 7));
+  }
+  return addDays(month, ((weekday - month.getDay() + 7) % 7) + (position - 1) * 7);
+};
+
+// Due date the rule gives in its `period`-th week, month or year after `startDate`.
+// A yearly rule with `byMonths` has one period per listed month instead, so
+// "every year in March and April" is a period in March, then one in April.
+const getCandidate = (rule: RecurrenceRule, startDate: Date, period: number): Date => {
+  if (rule.frequency === 'weekly') {
+    return adjustToBusinessDay(addWeeks(startDate, period * rule.interval), rule.businessDayAdjustment);
+  }
+
+  if (rule.frequency === 'yearly' && rule.byMonths?.length) {
+    const months = [...new Set(rule.byMonths)].sort((a, b) => a - b);
+    const year = Math.floor(period / months.length) * rule.interval;
+    const offset = year * 12 + months[period % months.length] - 1 - startDate.getMonth();
+    return getCandidate({ ...rule, frequency: 'monthly', interval: 1, byMonths: null }, startDate, offset);
+  }
+
+  const months = period * rule.interval * (rule.frequency === 'yearly' ? 12 : 1);
+  const month = addMonths(startOfMonth(startDate), months);
+
+  if (rule.byBusinessDay !== null) {
+    return getNthBusinessDay(month, rule.byBusinessDay);
+  }
+
+  let date: Date;
+  if (rule.byWeekday !== null) {
+    date = getNthWeekday(month, rule.byWeekday, rule.bySetPosition ?? 1);
+  } else {
+    const day = rule.byMonthDay ?? startDate.getDate();
+    const daysInMonth = getDaysInMonth(month);
+    date = new Date(month.getFullYear(), month.getMonth(), day === -1 ? daysInMonth : Math.min(day, daysInMonth));
+  }
+
+  return adjustToBusinessDay(date, rule.businessDayAdjustment);
+};
+
+// Periods in a row without an occurrence after which the rule is taken to
+// never reach its months: a monthly or yearly rule goes through every month it
+// can reach within 12 periods, a weekly one within a year of weeks
+const getMaxEmptyPeriods = (rule: RecurrenceRule) => (rule.frequency === 'weekly' ? 53 : 12);
+
+// Due dates from `startDate` on, up to `until` or `count` occurrences. Stops
+// early, possibly with no dates, when `byMonths` lists only months the rule
+// never falls in (every 2 months from January, in February only).
+export const getOccurrences = (
+  rule: RecurrenceRule,
+  startDate: Date,
+  { count, until }: { count?: number; until?: Date | null }
+) => {
+  const occurrences: Date[] = [];
+  const limit = count ?? Infinity;
+  const maxEmptyPeriods = getMaxEmptyPeriods(rule);
+  let emptyPeriods = 0;
+
+  for (let period = 0; occurrences.length < limit; period++) {
+    const date = getCandidate(rule, startDate, period);
+    if (until && date > until) break;
+    if (date < startDate || (rule.byMonths?.length && !rule.byMonths.includes(date.getMonth() + 1))) {
+      emptyPeriods += 1;
+      if (emptyPeriods > maxEmptyPeriods) break;
+      continue;
+    }
+    emptyPeriods = 0;
+    occurrences.push(date);
+  }
+
+  return occurrences;
+};
+
+// Months (1-12) the rule's dates fall in, whatever `byMonths` says. A yearly
+// rule can be set to any month.
+export const getReachableMonths = (rule: RecurrenceRule, startDate: Date) => {
+  if (rule.frequency === 'yearly') return Array.from({ length: 12 }, (_, i) => i + 1);
+
+  const months = new Set<number>();
+  for (let period = 0; period <= getMaxEmptyPeriods(rule); period++) {
+    months.add(getCandidate(rule, startDate, period).getMonth() + 1);
+  }
+  return [...months].sort((a, b) => a - b);
+};
+
+// False when `byMonths` only has months the rule never falls in
+export const canReachMonths = (rule: RecurrenceRule, startDate: Date) => {
+  if (!rule.byMonths?.length) return true;
+  const reachable = getReachableMonths(rule, startDate);
+  return rule.byMonths.some((month) => reachable.includes(month));
+};
+
+const ordinal = (n: number) => `${n}º`;
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const units = { weekly: ['Semanal', 'semanas'], monthly: ['Mensal', 'meses'], yearly: ['Anual', 'anos'] };
+  const [single, plural] = units[rule.frequency];
+  const parts = [rule.interval > 1 ? `A cada ${rule.interval} ${plural}` : single];
+
+  if (rule.frequency !== 'weekly') {
+    if (rule.byBusinessDay !== null) {
+      parts.push(rule.byBusinessDay === -1 ? 'último dia útil' : `${ordinal(rule.byBusinessDay)} dia útil`);
+    } else if (rule.byWeekday !== null) {
+      const position = rule.bySetPosition ?? 1;
+      // domingo and sábado are masculine, the -feira days feminine
+      const masculine = rule.byWeekday === 0 || rule.byWeekday === 6;
+      const label = position === -1 ? (masculine ? 'último' : 'última') : `${position}${masculine ? 'º' : 'ª'}`;
+      parts.push(`${label} ${WEEKDAY_NAMES[rule.byWeekday]}`);
+    } else if (rule.byMonthDay !== null) {
+      parts.push(rule.byMonthDay === -1 ? 'último dia' : `dia ${rule.byMonthDay}`);
+    }
+  }
+
+  if (rule.byMonths && rule.byMonths.length > 0) {
+    parts.push(`em ${rule.byMonths.map((m) => MONTH_NAMES[m - 1]).join(', ')}`);
+  }
+
+  if (rule.byBusinessDay === null && rule.businessDayAdjustment !== 'none') {
+    parts.push(rule.businessDayAdjustment === 'following' ? 'no próximo dia útil' : 'no dia útil anterior');
+  }
+
+  return parts.join(', ');
+};
@@ -0,0 +1,234 @@
+import type { Transaction } from '@/contexts/FinanceContext';
+
+// A statement line with a signed amount: negative values are expenses
+export interface StatementRow {
+  date: Date;
+  description: string;
+  amount: number;
+  category?: string;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  // -1 when the file has no category column
+  category: number;
+}
+
+// Same key NewTransaction uses for its date input, so imported and manually
+// entered transactions compare on the same calendar day
+export const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const utcDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+// Accepts dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy, dd/mm/yy and yyyy-mm-dd
+export const parseDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return utcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const brazilian = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (brazilian) {
+    const year = brazilian[3].length === 2 ? 2000 + Number(brazilian[3]) : Number(brazilian[3]);
+    return utcDate(year, Number(brazilian[2]), Number(brazilian[1]));
+  }
+
+  return null;
+};
+
+// Understands both "1.234,56" and "1,234.56", currency symbols, a leading or
+// trailing minus sign and accounting-style parentheses
+export const parseAmount = (value: string): number | null => {
+  let cleaned = value.trim().replace(/R\$|\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.startsWith('-')) {
+    negative = !negative;
+    cleaned = cleaned.slice(1);
+  } else if (cleaned.endsWith('-')) {
+    negative = !negative;
+    cleaned = cleaned.slice(0, -1);
+  }
+  if (cleaned.startsWith('+')) {
+    cleaned = cleaned.slice(1);
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && cleaned.indexOf('.') !== lastDot) {
+    // Several dots and no comma: they are thousands separators
+    cleaned = lastComma === -1 ? cleaned.replace(/\./g, '') : cleaned.replace(/,/g, '');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) {
+    return null;
+  }
+
+  const amount = parseFloat(cleaned);
+  return negative ? -amount : amount;
+};
+
+const detectDelimiter = (headerLine: string) => {
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+};
+
+// Minimal RFC 4180 parser: quoted fields may contain delimiters, escaped
+// quotes ("") and line breaks
+export const parseCsv = (text: string): ParsedCsv => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field.trim());
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows };
+};
+
+// Guesses the mapping from common Brazilian and English bank export headers
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map((h) =>
+    h.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  );
+  const find = (...names: string[]) =>
+    normalized.findIndex((h) => names.some((name) => h.includes(name)));
+
+  return {
+    date: find('data', 'date'),
+    description: find('descricao', 'historico', 'description', 'memo', 'lancamento'),
+    amount: find('valor', 'amount', 'value', 'quantia'),
+    category: find('categoria', 'category'),
+  };
+};
+
+export const mapCsvRows = (csv: ParsedCsv, mapping: CsvColumnMapping) => {
+  const rows: StatementRow[] = [];
+  const invalidLines: number[] = [];
+
+  csv.rows.forEach((values, index) => {
+    const date = parseDate(values[mapping.date] ?? '');
+    const amount = parseAmount(values[mapping.amount] ?? '');
+    const description = (values[mapping.description] ?? '').trim();
+
+    if (!date || amount === null || amount === 0 || !description) {
+      // +2 accounts for the header and 1-based line numbers
+      invalidLines.push(index + 2);
+      return;
+    }
+
+    rows.push({
+      date,
+      description,
+      amount,
+      category: mapping.category >= 0 ? values[mapping.category]?.trim() : undefined,
+    });
+  });
+
+  return { rows, invalidLines };
+};
+
+// OFX files may be SGML (unclosed tags) or XML, so read tag values up to the
+// next tag or line break
+const readOfxTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+export const parseOfx = (text: string): StatementRow[] => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks
+    .map((block) => {
+      const posted = readOfxTag(block, 'DTPOSTED');
+      const amount = parseFloat(readOfxTag(block, 'TRNAMT').replace(',', '.'));
+      const date = posted.length >= 8
+        ? utcDate(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)), Number(posted.slice(6, 8)))
+        : null;
+      const description = readOfxTag(block, 'MEMO') || readOfxTag(block, 'NAME');
+
+      return { date, amount, description };
+    })
+    .filter((row): row is StatementRow => !!row.date && !isNaN(row.amount) && row.amount !== 0 && !!row.description);
+};
+
+const normalizeDescription = (description: string) =>
+  description.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// A row is a likely duplicate when the account already has a transaction on
+// the same day with the same amount and description
+export const isLikelyDuplicate = (
+  row: StatementRow,
+  accountId: string,
+  transactions: Transaction[]
+) => {
+  const dateKey = toDateKey(row.date);
+  const description = normalizeDescription(row.description);
+  const amount = Math.abs(row.amount);
+
+  return transactions.some(
+    (t) =>
+      t.accountId === accountId &&
+      toDateKey(t.date) === dateKey &&
+      Math.abs(t.amount - amount) < 0.005 &&
+      normalizeDescription(t.description) === description
+  );
+};
@@ -0,0 +1,83 @@
+import type { Account, Tag, Transaction } from '@/contexts/FinanceContext';
+import { DEFAULT_CURRENCY, ExchangeRate, convertAmount } from '@/lib/currency';
+import { getCategoryLines } from '@/lib/transactionSplits';
+
+export interface TagCategoryTotal {
+  categoryId: string;
+  amount: number;
+}
+
+export interface TagSummary {
+  name: string;
+  // Totals in the report currency
+  expense: number;
+  income: number;
+  count: number;
+  firstDate: Date | null;
+  lastDate: Date | null;
+  // Expenses of the tag by category, largest first
+  categories: TagCategoryTotal[];
+}
+
+export interface TagReport {
+  summaries: TagSummary[];
+  // Currencies left out of the totals because no rate converts them
+  missing: string[];
+}
+
+// Spending and income of each tag, converted to `currency` at the rate of each
+// transaction's date. Transfers only move money between accounts and are left
+// out; tags without transactions are listed with zero totals.
+export const getTagReport = (
+  tags: Tag[],
+  transactions: Transaction[],
+  accounts: Account[],
+  rates: ExchangeRate[],
+  currency: string
+): TagReport => {
+  const missing = new Set<string>();
+  const toCurrency = (transaction: Transaction, amount: number) => {
+    const from = accounts.find((a) => a.id === transaction.accountId)?.currency ?? DEFAULT_CURRENCY;
+    const converted = convertAmount(amount, from, currency, rates, transaction.date);
+    if (converted === null) {
+      missing.add(from);
+      return 0;
+    }
+    return converted;
+  };
+
+  const summaries = tags.map((tag): TagSummary => {
+    const tagged = transactions.filter((t) => t.type !== 'transfer' && t.tags?.includes(tag.name));
+    const dates = tagged.map((t) => t.date.getTime());
+    const byCategory: Record<string, number> = {};
+
+    let expense = 0;
+    let income = 0;
+    tagged.forEach((transaction) => {
+      if (transaction.type === 'income') {
+        income += toCurrency(transaction, transaction.amount);
+        return;
+      }
+      getCategoryLines(transaction).forEach((line) => {
+        const amount = toCurrency(transaction, line.amount);
+        expense += amount;
+        byCategory[line.categoryId] = (byCategory[line.categoryId] ?? 0) + amount;
+      });
+    });
+
+    return {
+      name: tag.name,
+      expense,
+      income,
+      count: tagged.length,
+      firstDate: dates.length > 0 ? new Date(Math.min(...dates)) : null,
+      lastDate: dates.length > 0 ? new Date(Math.max(...dates)) : null,
+      categories: Object.entries(byCategory)
+        .map(([categoryId, amount]) => ({ categoryId, amount }))
+        .sort((a, b) => b.amount - a.amount),
+    };
+  });
+
+  summaries.sort((a, b) => b.expense - a.expense || a.name.localeCompare(b.name, 'pt-BR'));
+  return { summaries, missing: [...missing] };
+};
@@ -0,0 +1,239 @@
+import { format } from 'date-fns';
+import type { Account, Category, Transaction, TransactionType } from '@/contexts/FinanceContext';
+import { getCategoryLines } from '@/lib/transactionSplits';
+import {
+  DEFAULT_CURRENCY,
+  ExchangeRate,
+  convertAmount,
+  formatCurrency,
+  getCurrencySymbol,
+} from '@/lib/currency';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface ExportOptions {
+  transactions: Transaction[];
+  getCategoryById: (id: string) => Category | undefined;
+  getAccountById: (id: string) => Account | undefined;
+  // Rows keep their account's currency; totals are converted to `currency`
+  exchangeRates: ExchangeRate[];
+  currency: string;
+  // Human readable summary of the active filters, printed in the PDF header
+  filtersDescription: string;
+}
+
+interface ExportRow {
+  date: string;
+  description: string;
+  type: string;
+  category: string;
+  account: string;
+  tags: string;
+  // Signed: income positive, expense negative, transfers unsigned
+  amount: number;
+  // Currency of the (source) account
+  currency: string;
+}
+
+const typeLabels: Record<TransactionType, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+};
+
+const HEADERS = ['Data', 'Descrição', 'Tipo', 'Categoria', 'Conta', 'Etiquetas', 'Valor'];
+
+const getCurrency = (transaction: Transaction, getAccountById: ExportOptions['getAccountById']) =>
+  getAccountById(transaction.accountId)?.currency ?? DEFAULT_CURRENCY;
+
+const buildRows = ({ transactions, getCategoryById, getAccountById }: ExportOptions): ExportRow[] =>
+  [...transactions]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((transaction) => {
+      const accountName = getAccountById(transaction.accountId)?.name || 'Conta removida';
+      const isTransfer = transaction.type === 'transfer';
+
+      return {
+        date: format(new Date(transaction.date), 'dd/MM/yyyy'),
+        description: transaction.description,
+        type: typeLabels[transaction.type],
+        category: isTransfer
+          ? 'Transferência'
+          : getCategoryLines(transaction)
+              .map((line) => getCategoryById(line.categoryId)?.name)
+              .filter(Boolean)
+              .join(', ') || 'Sem categoria',
+        account: isTransfer
+          ? `${accountName} para ${getAccountById(transaction.destinationAccountId ?? '')?.name || 'Conta removida'}`
+          : accountName,
+        tags: (transaction.tags ?? []).join(', '),
+        amount: transaction.type === 'expense' ? -transaction.amount : transaction.amount,
+        currency: getCurrency(transaction, getAccountById),
+      };
+    });
+
+// Totals converted at the rate of each transaction's date, with the
+// currencies no rate converts left out
+export const getTotalsByType = ({ transactions, getAccountById, exchangeRates, currency }: ExportOptions) => {
+  const missing = new Set<string>();
+  const totals = transactions.reduce(
+    (acc, transaction) => {
+      const from = getCurrency(transaction, getAccountById);
+      const converted = convertAmount(transaction.amount, from, currency, exchangeRates, transaction.date);
+      if (converted === null) {
+        missing.add(from);
+        return acc;
+      }
+      return { ...acc, [transaction.type]: acc[transaction.type] + converted };
+    },
+    { income: 0, expense: 0, transfer: 0 } as Record<TransactionType, number>
+  );
+
+  return { totals, missing: [...missing] };
+};
+
+const getTotalsSummary = (options: ExportOptions) => {
+  const { totals, missing } = getTotalsByType(options);
+  const lines: (readonly [string, number])[] = [
+    [`Total de receitas (${options.currency})`, totals.income],
+    [`Total de despesas (${options.currency})`, -totals.expense],
+    [`Total de transferências (${options.currency})`, totals.transfer],
+    [`Resultado (${options.currency})`, totals.income - totals.expense],
+  ];
+  const note = missing.length > 0 ? `Sem cotação de ${missing.join(', ')}: fora dos totais` : null;
+  return { lines, note };
+};
+
+const getNumberFormat = (currency: string) => {
+  const symbol = getCurrencySymbol(currency).replace(/"/g, '');
+  return `"${symbol}" #,##0.00;[Red]-"${symbol}" #,##0.00`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const escapeCsv = (value: string) => (/[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Semicolon separated with decimal commas and a BOM so Excel in Portuguese opens it as is
+const exportCsv = (options: ExportOptions, fileName: string) => {
+  const formatNumber = (value: number) => value.toFixed(2).replace('.', ',');
+  const summary = getTotalsSummary(options);
+  const lines = [
+    [...HEADERS, 'Moeda'].join(';'),
+    ...buildRows(options).map((row) =>
+      [
+        row.date,
+        row.description,
+        row.type,
+        row.category,
+        row.account,
+        row.tags,
+        formatNumber(row.amount),
+        row.currency,
+      ]
+        .map(escapeCsv)
+        .join(';')
+    ),
+    '',
+    ...summary.lines.map(([label, value]) => `${escapeCsv(label)};${formatNumber(value)}`),
+    ...(summary.note ? [escapeCsv(summary.note)] : []),
+  ];
+
+  downloadBlob(new Blob([`\uFEFF${lines.join('\n')}`], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+const exportXlsx = async (options: ExportOptions, fileName: string) => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Transações');
+  const summary = getTotalsSummary(options);
+
+  sheet.columns = [
+    { header: HEADERS[0], key: 'date', width: 12 },
+    { header: HEADERS[1], key: 'description', width: 40 },
+    { header: HEADERS[2], key: 'type', width: 15 },
+    { header: HEADERS[3], key: 'category', width: 20 },
+    { header: HEADERS[4], key: 'account', width: 30 },
+    { header: HEADERS[5], key: 'tags', width: 20 },
+    { header: HEADERS[6], key: 'amount', width: 16 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+  buildRows(options).forEach((row) => {
+    sheet.addRow(row).getCell('amount').numFmt = getNumberFormat(row.currency);
+  });
+
+  sheet.addRow([]);
+  summary.lines.forEach(([label, value]) => {
+    const row = sheet.addRow({ description: label, amount: value });
+    row.getCell('amount').numFmt = getNumberFormat(options.currency);
+    row.font = { bold: true };
+  });
+  if (summary.note) {
+    sheet.addRow({ description: summary.note });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${fileName}.xlsx`
+  );
+};
+
+const exportPdf = async (options: ExportOptions, fileName: string) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape' });
+
+  doc.setFontSize(16);
+  doc.text('Extrato de Transações', 14, 16);
+  doc.setFontSize(10);
+  doc.text(options.filtersDescription, 14, 23);
+  doc.text(`Gerado em ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, 14, 29);
+
+  const summary = getTotalsSummary(options);
+
+  autoTable(doc, {
+    startY: 34,
+    head: [HEADERS],
+    body: buildRows(options).map((row) => [
+      row.date,
+      row.description,
+      row.type,
+      row.category,
+      row.account,
+      row.tags,
+      formatCurrency(row.amount, row.currency),
+    ]),
+    foot: [
+      ...summary.lines.map(([label, value]) => [
+        { content: label, colSpan: 6 },
+        formatCurrency(value, options.currency),
+      ]),
+      ...(summary.note ? [[{ content: summary.note, colSpan: 7 }]] : []),
+    ],
+    showFoot: 'lastPage',
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [144, 1, 231] },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20 },
+    columnStyles: { 6: { halign: 'right' } },
+  });
+
+  doc.save(`${fileName}.pdf`);
+};
+
+export const exportTransactions = async (exportFormat: ExportFormat, options: ExportOptions) => {
+  const fileName = `transacoes-${format(new Date(), 'yyyy-MM-dd')}`;
+
+  if (exportFormat === 'csv') {
+    exportCsv(options, fileName);
+  } else if (exportFormat === 'xlsx') {
+    await exportXlsx(options, fileName);
+  } else {
+    await exportPdf(options, fileName);
+  }
+};
@@ -0,0 +1,27 @@
+import type { Transaction, TransactionSplit } from '@/contexts/FinanceContext';
+
+// Differences below half a cent are rounding noise
+const SPLIT_TOLERANCE = 0.005;
+
+export const isSplitTransaction = (transaction: Transaction) => (transaction.splits?.length ?? 0) > 0;
+
+// Category lines of a transaction: its splits, or the whole amount under its
+// single category. Transfers have none.
+export const getCategoryLines = (transaction: Transaction): TransactionSplit[] => {
+  if (isSplitTransaction(transaction)) return transaction.splits!;
+  return transaction.categoryId ? [{ categoryId: transaction.categoryId, amount: transaction.amount }] : [];
+};
+
+export const getCategoryAmount = (transaction: Transaction, categoryId: string) =>
+  getCategoryLines(transaction)
+    .filter((line) => line.categoryId === categoryId)
+    .reduce((total, line) => total + line.amount, 0);
+
+export const hasCategory = (transaction: Transaction, categoryId: string) =>
+  getCategoryLines(transaction).some((line) => line.categoryId === categoryId);
+
+export const getSplitsTotal = (splits: TransactionSplit[]) =>
+  splits.reduce((total, line) => total + line.amount, 0);
+
+export const splitsMatchAmount = (splits: TransactionSplit[], amount: number) =>
+  Math.abs(getSplitsTotal(splits) - amount) < SPLIT_TOLERANCE;
@@ -2,10 +2,16 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { AuthProvider } from './contexts/AuthContext.tsx'
+import { WorkspaceProvider } from './contexts/WorkspaceContext.tsx'
 import { FinanceProvider } from './contexts/FinanceContext.tsx'
 
 createRoot(document.getElementById("root")!).render(
-  <FinanceProvider>
-    <App />
-  </FinanceProvider>
+  <AuthProvider>
+    <WorkspaceProvider>
+      <FinanceProvider>
+        <App />
+      </FinanceProvider>
+    </WorkspaceProvider>
+  </AuthProvider>
 );
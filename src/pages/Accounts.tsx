@@ -1,11 +1,16 @@
 import { useState } from 'react';
-import { useFinance } from '@/contexts/FinanceContext';
+import { useFinance, Account } from '@/contexts/FinanceContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import Card from '@/components/Card';
 import PageHeader from '@/components/PageHeader';
-import { Wallet, CreditCard, Landmark, TrendingUp, PlusCircle, Loader2 } from 'lucide-react';
+import AccountEditDialog from '@/components/AccountEditDialog';
+import AccountReconciliation from '@/components/AccountReconciliation';
+import CreditCardSummary from '@/components/CreditCardSummary';
+import ExchangeRates from '@/components/ExchangeRates';
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency, sumInCurrency } from '@/lib/currency';
+import { Wallet, CreditCard, Landmark, TrendingUp, PlusCircle, Loader2, Scale, Coins } from 'lucide-react';
 
 const accountTypes = [
   { id: 'cash', name: 'Dinheiro', icon: <Wallet size={20} /> },
@@ -15,26 +20,42 @@ const accountTypes = [
 ];
 
 const Accounts = () => {
-  const { accounts, addAccount, deleteAccount, loading } = useFinance();
+  const { accounts, exchangeRates, baseCurrency, addAccount, deleteAccount, loading } = useFinance();
   const [showForm, setShowForm] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [showRates, setShowRates] = useState(false);
   const [name, setName] = useState('');
   const [balance, setBalance] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [type, setType] = useState<'bank' | 'cash' | 'credit' | 'investment'>('bank');
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [editing, setEditing] = useState<Account | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim() && !isNaN(parseFloat(balance))) {
       setSubmitting(true);
       try {
+        const isCredit = type === 'credit';
         await addAccount({
           name,
-          balance: parseFloat(balance),
+          openingBalance: parseFloat(balance),
           type,
+          currency,
+          closingDay: isCredit && closingDay ? parseInt(closingDay) : null,
+          dueDay: isCredit && dueDay ? parseInt(dueDay) : null,
+          creditLimit: isCredit && creditLimit ? parseFloat(creditLimit) : null,
         });
         setName('');
         setBalance('');
+        setCurrency(DEFAULT_CURRENCY);
         setType('bank');
+        setClosingDay('');
+        setDueDay('');
+        setCreditLimit('');
         setShowForm(false);
       } catch (error) {
         console.error('Error adding account:', error);
@@ -63,7 +84,11 @@ const Accounts = () => {
     return accountTypes.find(t => t.id === accountType)?.name || 'Conta';
   };
 
-  const totalBalance = accounts.reduce((total, account) => total + account.balance, 0);
+  const totalBalance = sumInCurrency(
+    accounts.map((account) => ({ amount: account.balance, currency: account.currency })),
+    baseCurrency,
+    exchangeRates
+  );
 
   if (loading) {
     return (
@@ -80,13 +105,29 @@ const Accounts = () => {
         title="Contas" 
         description="Gerencie suas contas financeiras"
         action={
-          <Button 
-            className="bg-primary hover:bg-primary/90"
-            onClick={() => setShowForm(!showForm)}
-          >
-            <PlusCircle className="mr-2 h-4 w-4" />
-            Nova Conta
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setShowReconciliation(!showReconciliation)}
+            >
+              <Scale className="mr-2 h-4 w-4" />
+              Conciliação
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowRates(!showRates)}
+            >
+              <Coins className="mr-2 h-4 w-4" />
+              Cotações
+            </Button>
+            <Button 
+              className="bg-primary hover:bg-primary/90"
+              onClick={() => setShowForm(!showForm)}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Nova Conta
+            </Button>
+          </div>
         }
       />
       
@@ -118,6 +159,22 @@ const Accounts = () => {
                     required
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="currency">Moeda</Label>
+                  <select
+                    id="currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    {CURRENCIES.map((option) => (
+                      <option key={option.code} value={option.code}>
+                        {option.code} - {option.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div className="space-y-2">
@@ -137,6 +194,51 @@ const Accounts = () => {
                   ))}
                 </div>
               </div>
+
+              {type === 'credit' && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="closingDay">Dia de Fechamento</Label>
+                    <Input
+                      id="closingDay"
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={closingDay}
+                      onChange={(e) => setClosingDay(e.target.value)}
+                      placeholder="Ex: 25"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="dueDay">Dia de Vencimento</Label>
+                    <Input
+                      id="dueDay"
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={dueDay}
+                      onChange={(e) => setDueDay(e.target.value)}
+                      placeholder="Ex: 5"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="creditLimit">Limite</Label>
+                    <Input
+                      id="creditLimit"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={creditLimit}
+                      onChange={(e) => setCreditLimit(e.target.value)}
+                      placeholder="0,00"
+                    />
+                  </div>
+                </div>
+              )}
               
               <div className="flex justify-end space-x-2">
                 <Button 
@@ -166,14 +268,30 @@ const Accounts = () => {
           </Card>
         )}
         
+        {showReconciliation && (
+          <Card title="Conciliação de Saldos">
+            <AccountReconciliation />
+          </Card>
+        )}
+
+        {showRates && (
+          <Card title="Cotações">
+            <ExchangeRates />
+          </Card>
+        )}
+        
         <Card 
           title="Saldo Total" 
           className="bg-gradient-to-br from-primary to-purple-700 text-white font-semibold"
         >
           <h3 className="text-2xl font-bold">
-            {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(totalBalance)}
+            {formatCurrency(totalBalance.total, baseCurrency)}
           </h3>
-          <p className="text-sm mt-1 text-white/80">Somando todas as suas contas</p>
+          <p className="text-sm mt-1 text-white/80">
+            {totalBalance.missing.length > 0
+              ? `Sem cotação para ${totalBalance.missing.join(', ')}: essas contas ficaram de fora`
+              : 'Somando todas as suas contas'}
+          </p>
         </Card>
         
         <Card title="Suas Contas">
@@ -193,11 +311,27 @@ const Accounts = () => {
                     </div>
                     <div className="text-right">
                       <div className="font-medium">
-                        {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(account.balance)}
+                        {formatCurrency(account.balance, account.currency)}
                       </div>
+                      {account.currency !== baseCurrency && (
+                        <div className="text-xs text-neutral-light">{account.currency}</div>
+                      )}
                     </div>
                   </div>
+                  {account.type === 'credit' && (
+                    <div className="border-t p-4">
+                      <CreditCardSummary account={account} />
+                    </div>
+                  )}
                   <div className="border-t p-2 flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-xs"
+                      onClick={() => setEditing(account)}
+                    >
+                      Editar
+                    </Button>
                     <Button 
                       variant="ghost" 
                       size="sm"
@@ -219,6 +353,15 @@ const Accounts = () => {
           )}
         </Card>
       </div>
+
+      {editing && (
+        <AccountEditDialog
+          key={editing.id}
+          account={editing}
+          accountTypes={accountTypes}
+          onClose={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 };
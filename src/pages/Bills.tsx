@@ -12,28 +12,42 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
-import { Calendar, Plus, Check, Loader2 } from 'lucide-react';
+import { Calendar, Plus, Check, Loader2, History, Repeat, Bell } from 'lucide-react';
 import { format, isBefore, isToday } from 'date-fns';
 import BillForm from '@/components/BillForm';
 import BillPaymentForm from '@/components/BillPaymentForm';
+import ReminderSettings from '@/components/ReminderSettings';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { isOpenBill, describeReminderDay } from '@/lib/bills';
+import { formatCurrency } from '@/lib/currency';
+import { describeRecurrence, getTemplateRule } from '@/lib/recurrence';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+
+const BILLS_QUERY = '*, categories(name, icon), bill_payments(id, amount, paid_at, account_id), bill_templates(*), bill_tags(tags(name))';
 
 const Bills = () => {
-  const { bills, categories, billsLoading } = useFinance();
+  const { bills, categories, billsLoading, getAccountById, stopBillRecurrence } = useFinance();
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
   const [isAddingBill, setIsAddingBill] = useState(false);
   const [isPayingBill, setIsPayingBill] = useState(false);
   const [selectedBill, setSelectedBill] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('all');
   const [localBills, setLocalBills] = useState<any[]>([]);
+  const [historyBillId, setHistoryBillId] = useState<string | null>(null);
+  const [isEditingReminders, setIsEditingReminders] = useState(false);
 
   // Fetch bills directly from Supabase
   useEffect(() => {
+    if (!workspaceId) return;
+
     const loadBills = async () => {
       try {
         const { data, error } = await supabase
           .from('bills')
-          .select('*, categories(name, icon)')
+          .select(BILLS_QUERY)
+          .eq('workspace_id', workspaceId)
           .order('due_date', { ascending: true });
         
         if (error) {
@@ -56,11 +70,20 @@ const Bills = () => {
 
     // Set up realtime subscription
     const channel = supabase
-      .channel('bills-changes')
+      .channel(`bills-changes-${workspaceId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'bills',
+        filter: `workspace_id=eq.${workspaceId}`
+      }, () => {
+        loadBills();
+      })
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
-        table: 'bills'
+        table: 'bill_payments',
+        filter: `workspace_id=eq.${workspaceId}`
       }, () => {
         loadBills();
       })
@@ -69,16 +92,22 @@ const Bills = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [workspaceId]);
 
   const handlePayBill = (billId: string) => {
     setSelectedBill(billId);
     setIsPayingBill(true);
   };
 
+  const handleStopRecurrence = async (templateId: string) => {
+    if (window.confirm('Encerrar esta recorrência? As próximas ocorrências em aberto serão removidas.')) {
+      await stopBillRecurrence(templateId);
+    }
+  };
+
   // Use the locally fetched bills rather than from context
   const displayBills = localBills.filter(bill => {
-    if (bill.status !== 'pending') return false;
+    if (!isOpenBill(bill)) return false;
     
     const today = new Date();
     const dueDate = new Date(bill.due_date);
@@ -113,7 +142,8 @@ const Bills = () => {
     // Force a refresh of bills
     supabase
       .from('bills')
-      .select('*, categories(name, icon)')
+      .select(BILLS_QUERY)
+      .eq('workspace_id', workspaceId)
       .order('due_date', { ascending: true })
       .then(({ data }) => {
         if (data) setLocalBills(data);
@@ -126,7 +156,8 @@ const Bills = () => {
     // Force a refresh of bills
     supabase
       .from('bills')
-      .select('*, categories(name, icon)')
+      .select(BILLS_QUERY)
+      .eq('workspace_id', workspaceId)
       .order('due_date', { ascending: true })
       .then(({ data }) => {
         if (data) setLocalBills(data);
@@ -148,9 +179,14 @@ const Bills = () => {
         title="Contas a Pagar"
         description="Gerencie suas contas e parcelas"
         action={
-          <Button onClick={() => setIsAddingBill(true)}>
-            <Plus className="mr-2 h-4 w-4" /> Nova Conta
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsEditingReminders(true)}>
+              <Bell className="mr-2 h-4 w-4" /> Lembretes
+            </Button>
+            <Button onClick={() => setIsAddingBill(true)}>
+              <Plus className="mr-2 h-4 w-4" /> Nova Conta
+            </Button>
+          </div>
         }
       />
 
@@ -176,13 +212,19 @@ const Bills = () => {
 
                 {groupedBills[dateKey].map((bill) => {
                   const isOverdue = isBefore(new Date(bill.due_date), new Date()) && !isToday(new Date(bill.due_date));
+                  const payments = [...(bill.bill_payments || [])].sort(
+                    (a, b) => new Date(a.paid_at).getTime() - new Date(b.paid_at).getTime()
+                  );
+                  const paidAmount = payments.reduce((total, payment) => total + Number(payment.amount), 0);
+                  const remainingAmount = Math.max(Number(bill.amount) - paidAmount, 0);
+                  const isHistoryOpen = historyBillId === bill.id;
                   
                   return (
                     <Card key={bill.id} className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
                           <div className="flex items-center gap-2">
-                            <span className="text-xl">{bill.categories?.icon || '💰'}</span>
+                            <span className="text-xl">{bill.statement_account_id ? '💳' : bill.categories?.icon || '💰'}</span>
                             <div>
                               <h3 className="font-medium">
                                 {bill.description}
@@ -191,26 +233,100 @@ const Bills = () => {
                                 }
                               </h3>
                               <div className="flex items-center gap-4 mt-1 text-sm text-neutral-light">
-                                <p>{bill.categories?.name}</p>
+                                <p>{bill.statement_account_id ? 'Fatura do cartão' : bill.categories?.name}</p>
                                 {isOverdue && <span className="text-red-500 font-medium">Vencida</span>}
-                                {bill.is_recurring && <span className="text-blue-500">Recorrente</span>}
+                                {bill.status === 'partially_paid' && <span className="text-amber-600">Parcialmente paga</span>}
+                                {bill.is_recurring && (
+                                  <span className="text-blue-500">
+                                    {bill.bill_templates ? describeRecurrence(getTemplateRule(bill.bill_templates)) : 'Recorrente'}
+                                  </span>
+                                )}
+                                {bill.reminder_days?.length > 0 && (
+                                  <span
+                                    className="flex items-center gap-1"
+                                    title={bill.reminder_days.map(describeReminderDay).join(', ')}
+                                  >
+                                    <Bell className="h-3 w-3" /> {bill.reminder_days.length}
+                                  </span>
+                                )}
                               </div>
+                              {bill.bill_tags?.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {bill.bill_tags.map((link: { tags: { name: string } | null }) => link.tags && (
+                                    <span
+                                      key={link.tags.name}
+                                      className="rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary"
+                                    >
+                                      {link.tags.name}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
                         <div className="flex flex-col items-end">
                           <span className="font-medium text-lg">
-                            {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(bill.amount)}
+                            {formatCurrency(remainingAmount)}
                           </span>
-                          <Button 
-                            size="sm" 
-                            onClick={() => handlePayBill(bill.id)}
-                            className="mt-2"
-                          >
-                            <Check className="mr-1 h-3 w-3" /> Pagar
-                          </Button>
+                          {paidAmount > 0 && (
+                            <span className="text-xs text-neutral-light">
+                              de {formatCurrency(bill.amount)}
+                            </span>
+                          )}
+                          <div className="flex gap-2 mt-2">
+                            {payments.length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setHistoryBillId(isHistoryOpen ? null : bill.id)}
+                              >
+                                <History className="mr-1 h-3 w-3" /> Histórico
+                              </Button>
+                            )}
+                            {bill.template_id && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleStopRecurrence(bill.template_id)}
+                                title="Para mudar a recorrência, encerre-a e cadastre uma nova conta recorrente"
+                              >
+                                <Repeat className="mr-1 h-3 w-3" /> Encerrar
+                              </Button>
+                            )}
+                            <Button 
+                              size="sm" 
+                              onClick={() => handlePayBill(bill.id)}
+                            >
+                              <Check className="mr-1 h-3 w-3" /> Pagar
+                            </Button>
+                          </div>
                         </div>
                       </div>
+
+                      {isHistoryOpen && (
+                        <div className="mt-4 border-t pt-3 space-y-2">
+                          <h4 className="text-sm font-medium">Pagamentos</h4>
+                          {payments.map((payment) => (
+                            <div key={payment.id} className="flex justify-between text-sm">
+                              <span className="text-neutral-light">
+                                {format(new Date(payment.paid_at), 'dd/MM/yyyy')}
+                                {' · '}
+                                {getAccountById(payment.account_id)?.name}
+                              </span>
+                              <span>
+                                {formatCurrency(Number(payment.amount))}
+                              </span>
+                            </div>
+                          ))}
+                          <div className="flex justify-between text-sm font-medium border-t pt-2">
+                            <span>Restante</span>
+                            <span>
+                              {formatCurrency(remainingAmount)}
+                            </span>
+                          </div>
+                        </div>
+                      )}
                     </Card>
                   );
                 })}
@@ -239,6 +355,21 @@ const Bills = () => {
         </SheetContent>
       </Sheet>
 
+      {/* Reminder Settings Sheet */}
+      <Sheet open={isEditingReminders} onOpenChange={setIsEditingReminders}>
+        <SheetContent className="sm:max-w-md overflow-y-auto max-h-screen">
+          <SheetHeader>
+            <SheetTitle>Lembretes</SheetTitle>
+            <SheetDescription>
+              Escolha como receber avisos de contas a vencer
+            </SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            <ReminderSettings />
+          </div>
+        </SheetContent>
+      </Sheet>
+
       {/* Pay Bill Sheet */}
       <Sheet open={isPayingBill} onOpenChange={setIsPayingBill}>
         <SheetContent className="sm:max-w-md overflow-y-auto max-h-screen">
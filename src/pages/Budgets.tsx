@@ -0,0 +1,270 @@
+
+import { useState } from 'react';
+import { useFinance, Budget } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import BudgetProgressBar from '@/components/BudgetProgressBar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ChevronLeft, ChevronRight, Loader2, PiggyBank, PlusCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { getBudgetProgress, getMonthKey, shiftMonthKey } from '@/lib/budgets';
+import { formatCurrency } from '@/lib/currency';
+import { flattenCategoryTree, getCategoryPath } from '@/lib/categoryTree';
+
+const Budgets = () => {
+  const {
+    transactions,
+    categories,
+    budgets,
+    accounts,
+    exchangeRates,
+    baseCurrency,
+    addBudget,
+    editBudget,
+    deleteBudget,
+    getCategoryById,
+    loading,
+  } = useFinance();
+  const [month, setMonth] = useState(getMonthKey(new Date()));
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [categoryId, setCategoryId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const monthBudgets = budgets.filter(b => b.month === month);
+  const expenseCategories = flattenCategoryTree(categories.filter(c => c.type === 'expense')).map(n => n.category);
+  // A category has at most one budget per month
+  const availableCategories = expenseCategories.filter(
+    c => c.id === categoryId || !monthBudgets.some(b => b.categoryId === c.id && b.id !== editingId)
+  );
+
+  const budgetData = { budgets, transactions, categories, accounts, rates: exchangeRates, currency: baseCurrency };
+  const totals = monthBudgets.reduce(
+    (acc, budget) => {
+      const progress = getBudgetProgress(budget, budgetData);
+      return { planned: acc.planned + progress.planned, spent: acc.spent + progress.spent };
+    },
+    { planned: 0, spent: 0 }
+  );
+
+  const formatMonthName = (monthKey: string) =>
+    format(new Date(`${monthKey}-01T00:00:00`), 'MMMM yyyy', { locale: ptBR });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setCategoryId('');
+    setAmount('');
+    setRollover(false);
+    setError(null);
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingId(budget.id);
+    setCategoryId(budget.categoryId);
+    setAmount(String(budget.amount));
+    setRollover(budget.rollover);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!categoryId) {
+      setError('Selecione uma categoria.');
+      return;
+    }
+
+    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+      setError('Valor inválido. Digite um número positivo.');
+      return;
+    }
+
+    const budget = { categoryId, month, amount: parseFloat(amount), rollover };
+
+    setSubmitting(true);
+    try {
+      if (editingId) {
+        await editBudget(editingId, budget);
+      } else {
+        await addBudget(budget);
+      }
+      resetForm();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (window.confirm('Tem certeza que deseja excluir este orçamento?')) {
+      await deleteBudget(budget.id);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando orçamentos...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Orçamentos"
+        description="Defina limites de gastos mensais por categoria"
+        action={
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo Orçamento
+          </Button>
+        }
+      />
+
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="icon" onClick={() => { resetForm(); setMonth(shiftMonthKey(month, -1)); }}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <h2 className="font-semibold text-lg capitalize">{formatMonthName(month)}</h2>
+          <Button variant="outline" size="icon" onClick={() => { resetForm(); setMonth(shiftMonthKey(month, 1)); }}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {showForm && (
+          <Card title={editingId ? 'Editar Orçamento' : 'Novo Orçamento'}>
+            {error && (
+              <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="budgetCategory">Categoria</Label>
+                  <select
+                    id="budgetCategory"
+                    value={categoryId}
+                    onChange={(e) => setCategoryId(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">Selecione uma categoria</option>
+                    {availableCategories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.icon} {getCategoryPath(categories, category)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="budgetAmount">Valor planejado ({baseCurrency})</Label>
+                  <Input
+                    id="budgetAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="budgetRollover"
+                  checked={rollover}
+                  onCheckedChange={(checked) => setRollover(checked === true)}
+                />
+                <Label htmlFor="budgetRollover" className="font-normal">
+                  Acumular saldo do mês anterior
+                </Label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm} disabled={submitting}>
+                  Cancelar
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    'Salvar Orçamento'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        <Card>
+          {monthBudgets.length > 0 ? (
+            <div className="space-y-6">
+              <div className="flex justify-between text-sm border-b pb-4">
+                <span className="text-neutral-light">Total do mês</span>
+                <span className="font-medium">
+                  {formatCurrency(totals.spent, baseCurrency)} de{' '}
+                  {formatCurrency(totals.planned, baseCurrency)}
+                </span>
+              </div>
+
+              {monthBudgets.map((budget) => (
+                <div key={budget.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex-1">
+                    <BudgetProgressBar
+                      category={getCategoryById(budget.categoryId)}
+                      progress={getBudgetProgress(budget, budgetData)}
+                      currency={baseCurrency}
+                    />
+                    {budget.rollover && (
+                      <p className="text-xs text-neutral-light mt-1">Acumula saldo do mês anterior</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(budget)}>
+                      Editar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleDelete(budget)}
+                    >
+                      Excluir
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center py-8 text-neutral-light">
+              <PiggyBank className="h-8 w-8 mb-2" />
+              <p>Nenhum orçamento definido para este mês</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Budgets;
@@ -0,0 +1,260 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { useFinance } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, CheckCircle2, Loader2, TrendingUp } from 'lucide-react';
+import {
+  FORECAST_DAYS,
+  ForecastSource,
+  getCashFlowForecast,
+  getDefaultBillAccountId,
+  isCashAccount,
+} from '@/lib/cashFlowForecast';
+import { formatCurrency } from '@/lib/currency';
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82ca9d'];
+
+const sourceLabels: Record<ForecastSource, string> = {
+  transaction: 'Lançamento futuro',
+  bill: 'Conta a pagar',
+  scheduled: 'Agendamento',
+  pending: 'Aguardando confirmação',
+};
+
+const CashFlowForecast = () => {
+  const {
+    accounts,
+    transactions,
+    bills,
+    billPayments,
+    scheduledTransactions,
+    pendingTransactions,
+    exchangeRates,
+    baseCurrency,
+    getAccountById,
+    loading,
+    billsLoading,
+  } = useFinance();
+  const cashAccounts = accounts.filter(isCashAccount);
+  const [billAccountId, setBillAccountId] = useState('');
+
+  const selectedBillAccountId = billAccountId || getDefaultBillAccountId(accounts);
+
+  const forecast = useMemo(
+    () =>
+      getCashFlowForecast({
+        accounts,
+        transactions,
+        bills,
+        billPayments,
+        scheduledTransactions,
+        pendingTransactions,
+        billAccountId: selectedBillAccountId,
+        rates: exchangeRates,
+        currency: baseCurrency,
+      }),
+    [
+      accounts,
+      transactions,
+      bills,
+      billPayments,
+      scheduledTransactions,
+      pendingTransactions,
+      selectedBillAccountId,
+      exchangeRates,
+      baseCurrency,
+    ]
+  );
+
+  const chartData = forecast.days.map((day) => ({
+    date: format(day.date, 'dd/MM'),
+    total: day.total,
+    ...Object.fromEntries(cashAccounts.map((a) => [a.id, day.balances[a.id]])),
+  }));
+
+  const negativeAccount = forecast.firstNegative ? getAccountById(forecast.firstNegative.accountId) : undefined;
+  const lastDay = forecast.days[forecast.days.length - 1];
+  const lowestDay = forecast.days.reduce(
+    (lowest, day) => (lowest === null || day.total < lowest.total ? day : lowest),
+    null as (typeof forecast.days)[number] | null
+  );
+  const upcomingDays = forecast.days.filter((day) => day.events.length > 0);
+
+  if (loading || billsLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Previsão de Caixa"
+        description={`Saldo projetado para os próximos ${FORECAST_DAYS} dias`}
+      />
+
+      {forecast.firstNegative ? (
+        <div className="flex items-start gap-3 rounded-md border border-red-200 bg-red-50 p-4 text-red-700">
+          <AlertTriangle className="mt-0.5 shrink-0" size={20} />
+          <div>
+            <p className="font-medium">
+              {negativeAccount?.name} ficará negativa em{' '}
+              {format(forecast.firstNegative.date, "dd 'de' MMMM", { locale: ptBR })}
+            </p>
+            <p className="text-sm">
+              Saldo projetado de {formatCurrency(forecast.firstNegative.balance, negativeAccount?.currency)} nesse dia.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 rounded-md border border-green-200 bg-green-50 p-4 text-green-700">
+          <CheckCircle2 className="shrink-0" size={20} />
+          <p className="font-medium">Nenhuma conta fica negativa nos próximos {FORECAST_DAYS} dias.</p>
+        </div>
+      )}
+
+      {forecast.missing.length > 0 && (
+        <div className="bg-yellow-100 border-l-4 border-yellow-500 p-4 rounded">
+          <p className="text-yellow-800">
+            Sem cotação de {forecast.missing.join(', ')} para {baseCurrency}: esses valores ficaram fora da previsão.
+            Cadastre as cotações em <a href="/contas" className="underline">Contas</a>.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <p className="text-sm text-neutral-light">Saldo hoje</p>
+          <h3 className="text-2xl font-bold mt-1">{formatCurrency(forecast.days[0]?.total ?? 0, baseCurrency)}</h3>
+        </Card>
+        <Card>
+          <p className="text-sm text-neutral-light">Menor saldo previsto</p>
+          <h3 className={`text-2xl font-bold mt-1 ${lowestDay && lowestDay.total < 0 ? 'text-red-500' : ''}`}>
+            {formatCurrency(lowestDay?.total ?? 0, baseCurrency)}
+          </h3>
+          {lowestDay && <p className="text-xs text-neutral-light">{format(lowestDay.date, 'dd/MM/yyyy')}</p>}
+        </Card>
+        <Card>
+          <p className="text-sm text-neutral-light">Saldo em {FORECAST_DAYS} dias</p>
+          <h3 className={`text-2xl font-bold mt-1 ${lastDay && lastDay.total < 0 ? 'text-red-500' : ''}`}>
+            {formatCurrency(lastDay?.total ?? 0, baseCurrency)}
+          </h3>
+        </Card>
+      </div>
+
+      <Card title="Saldo Projetado" icon={<TrendingUp size={18} />}>
+        <div className="mb-4 max-w-xs space-y-2">
+          <Label htmlFor="billAccount">Pagar contas a pagar com</Label>
+          <select
+            id="billAccount"
+            value={selectedBillAccountId ?? ''}
+            onChange={(e) => setBillAccountId(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {cashAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="h-80 w-full">
+          {cashAccounts.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <XAxis dataKey="date" minTickGap={20} />
+                <YAxis tickFormatter={(value) => formatCurrency(Number(value), baseCurrency)} width={100} />
+                {/* The total is in the base currency, each account line in its own */}
+                <Tooltip
+                  formatter={(value, _name, item) =>
+                    formatCurrency(Number(value), getAccountById(String(item.dataKey))?.currency ?? baseCurrency)
+                  }
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="#ff4d4f" strokeDasharray="4 4" />
+                {forecast.firstNegative && (
+                  <ReferenceLine
+                    x={format(forecast.firstNegative.date, 'dd/MM')}
+                    stroke="#ff4d4f"
+                    label={{ value: 'Saldo negativo', position: 'top', fill: '#ff4d4f' }}
+                  />
+                )}
+                <Line type="stepAfter" dataKey="total" name="Total" stroke="#6d28d9" strokeWidth={2} dot={false} />
+                {cashAccounts.length > 1 &&
+                  cashAccounts.map((account, index) => (
+                    <Line
+                      key={account.id}
+                      type="stepAfter"
+                      dataKey={account.id}
+                      name={account.name}
+                      stroke={COLORS[index % COLORS.length]}
+                      dot={false}
+                    />
+                  ))}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <p className="text-neutral-light">Cadastre uma conta para ver a previsão</p>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <Card title="Movimentações Previstas">
+        {upcomingDays.length > 0 ? (
+          <div className="space-y-4">
+            {upcomingDays.map((day) => (
+              <div key={day.date.toISOString()}>
+                <div className="flex justify-between items-center border-b pb-1 mb-2">
+                  <p className="font-medium">{format(day.date, "EEEE, dd 'de' MMMM", { locale: ptBR })}</p>
+                  <p className={`text-sm ${day.total < 0 ? 'text-red-500 font-medium' : 'text-neutral-light'}`}>
+                    Saldo: {formatCurrency(day.total, baseCurrency)}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  {day.events.map((event, index) => (
+                    <div key={index} className="flex justify-between items-center text-sm">
+                      <div>
+                        <p>{event.description}</p>
+                        <p className="text-xs text-neutral-light">
+                          {sourceLabels[event.source]} ·{' '}
+                          {Object.keys(event.changes)
+                            .map((accountId) => getAccountById(accountId)?.name)
+                            .filter(Boolean)
+                            .join(' → ')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        {Object.entries(event.changes).map(([accountId, amount]) => (
+                          <p key={accountId} className={amount < 0 ? 'text-red-500' : 'text-green-500'}>
+                            {amount > 0 ? '+' : ''}
+                            {formatCurrency(amount, getAccountById(accountId)?.currency)}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center py-8 text-neutral-light">
+            Nenhuma movimentação prevista nos próximos {FORECAST_DAYS} dias
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default CashFlowForecast;
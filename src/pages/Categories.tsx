@@ -1,30 +1,88 @@
 
 import { useState } from 'react';
-import { useFinance, TransactionType } from '@/contexts/FinanceContext';
+import { useFinance, Category, CategoryType } from '@/contexts/FinanceContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import Card from '@/components/Card';
 import PageHeader from '@/components/PageHeader';
-import { ArrowUpCircle, ArrowDownCircle, PlusCircle, Loader2 } from 'lucide-react';
+import { ArrowUpCircle, ArrowDownCircle, PlusCircle, Loader2, CornerDownRight } from 'lucide-react';
+import { getCategoryTree, hasSubcategories } from '@/lib/categoryTree';
+import CategoryEditDialog from '@/components/CategoryEditDialog';
+
+interface CategoryRowProps {
+  category: Category;
+  // Top-level categories it can be moved under; empty when it has subcategories
+  moveOptions: Category[];
+  onMove: (category: Category, parentId: string) => void;
+  onEdit: (category: Category) => void;
+  onDelete: (id: string) => void;
+  onAddSubcategory?: (parent: Category) => void;
+}
+
+const CategoryRow = ({ category, moveOptions, onMove, onEdit, onDelete, onAddSubcategory }: CategoryRowProps) => (
+  <div className="p-2 rounded-lg flex flex-wrap justify-between items-center gap-2 hover:bg-gray-50">
+    <div className="flex items-center gap-2">
+      <span className="text-xl">{category.icon}</span>
+      <span>{category.name}</span>
+    </div>
+    <div className="flex items-center gap-2">
+      {(moveOptions.length > 0 || category.parentId) && (
+        <select
+          aria-label={`Mover ${category.name}`}
+          value={category.parentId ?? ''}
+          onChange={(e) => onMove(category, e.target.value)}
+          className="px-2 py-1 border rounded-md text-xs bg-white"
+        >
+          <option value="">Categoria principal</option>
+          {moveOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              Em {option.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {onAddSubcategory && (
+        <Button variant="ghost" size="sm" onClick={() => onAddSubcategory(category)}>
+          <PlusCircle className="mr-1 h-4 w-4" />
+          Subcategoria
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={() => onEdit(category)}>
+        Editar
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-red-500 hover:text-red-700"
+        onClick={() => onDelete(category.id)}
+      >
+        Excluir
+      </Button>
+    </div>
+  </div>
+);
 
 const Categories = () => {
-  const { categories, addCategory, deleteCategory, loading } = useFinance();
+  const { categories, addCategory, editCategory, deleteCategory, loading } = useFinance();
   const [showForm, setShowForm] = useState(false);
   const [name, setName] = useState('');
   const [icon, setIcon] = useState('🔹');
-  const [type, setType] = useState<TransactionType>('expense');
-  const [activeTab, setActiveTab] = useState<TransactionType>('expense');
+  const [type, setType] = useState<CategoryType>('expense');
+  const [parentId, setParentId] = useState('');
+  const [activeTab, setActiveTab] = useState<CategoryType>('expense');
   const [submitting, setSubmitting] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim() && icon) {
       setSubmitting(true);
       try {
-        await addCategory({ name, icon, type });
+        await addCategory({ name, icon, type, parentId: parentId || null });
         setName('');
         setIcon('🔹');
+        setParentId('');
         setShowForm(false);
       } catch (error) {
         console.error('Error adding category:', error);
@@ -35,6 +93,26 @@ const Categories = () => {
   };
 
   const filteredCategories = categories.filter(cat => cat.type === activeTab);
+  const categoryTree = getCategoryTree(filteredCategories);
+  // Subcategories hang from top-level categories of the same type
+  const parentOptions = (categoryType: CategoryType, excludeId?: string) =>
+    getCategoryTree(categories.filter(c => c.type === categoryType))
+      .map(node => node.category)
+      .filter(c => c.id !== excludeId);
+
+  const openSubcategoryForm = (parent: Category) => {
+    setType(parent.type);
+    setParentId(parent.id);
+    setShowForm(true);
+  };
+
+  const handleTypeChange = (newType: CategoryType) => {
+    setType(newType);
+    setParentId('');
+  };
+
+  const handleMove = (category: Category, newParentId: string) =>
+    editCategory(category.id, { ...category, parentId: newParentId || null });
 
   // Common emoji sets for categories
   const expenseEmojis = ['🍔', '🚗', '🏠', '🏥', '📚', '🛍️', '💊', '📱', '💇', '✈️'];
@@ -59,7 +137,10 @@ const Categories = () => {
         action={
           <Button 
             className="bg-primary hover:bg-primary/90"
-            onClick={() => setShowForm(!showForm)}
+            onClick={() => {
+              setParentId('');
+              setShowForm(!showForm);
+            }}
           >
             <PlusCircle className="mr-2 h-4 w-4" />
             Nova Categoria
@@ -130,7 +211,7 @@ const Categories = () => {
                   type="button"
                   variant={type === 'expense' ? 'default' : 'outline'}
                   className={type === 'expense' ? 'bg-expense text-white' : ''}
-                  onClick={() => setType('expense')}
+                  onClick={() => handleTypeChange('expense')}
                 >
                   <ArrowDownCircle className="mr-2 h-4 w-4" />
                   Despesa
@@ -140,12 +221,29 @@ const Categories = () => {
                   type="button"
                   variant={type === 'income' ? 'default' : 'outline'}
                   className={type === 'income' ? 'bg-income text-white' : ''}
-                  onClick={() => setType('income')}
+                  onClick={() => handleTypeChange('income')}
                 >
                   <ArrowUpCircle className="mr-2 h-4 w-4" />
                   Receita
                 </Button>
               </div>
+
+              <div className="space-y-2 md:w-1/2">
+                <Label htmlFor="parent">Subcategoria de</Label>
+                <select
+                  id="parent"
+                  value={parentId}
+                  onChange={(e) => setParentId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md"
+                >
+                  <option value="">Nenhuma (categoria principal)</option>
+                  {parentOptions(type).map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.icon} {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               
               <div className="flex justify-end space-x-2">
                 <Button 
@@ -176,25 +274,32 @@ const Categories = () => {
         )}
         
         <Card>
-          {filteredCategories.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-              {filteredCategories.map((category) => (
-                <div 
-                  key={category.id} 
-                  className="p-3 border rounded-lg flex justify-between items-center hover:bg-gray-50"
-                >
-                  <div className="flex items-center gap-2">
-                    <span className="text-xl">{category.icon}</span>
-                    <span>{category.name}</span>
-                  </div>
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    className="text-red-500 hover:text-red-700"
-                    onClick={() => deleteCategory(category.id)}
-                  >
-                    Excluir
-                  </Button>
+          {categoryTree.length > 0 ? (
+            <div className="divide-y">
+              {categoryTree.map(({ category, children }) => (
+                <div key={category.id} className="py-2">
+                  <CategoryRow
+                    category={category}
+                    moveOptions={hasSubcategories(categories, category.id) ? [] : parentOptions(category.type, category.id)}
+                    onMove={handleMove}
+                    onEdit={setEditing}
+                    onDelete={deleteCategory}
+                    onAddSubcategory={openSubcategoryForm}
+                  />
+                  {children.map((child) => (
+                    <div key={child.id} className="flex items-center pl-6">
+                      <CornerDownRight className="h-4 w-4 text-neutral-light shrink-0" />
+                      <div className="flex-1">
+                        <CategoryRow
+                          category={child}
+                          moveOptions={parentOptions(child.type, child.id)}
+                          onMove={handleMove}
+                          onEdit={setEditing}
+                          onDelete={deleteCategory}
+                        />
+                      </div>
+                    </div>
+                  ))}
                 </div>
               ))}
             </div>
@@ -205,6 +310,15 @@ const Categories = () => {
           )}
         </Card>
       </div>
+
+      {editing && (
+        <CategoryEditDialog
+          key={editing.id}
+          category={editing}
+          emojis={editing.type === 'expense' ? expenseEmojis : incomeEmojis}
+          onClose={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,508 @@
+
+import { useState } from 'react';
+import {
+  useFinance,
+  CategorizationRule,
+  CategoryChange,
+  RuleMatchType,
+} from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, PlusCircle, RefreshCw, Wand2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { isValidRegex } from '@/lib/categorizationRules';
+import { isSplitTransaction } from '@/lib/transactionSplits';
+import { formatCurrency } from '@/lib/currency';
+
+const matchTypeOptions: { id: RuleMatchType; name: string }[] = [
+  { id: 'contains', name: 'Descrição contém' },
+  { id: 'regex', name: 'Expressão regular' },
+];
+
+const emptyForm = {
+  name: '',
+  categoryId: '',
+  matchType: 'contains' as RuleMatchType,
+  pattern: '',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  priority: '0',
+};
+
+const CategorizationRules = () => {
+  const {
+    transactions,
+    categories,
+    accounts,
+    categorizationRules,
+    addCategorizationRule,
+    editCategorizationRule,
+    deleteCategorizationRule,
+    getRuleCategoryId,
+    recategorizeTransactions,
+    getCategoryById,
+    getAccountById,
+    loading,
+  } = useFinance();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<CategoryChange[] | null>(null);
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
+
+  const sortedRules = [...categorizationRules].sort((a, b) => a.priority - b.priority);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setShowForm(false);
+    setError(null);
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setForm({
+      name: rule.name,
+      categoryId: rule.categoryId,
+      matchType: rule.matchType,
+      pattern: rule.pattern || '',
+      minAmount: rule.minAmount === null ? '' : String(rule.minAmount),
+      maxAmount: rule.maxAmount === null ? '' : String(rule.maxAmount),
+      accountId: rule.accountId || '',
+      priority: String(rule.priority),
+    });
+    setEditingId(rule.id);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const minAmount = form.minAmount ? parseFloat(form.minAmount) : null;
+    const maxAmount = form.maxAmount ? parseFloat(form.maxAmount) : null;
+    const pattern = form.pattern.trim() || null;
+
+    if (!form.name.trim()) {
+      setError('Digite um nome para a regra.');
+      return;
+    }
+
+    if (!form.categoryId) {
+      setError('Selecione uma categoria.');
+      return;
+    }
+
+    if (!pattern && minAmount === null && maxAmount === null && !form.accountId) {
+      setError('Defina ao menos uma condição: descrição, faixa de valor ou conta.');
+      return;
+    }
+
+    if (pattern && form.matchType === 'regex' && !isValidRegex(pattern)) {
+      setError('Expressão regular inválida.');
+      return;
+    }
+
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      setError('O valor mínimo deve ser menor ou igual ao valor máximo.');
+      return;
+    }
+
+    const rule: Omit<CategorizationRule, 'id'> = {
+      name: form.name.trim(),
+      categoryId: form.categoryId,
+      matchType: form.matchType,
+      pattern,
+      minAmount,
+      maxAmount,
+      accountId: form.accountId || null,
+      priority: parseInt(form.priority) || 0,
+    };
+
+    setSubmitting(true);
+    try {
+      if (editingId) {
+        await editCategorizationRule(editingId, rule);
+      } else {
+        await addCategorizationRule(rule);
+      }
+      resetForm();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (window.confirm(`Tem certeza que deseja excluir a regra "${rule.name}"?`)) {
+      await deleteCategorizationRule(rule.id);
+    }
+  };
+
+  // Preview which past transactions would get a different category
+  const handlePreviewReapply = () => {
+    const changes: CategoryChange[] = [];
+
+    // Split transactions keep the categories of their lines
+    transactions.filter(transaction => !isSplitTransaction(transaction)).forEach(transaction => {
+      const categoryId = getRuleCategoryId(transaction);
+      if (categoryId && categoryId !== transaction.categoryId) {
+        changes.push({ transactionId: transaction.id, categoryId });
+      }
+    });
+
+    setPendingChanges(changes);
+    setSelectedChanges(new Set(changes.map(c => c.transactionId)));
+  };
+
+  const toggleChange = (transactionId: string, checked: boolean) => {
+    const next = new Set(selectedChanges);
+    if (checked) {
+      next.add(transactionId);
+    } else {
+      next.delete(transactionId);
+    }
+    setSelectedChanges(next);
+  };
+
+  const handleApplyChanges = async () => {
+    if (!pendingChanges) return;
+
+    setSubmitting(true);
+    try {
+      await recategorizeTransactions(
+        pendingChanges.filter(c => selectedChanges.has(c.transactionId))
+      );
+      setPendingChanges(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    const formatAmount = (value: number) =>
+      formatCurrency(value, rule.accountId ? getAccountById(rule.accountId)?.currency : undefined);
+
+    if (rule.pattern) {
+      conditions.push(
+        rule.matchType === 'regex' ? `descrição corresponde a /${rule.pattern}/` : `descrição contém "${rule.pattern}"`
+      );
+    }
+    if (rule.minAmount !== null) conditions.push(`valor ≥ ${formatAmount(rule.minAmount)}`);
+    if (rule.maxAmount !== null) conditions.push(`valor ≤ ${formatAmount(rule.maxAmount)}`);
+    if (rule.accountId) conditions.push(`conta ${getAccountById(rule.accountId)?.name || 'removida'}`);
+
+    return conditions.join(' e ');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando regras...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Regras de Categorização"
+        description="Categorize transações automaticamente pela descrição, valor ou conta"
+        action={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreviewReapply} disabled={categorizationRules.length === 0}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Reaplicar às transações
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              onClick={() => (showForm ? resetForm() : setShowForm(true))}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Nova Regra
+            </Button>
+          </div>
+        }
+      />
+
+      <div className="space-y-6">
+        {showForm && (
+          <Card title={editingId ? 'Editar Regra' : 'Nova Regra'}>
+            {error && (
+              <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleName">Nome</Label>
+                  <Input
+                    id="ruleName"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Ex: Supermercados"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ruleCategory">Categoria</Label>
+                  <select
+                    id="ruleCategory"
+                    value={form.categoryId}
+                    onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">Selecione uma categoria</option>
+                    <optgroup label="Despesas">
+                      {categories.filter(c => c.type === 'expense').map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Receitas">
+                      {categories.filter(c => c.type === 'income').map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMatchType">Tipo de correspondência</Label>
+                  <select
+                    id="ruleMatchType"
+                    value={form.matchType}
+                    onChange={(e) => setForm({ ...form, matchType: e.target.value as RuleMatchType })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    {matchTypeOptions.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rulePattern">
+                    {form.matchType === 'regex' ? 'Expressão' : 'Texto'} (opcional)
+                  </Label>
+                  <Input
+                    id="rulePattern"
+                    value={form.pattern}
+                    onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                    placeholder={form.matchType === 'regex' ? 'Ex: ^(uber|99)' : 'Ex: mercado'}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMinAmount">Valor mínimo (opcional)</Label>
+                  <Input
+                    id="ruleMinAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.minAmount}
+                    onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ruleMaxAmount">Valor máximo (opcional)</Label>
+                  <Input
+                    id="ruleMaxAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.maxAmount}
+                    onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ruleAccount">Conta (opcional)</Label>
+                  <select
+                    id="ruleAccount"
+                    value={form.accountId}
+                    onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">Qualquer conta</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rulePriority">Prioridade</Label>
+                  <Input
+                    id="rulePriority"
+                    type="number"
+                    step="1"
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  />
+                  <p className="text-xs text-neutral-light">
+                    Regras com número menor são verificadas primeiro.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm} disabled={submitting}>
+                  Cancelar
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    'Salvar Regra'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {pendingChanges && (
+          <Card title="Reaplicar Regras" icon={<RefreshCw size={18} />}>
+            {pendingChanges.length > 0 ? (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="py-3 px-4 w-10"></th>
+                        <th className="text-left py-3 px-4 font-medium text-neutral-light">Data</th>
+                        <th className="text-left py-3 px-4 font-medium text-neutral-light">Descrição</th>
+                        <th className="text-left py-3 px-4 font-medium text-neutral-light">Categoria atual</th>
+                        <th className="text-left py-3 px-4 font-medium text-neutral-light">Nova categoria</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pendingChanges.map((change) => {
+                        const transaction = transactions.find(t => t.id === change.transactionId);
+                        const currentCategory = transaction?.categoryId ? getCategoryById(transaction.categoryId) : undefined;
+                        const newCategory = getCategoryById(change.categoryId);
+
+                        return (
+                          <tr key={change.transactionId} className="border-b">
+                            <td className="py-3 px-4">
+                              <Checkbox
+                                checked={selectedChanges.has(change.transactionId)}
+                                onCheckedChange={(checked) => toggleChange(change.transactionId, checked === true)}
+                              />
+                            </td>
+                            <td className="py-3 px-4 whitespace-nowrap">
+                              {transaction && format(new Date(transaction.date), 'dd/MM/yyyy')}
+                            </td>
+                            <td className="py-3 px-4">{transaction?.description}</td>
+                            <td className="py-3 px-4 text-neutral-light">
+                              {currentCategory ? `${currentCategory.icon} ${currentCategory.name}` : '—'}
+                            </td>
+                            <td className="py-3 px-4 font-medium">
+                              {newCategory && `${newCategory.icon} ${newCategory.name}`}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex justify-end space-x-2 mt-4">
+                  <Button variant="outline" onClick={() => setPendingChanges(null)} disabled={submitting}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    className="bg-primary hover:bg-primary/90"
+                    onClick={handleApplyChanges}
+                    disabled={submitting || selectedChanges.size === 0}
+                  >
+                    {submitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Aplicando...
+                      </>
+                    ) : (
+                      `Aplicar a ${selectedChanges.size} transações`
+                    )}
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex flex-col items-center py-6">
+                <p className="text-neutral-light">Todas as transações já estão de acordo com as regras.</p>
+                <Button variant="outline" className="mt-4" onClick={() => setPendingChanges(null)}>
+                  Fechar
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+
+        <Card>
+          {sortedRules.length > 0 ? (
+            <div className="divide-y">
+              {sortedRules.map((rule) => {
+                const category = getCategoryById(rule.categoryId);
+
+                return (
+                  <div key={rule.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {rule.name}
+                        <span className="ml-2 text-xs text-neutral-light">prioridade {rule.priority}</span>
+                      </p>
+                      <p className="text-sm text-neutral-light">
+                        Se {describeRule(rule)} → {category ? `${category.icon} ${category.name}` : 'categoria removida'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                        Editar
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => handleDelete(rule)}
+                      >
+                        Excluir
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center py-8 text-neutral-light">
+              <Wand2 className="h-8 w-8 mb-2" />
+              <p>Nenhuma regra de categorização cadastrada</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CategorizationRules;
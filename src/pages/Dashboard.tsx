@@ -4,66 +4,106 @@ import { useFinance } from '@/contexts/FinanceContext';
 import { BarChart, Bar, PieChart, Pie, Cell, ResponsiveContainer, XAxis, Tooltip, Legend } from 'recharts';
 import PageHeader from '@/components/PageHeader';
 import Card from '@/components/Card';
-import { ArrowDownCircle, ArrowUpCircle, Wallet, Loader2, Calendar } from 'lucide-react';
+import { ArrowDownCircle, ArrowUpCircle, ArrowLeft, ArrowLeftRight, Wallet, Loader2, Calendar, PiggyBank, TrendingUp } from 'lucide-react';
 import { format, isSameMonth, isAfter, isBefore, startOfToday } from 'date-fns';
+import { isOpenBill, getRemainingAmount } from '@/lib/bills';
+import { getBudgetProgress, getMonthKey } from '@/lib/budgets';
+import BudgetProgressBar from '@/components/BudgetProgressBar';
+import { getCategoryLines } from '@/lib/transactionSplits';
+import { getSubcategories, rollUpCategoryTotals } from '@/lib/categoryTree';
+import { FORECAST_DAYS, getCashFlowForecast, getDefaultBillAccountId } from '@/lib/cashFlowForecast';
+import { CURRENCIES, DEFAULT_CURRENCY, convertAmount, formatCurrency, sumInCurrency } from '@/lib/currency';
 
 const Dashboard = () => {
-  const { transactions, categories, accounts, bills, loading, billsLoading } = useFinance();
+  const {
+    transactions,
+    categories,
+    accounts,
+    bills,
+    billPayments,
+    budgets,
+    scheduledTransactions,
+    pendingTransactions,
+    exchangeRates,
+    baseCurrency,
+    setBaseCurrency,
+    loading,
+    billsLoading,
+  } = useFinance();
   const [totalIncome, setTotalIncome] = useState(0);
   const [totalExpense, setTotalExpense] = useState(0);
-  const [categoryData, setCategoryData] = useState<any[]>([]);
+  // Expenses by category id in the base currency, before rolling up
+  const [categoryTotals, setCategoryTotals] = useState<Record<string, number>>({});
+  // Parent category whose subcategories the pie chart is showing
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null);
   const [monthlyData, setMonthlyData] = useState<any[]>([]);
   const [totalBalance, setTotalBalance] = useState(0);
   const [upcomingBills, setUpcomingBills] = useState<any[]>([]);
   const [overdueBills, setOverdueBills] = useState<any[]>([]);
   const [todayBills, setTodayBills] = useState<any[]>([]);
+  const [missingCurrencies, setMissingCurrencies] = useState<string[]>([]);
 
   useEffect(() => {
+    const missing = new Set<string>();
+    const currencyOf = (accountId: string) =>
+      accounts.find(a => a.id === accountId)?.currency ?? DEFAULT_CURRENCY;
+
+    // Amounts are in the currency of their account; totals use the base
+    // currency at the rate of each transaction's date
+    const toBase = (transaction: { amount: number; accountId: string; date: Date }) => {
+      const currency = currencyOf(transaction.accountId);
+      const converted = convertAmount(transaction.amount, currency, baseCurrency, exchangeRates, transaction.date);
+      if (converted === null) {
+        missing.add(currency);
+        return 0;
+      }
+      return converted;
+    };
+
     // Calculate totals
     const income = transactions
       .filter(t => t.type === 'income')
-      .reduce((acc, t) => acc + t.amount, 0);
+      .reduce((acc, t) => acc + toBase(t), 0);
     
     const expense = transactions
       .filter(t => t.type === 'expense')
-      .reduce((acc, t) => acc + t.amount, 0);
+      .reduce((acc, t) => acc + toBase(t), 0);
     
     setTotalIncome(income);
     setTotalExpense(expense);
     
     // Calculate total balance from all accounts
-    const balance = accounts.reduce((acc, account) => acc + account.balance, 0);
-    setTotalBalance(balance);
+    const balance = sumInCurrency(
+      accounts.map(account => ({ amount: account.balance, currency: account.currency })),
+      baseCurrency,
+      exchangeRates
+    );
+    balance.missing.forEach(currency => missing.add(currency));
+    setTotalBalance(balance.total);
 
     // Prepare category data for pie chart
     const expensesByCategory = transactions
       .filter(t => t.type === 'expense')
       .reduce((acc, transaction) => {
-        const category = categories.find(c => c.id === transaction.categoryId);
-        if (category) {
-          acc[category.name] = (acc[category.name] || 0) + transaction.amount;
-        }
+        // Split transactions count each line under its own category
+        getCategoryLines(transaction).forEach(line => {
+          if (categories.some(c => c.id === line.categoryId)) {
+            acc[line.categoryId] = (acc[line.categoryId] || 0) + toBase({ ...transaction, amount: line.amount });
+          }
+        });
         return acc;
       }, {} as Record<string, number>);
 
-    const categoryPieData = Object.entries(expensesByCategory).map(([name, value]) => {
-      const category = categories.find(c => c.name === name);
-      return {
-        name,
-        value,
-        icon: category?.icon || '🔹',
-      };
-    });
-    
-    setCategoryData(categoryPieData);
+    setCategoryTotals(expensesByCategory);
 
     // Prepare monthly data for line chart
     const sixMonthsAgo = new Date();
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 5);
     sixMonthsAgo.setDate(1);
 
+    // Transfers only move money between accounts, so they stay out of the chart
     const monthlyTransactions = transactions.filter(t => 
-      new Date(t.date) >= sixMonthsAgo
+      t.type !== 'transfer' && new Date(t.date) >= sixMonthsAgo
     );
 
     const monthlyGrouped = monthlyTransactions.reduce((acc, transaction) => {
@@ -74,9 +114,9 @@ const Dashboard = () => {
       }
       
       if (transaction.type === 'income') {
-        acc[month].income += transaction.amount;
+        acc[month].income += toBase(transaction);
       } else {
-        acc[month].expense += transaction.amount;
+        acc[month].expense += toBase(transaction);
       }
       
       return acc;
@@ -93,7 +133,7 @@ const Dashboard = () => {
     
     const upcoming = bills
       .filter(b => 
-        b.status === 'pending' &&
+        isOpenBill(b) &&
         isAfter(new Date(b.dueDate), today) && 
         isBefore(new Date(b.dueDate), sevenDaysFromNow)
       )
@@ -103,7 +143,7 @@ const Dashboard = () => {
     // Overdue bills
     const overdue = bills
       .filter(b => 
-        b.status === 'pending' && 
+        isOpenBill(b) && 
         isBefore(new Date(b.dueDate), today)
       )
       .slice(0, 3);
@@ -113,15 +153,74 @@ const Dashboard = () => {
     const due = bills
       .filter(b => {
         const billDate = new Date(b.dueDate);
-        return b.status === 'pending' && 
+        return isOpenBill(b) && 
           billDate.getDate() === today.getDate() &&
           billDate.getMonth() === today.getMonth() &&
           billDate.getFullYear() === today.getFullYear();
       })
       .slice(0, 3);
     setTodayBills(due);
+    setMissingCurrencies([...missing]);
 
-  }, [transactions, categories, accounts, bills]);
+  }, [transactions, categories, accounts, bills, baseCurrency, exchangeRates]);
+
+  // Subcategories roll up into their parent; clicking a parent with
+  // subcategories drills down into them
+  const drillCategory = categories.find(c => c.id === drillCategoryId);
+  const categoryData = Object.entries(rollUpCategoryTotals(categoryTotals, categories, drillCategory?.id ?? null))
+    .map(([categoryId, value]) => {
+      const category = categories.find(c => c.id === categoryId);
+      const hasChildren = !drillCategory && getSubcategories(categories, categoryId).length > 0;
+      return {
+        categoryId,
+        // Within a drill-down, what was assigned to the parent itself
+        name: drillCategory && categoryId === drillCategory.id ? `${drillCategory.name} (geral)` : category?.name ?? '',
+        value,
+        icon: category?.icon || '🔹',
+        hasChildren,
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  // Current month budgets, the ones closest to their limit first
+  const currentMonth = getMonthKey(new Date());
+  const budgetProgress = budgets
+    .filter(b => b.month === currentMonth)
+    .map(budget => ({
+      budget,
+      progress: getBudgetProgress(budget, {
+        budgets,
+        transactions,
+        categories,
+        accounts,
+        rates: exchangeRates,
+        currency: baseCurrency,
+      }),
+    }))
+    .sort((a, b) => b.progress.percent - a.progress.percent);
+
+  const forecast = getCashFlowForecast({
+    accounts,
+    transactions,
+    bills,
+    billPayments,
+    scheduledTransactions,
+    pendingTransactions,
+    billAccountId: getDefaultBillAccountId(accounts),
+    rates: exchangeRates,
+    currency: baseCurrency,
+  });
+  const negativeAccount = forecast.firstNegative
+    ? accounts.find(a => a.id === forecast.firstNegative?.accountId)
+    : null;
+  const forecastTotal = sumInCurrency(
+    Object.entries(forecast.days[forecast.days.length - 1]?.balances ?? {}).map(([accountId, amount]) => ({
+      amount,
+      currency: accounts.find(a => a.id === accountId)?.currency ?? DEFAULT_CURRENCY,
+    })),
+    baseCurrency,
+    exchangeRates
+  );
 
   const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#a4de6c', '#d0ed57'];
 
@@ -136,7 +235,33 @@ const Dashboard = () => {
 
   return (
     <div className="space-y-6">
-      <PageHeader title="Visão Geral" description="Acompanhe suas finanças em um só lugar" />
+      <PageHeader
+        title="Visão Geral"
+        description="Acompanhe suas finanças em um só lugar"
+        action={
+          <select
+            aria-label="Moeda dos totais"
+            value={baseCurrency}
+            onChange={(e) => setBaseCurrency(e.target.value)}
+            className="px-3 py-2 border rounded-md bg-white"
+          >
+            {CURRENCIES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.code} - {option.name}
+              </option>
+            ))}
+          </select>
+        }
+      />
+
+      {missingCurrencies.length > 0 && (
+        <div className="bg-yellow-100 border-l-4 border-yellow-500 p-4 rounded">
+          <p className="text-yellow-800">
+            Sem cotação de {missingCurrencies.join(', ')} para {baseCurrency}: esses valores ficaram fora dos totais.
+            Cadastre as cotações em <a href="/contas" className="underline">Contas</a>.
+          </p>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="bg-gradient-to-br from-primary to-purple-700 text-white">
@@ -144,7 +269,7 @@ const Dashboard = () => {
             <div>
               <p className="text-sm text-white/80">Saldo Total</p>
               <h3 className="text-2xl font-bold mt-1">
-                {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(totalBalance)}
+                {formatCurrency(totalBalance, baseCurrency)}
               </h3>
             </div>
             <Wallet size={32} className="text-white/80" />
@@ -156,7 +281,7 @@ const Dashboard = () => {
             <div>
               <p className="text-sm text-white/80">Receitas</p>
               <h3 className="text-2xl font-bold mt-1">
-                {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(totalIncome)}
+                {formatCurrency(totalIncome, baseCurrency)}
               </h3>
             </div>
             <ArrowUpCircle size={32} className="text-white/80" />
@@ -168,7 +293,7 @@ const Dashboard = () => {
             <div>
               <p className="text-sm text-white/80">Despesas</p>
               <h3 className="text-2xl font-bold mt-1">
-                {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(totalExpense)}
+                {formatCurrency(totalExpense, baseCurrency)}
               </h3>
             </div>
             <ArrowDownCircle size={32} className="text-white/80" />
@@ -195,7 +320,7 @@ const Dashboard = () => {
                       </div>
                     </div>
                     <span className="font-medium text-red-500">
-                      {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(bill.amount)}
+                      {formatCurrency(getRemainingAmount(bill, billPayments))}
                     </span>
                   </div>
                 );
@@ -228,7 +353,7 @@ const Dashboard = () => {
                       </div>
                     </div>
                     <span className="font-medium text-orange-500">
-                      {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(bill.amount)}
+                      {formatCurrency(getRemainingAmount(bill, billPayments))}
                     </span>
                   </div>
                 );
@@ -261,7 +386,7 @@ const Dashboard = () => {
                       </div>
                     </div>
                     <span className="font-medium">
-                      {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(bill.amount)}
+                      {formatCurrency(getRemainingAmount(bill, billPayments))}
                     </span>
                   </div>
                 );
@@ -278,8 +403,62 @@ const Dashboard = () => {
         )}
       </div>
 
+      {accounts.length > 0 && (
+        <Card title="Previsão de Caixa" icon={<TrendingUp className={forecast.firstNegative ? 'text-red-500' : 'text-green-500'} />}>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+            {forecast.firstNegative ? (
+              <p className="text-red-500">
+                {negativeAccount?.name} deve ficar negativa em {format(forecast.firstNegative.date, 'dd/MM/yyyy')}
+              </p>
+            ) : (
+              <p className="text-neutral-light">
+                Saldo previsto em {FORECAST_DAYS} dias:{' '}
+                <span className="font-medium text-neutral">
+                  {formatCurrency(forecastTotal.total, baseCurrency)}
+                </span>
+              </p>
+            )}
+            <a href="/previsao" className="text-sm text-primary hover:underline">
+              Ver previsão
+            </a>
+          </div>
+        </Card>
+      )}
+
+      {budgetProgress.length > 0 && (
+        <Card title="Orçamentos do Mês" icon={<PiggyBank />}>
+          <div className="space-y-4">
+            {budgetProgress.map(({ budget, progress }) => (
+              <BudgetProgressBar
+                key={budget.id}
+                category={categories.find(c => c.id === budget.categoryId)}
+                progress={progress}
+                currency={baseCurrency}
+              />
+            ))}
+            <div className="pt-2 text-center">
+              <a href="/orcamentos" className="text-sm text-primary hover:underline">
+                Ver todos
+              </a>
+            </div>
+          </div>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card title="Gastos por Categoria">
+        <Card title={drillCategory ? `Gastos em ${drillCategory.icon} ${drillCategory.name}` : 'Gastos por Categoria'}>
+          {drillCategory ? (
+            <button
+              onClick={() => setDrillCategoryId(null)}
+              className="mb-2 flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <ArrowLeft className="h-4 w-4" /> Todas as categorias
+            </button>
+          ) : categoryData.some(entry => entry.hasChildren) && (
+            <p className="mb-2 text-xs text-neutral-light">
+              Clique em uma categoria com subcategorias para detalhá-la.
+            </p>
+          )}
           <div className="h-80 w-full">
             {categoryData.length > 0 ? (
               <ResponsiveContainer width="100%" height="100%">
@@ -293,13 +472,18 @@ const Dashboard = () => {
                     fill="#8884d8"
                     dataKey="value"
                     label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                    onClick={(entry) => entry.hasChildren && setDrillCategoryId(entry.categoryId)}
                   >
                     {categoryData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      <Cell
+                        key={`cell-${index}`}
+                        fill={COLORS[index % COLORS.length]}
+                        className={entry.hasChildren ? 'cursor-pointer' : undefined}
+                      />
                     ))}
                   </Pie>
                   <Tooltip 
-                    formatter={(value) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value))}
+                    formatter={(value) => formatCurrency(Number(value), baseCurrency)}
                   />
                   <Legend />
                 </PieChart>
@@ -327,7 +511,7 @@ const Dashboard = () => {
                 >
                   <XAxis dataKey="month" />
                   <Tooltip 
-                    formatter={(value) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value))}
+                    formatter={(value) => formatCurrency(Number(value), baseCurrency)}
                   />
                   <Legend />
                   <Bar dataKey="income" name="Receitas" fill="#52c41a" />
@@ -361,17 +545,28 @@ const Dashboard = () => {
                   .slice(0, 5)
                   .map((transaction) => {
                     const category = categories.find(c => c.id === transaction.categoryId);
+                    const account = accounts.find(a => a.id === transaction.accountId);
+                    const isTransfer = transaction.type === 'transfer';
                     return (
                       <tr key={transaction.id} className="border-b last:border-0 hover:bg-gray-50">
                         <td className="py-3">{transaction.description}</td>
                         <td className="py-3">{format(new Date(transaction.date), 'dd/MM/yyyy')}</td>
                         <td className="py-3 flex items-center gap-2">
-                          <span>{category?.icon}</span>
-                          {category?.name}
+                          {isTransfer ? (
+                            <>
+                              <ArrowLeftRight size={14} className="text-blue-600" />
+                              Transferência
+                            </>
+                          ) : (
+                            <>
+                              <span>{category?.icon}</span>
+                              {category?.name}
+                            </>
+                          )}
                         </td>
-                        <td className={`py-3 text-right ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                          {transaction.type === 'income' ? '+' : '-'} 
-                          {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(transaction.amount)}
+                        <td className={`py-3 text-right ${isTransfer ? 'text-blue-600' : transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {!isTransfer && (transaction.type === 'income' ? '+' : '-')} 
+                          {formatCurrency(transaction.amount, account?.currency)}
                         </td>
                       </tr>
                     );
@@ -0,0 +1,44 @@
+import { Link, useParams } from 'react-router-dom';
+import { useFinance } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import NewTransaction from '@/pages/NewTransaction';
+
+// The new transaction form, filled in with the transaction being edited
+const EditTransaction = () => {
+  const { id } = useParams<{ id: string }>();
+  const { transactions, loading } = useFinance();
+  const transaction = transactions.find(t => t.id === id);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  if (!transaction) {
+    return (
+      <div>
+        <PageHeader title="Editar Transação" />
+        <Card>
+          <div className="py-8 text-center space-y-4">
+            <p className="text-neutral-light">Transação não encontrada. Ela pode ter sido excluída.</p>
+            <Link to="/transacoes">
+              <Button variant="outline">Voltar para Transações</Button>
+            </Link>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  // Keyed so opening another transaction starts from its own values
+  return <NewTransaction key={transaction.id} transaction={transaction} />;
+};
+
+export default EditTransaction;
@@ -0,0 +1,366 @@
+import { createContext, useContext, useState, DragEvent } from 'react';
+import { format, isSameDay, isSameMonth, startOfMonth, startOfToday } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { DayProps } from 'react-day-picker';
+import { useFinance, Bill, Transaction } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import BillPaymentForm from '@/components/BillPaymentForm';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Check, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getRemainingAmount, isOpenBill } from '@/lib/bills';
+import { toCalendarDay } from '@/lib/creditCards';
+import { DEFAULT_CURRENCY, formatCurrency, sumInCurrency } from '@/lib/currency';
+
+type BillDisplayStatus = 'paid' | 'overdue' | 'today' | 'upcoming';
+
+const statusStyles: Record<BillDisplayStatus, string> = {
+  paid: 'bg-green-100 text-green-700 border-green-200',
+  overdue: 'bg-red-100 text-red-700 border-red-200',
+  today: 'bg-orange-100 text-orange-700 border-orange-200',
+  upcoming: 'bg-blue-100 text-blue-700 border-blue-200',
+};
+
+const statusLabels: Record<BillDisplayStatus, string> = {
+  paid: 'Paga',
+  overdue: 'Vencida',
+  today: 'Vence hoje',
+  upcoming: 'A vencer',
+};
+
+const getBillStatus = (bill: Bill): BillDisplayStatus => {
+  if (!isOpenBill(bill)) return 'paid';
+  const dueDay = toCalendarDay(bill.dueDate);
+  const today = startOfToday();
+  if (dueDay < today) return 'overdue';
+  if (isSameDay(dueDay, today)) return 'today';
+  return 'upcoming';
+};
+
+// Groups items by the local calendar day of their UTC-midnight date
+const groupByDay = <T,>(items: T[], getDate: (item: T) => Date) => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = format(toCalendarDay(getDate(item)), 'yyyy-MM-dd');
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+};
+
+interface CalendarDayContextValue {
+  billsByDay: Map<string, Bill[]>;
+  transactionsByDay: Map<string, Transaction[]>;
+  // Daily totals are converted to this currency
+  currency: string;
+  sumByType: (transactions: Transaction[], type: Transaction['type']) => number;
+  selectedDay: Date;
+  dropTarget: string | null;
+  onSelectDay: (day: Date) => void;
+  onPayBill: (billId: string) => void;
+  onDropTargetChange: (key: string | null) => void;
+  onDropBill: (event: DragEvent, day: Date) => void;
+}
+
+// DayPicker only passes the date to custom days, so the cells read the rest
+// from here. Keeping CalendarDay at module level stops the cells from
+// remounting (and cancelling a drag) on every render.
+const CalendarDayContext = createContext<CalendarDayContextValue | null>(null);
+
+const CalendarDay = ({ date, displayMonth }: DayProps) => {
+  const {
+    billsByDay,
+    transactionsByDay,
+    currency,
+    sumByType,
+    selectedDay,
+    dropTarget,
+    onSelectDay,
+    onPayBill,
+    onDropTargetChange,
+    onDropBill,
+  } = useContext(CalendarDayContext)!;
+  const key = format(date, 'yyyy-MM-dd');
+  const dayBills = billsByDay.get(key) ?? [];
+  const dayTransactions = transactionsByDay.get(key) ?? [];
+  const income = sumByType(dayTransactions, 'income');
+  const expense = sumByType(dayTransactions, 'expense');
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => onSelectDay(date)}
+      onKeyDown={(e) => e.key === 'Enter' && onSelectDay(date)}
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (dropTarget !== key) onDropTargetChange(key);
+      }}
+      onDragLeave={() => onDropTargetChange(null)}
+      onDrop={(e) => onDropBill(e, date)}
+      className={cn(
+        'h-24 md:h-28 p-1 text-left overflow-hidden cursor-pointer hover:bg-gray-50',
+        !isSameMonth(date, displayMonth) && 'opacity-40',
+        isSameDay(date, selectedDay) && 'bg-primary/5 ring-1 ring-primary',
+        dropTarget === key && 'bg-primary/10'
+      )}
+    >
+      <span
+        className={cn(
+          'text-xs font-medium',
+          isSameDay(date, startOfToday()) && 'rounded-full bg-primary text-white px-1.5'
+        )}
+      >
+        {date.getDate()}
+      </span>
+      <div className="mt-1 space-y-0.5">
+        {dayBills.slice(0, 2).map((bill) => {
+          const status = getBillStatus(bill);
+          return (
+            <div
+              key={bill.id}
+              draggable={status !== 'paid'}
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', bill.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onClick={(e) => {
+                if (status === 'paid') return;
+                e.stopPropagation();
+                onPayBill(bill.id);
+              }}
+              title={`${bill.description} - ${statusLabels[status]}`}
+              className={cn(
+                'truncate rounded border px-1 text-[11px]',
+                statusStyles[status],
+                status !== 'paid' && 'cursor-grab'
+              )}
+            >
+              {bill.description}
+            </div>
+          );
+        })}
+        {dayBills.length > 2 && (
+          <p className="text-[11px] text-neutral-light">+{dayBills.length - 2} contas</p>
+        )}
+        {income > 0 && <p className="truncate text-[11px] text-green-600">+{formatCurrency(income, currency)}</p>}
+        {expense > 0 && <p className="truncate text-[11px] text-red-500">-{formatCurrency(expense, currency)}</p>}
+      </div>
+    </div>
+  );
+};
+
+const FinanceCalendar = () => {
+  const {
+    bills,
+    billPayments,
+    transactions,
+    exchangeRates,
+    baseCurrency,
+    getCategoryById,
+    getAccountById,
+    rescheduleBill,
+    loading,
+    billsLoading,
+  } = useFinance();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState(startOfToday());
+  const [payingBillId, setPayingBillId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Cancelled bills are not expected anymore, so they stay off the calendar
+  const billsByDay = groupByDay(bills.filter((b) => b.status !== 'cancelled'), (b) => b.dueDate);
+  const transactionsByDay = groupByDay(transactions, (t) => new Date(t.date));
+
+  // Each transaction is converted at the rate of its own date
+  const toBase = (items: Transaction[]) =>
+    sumInCurrency(
+      items.map((t) => ({
+        amount: t.amount,
+        currency: getAccountById(t.accountId)?.currency ?? DEFAULT_CURRENCY,
+        date: t.date,
+      })),
+      baseCurrency,
+      exchangeRates
+    );
+  const sumByType = (items: Transaction[], type: Transaction['type']) =>
+    toBase(items.filter((t) => t.type === type)).total;
+  const missingCurrencies = toBase(transactions.filter((t) => t.type !== 'transfer')).missing;
+
+  const selectedKey = format(selectedDay, 'yyyy-MM-dd');
+  const selectedBills = billsByDay.get(selectedKey) ?? [];
+  const selectedTransactions = transactionsByDay.get(selectedKey) ?? [];
+
+  const handleDrop = async (event: DragEvent, day: Date) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const billId = event.dataTransfer.getData('text/plain');
+    const bill = bills.find((b) => b.id === billId);
+    if (!bill || isSameDay(toCalendarDay(bill.dueDate), day)) return;
+
+    await rescheduleBill(billId, day);
+  };
+
+  if (loading || billsLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Calendário"
+        description="Contas a pagar e transações do mês. Arraste uma conta para alterar o vencimento."
+      />
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(statusLabels) as BillDisplayStatus[]).map((status) => (
+          <span key={status} className={cn('rounded border px-2 py-0.5', statusStyles[status])}>
+            {statusLabels[status]}
+          </span>
+        ))}
+      </div>
+
+      {missingCurrencies.length > 0 && (
+        <div className="bg-yellow-100 border-l-4 border-yellow-500 p-4 rounded">
+          <p className="text-yellow-800">
+            Sem cotação de {missingCurrencies.join(', ')} para {baseCurrency}: esses valores ficaram fora dos totais
+            diários. Cadastre as cotações em <a href="/contas" className="underline">Contas</a>.
+          </p>
+        </div>
+      )}
+
+      <Card className="p-0 md:p-2">
+        <CalendarDayContext.Provider
+          value={{
+            billsByDay,
+            transactionsByDay,
+            currency: baseCurrency,
+            sumByType,
+            selectedDay,
+            dropTarget,
+            onSelectDay: setSelectedDay,
+            onPayBill: setPayingBillId,
+            onDropTargetChange: setDropTarget,
+            onDropBill: handleDrop,
+          }}
+        >
+          <Calendar
+            month={month}
+            onMonthChange={setMonth}
+            className="w-full p-0 md:p-1"
+            classNames={{
+              months: 'w-full',
+              month: 'w-full space-y-4',
+              table: 'w-full border-collapse',
+              head_row: 'grid grid-cols-7',
+              head_cell: 'text-muted-foreground font-normal text-[0.8rem] py-1',
+              row: 'grid grid-cols-7 w-full',
+              cell: 'border border-gray-100 p-0 min-w-0',
+            }}
+            components={{ Day: CalendarDay }}
+          />
+        </CalendarDayContext.Provider>
+      </Card>
+
+      <Card title={format(selectedDay, "EEEE, dd 'de' MMMM", { locale: ptBR })}>
+        {selectedBills.length === 0 && selectedTransactions.length === 0 ? (
+          <p className="text-center py-4 text-neutral-light">Nada neste dia</p>
+        ) : (
+          <div className="space-y-4">
+            {selectedBills.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-neutral-light">Contas a pagar</h4>
+                {selectedBills.map((bill) => {
+                  const status = getBillStatus(bill);
+                  return (
+                    <div key={bill.id} className="flex justify-between items-center py-2 border-b last:border-0">
+                      <div className="flex items-center gap-2">
+                        <span className="mr-1">{bill.categoryId ? getCategoryById(bill.categoryId)?.icon : '💳'}</span>
+                        <div>
+                          <p className="font-medium">{bill.description}</p>
+                          <span className={cn('rounded border px-1.5 text-xs', statusStyles[status])}>
+                            {statusLabels[status]}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {formatCurrency(status === 'paid' ? bill.amount : getRemainingAmount(bill, billPayments))}
+                        </span>
+                        {status !== 'paid' && (
+                          <Button size="sm" variant="outline" onClick={() => setPayingBillId(bill.id)}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Pagar
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {selectedTransactions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-neutral-light">Transações</h4>
+                {selectedTransactions.map((transaction) => (
+                  <div key={transaction.id} className="flex justify-between items-center py-2 border-b last:border-0">
+                    <div className="flex items-center gap-2">
+                      <span className="mr-1">
+                        {transaction.categoryId ? getCategoryById(transaction.categoryId)?.icon : '🔁'}
+                      </span>
+                      <div>
+                        <p className="font-medium">{transaction.description}</p>
+                        <p className="text-xs text-neutral-light">{getAccountById(transaction.accountId)?.name}</p>
+                      </div>
+                    </div>
+                    <span
+                      className={cn(
+                        'font-medium',
+                        transaction.type === 'income' && 'text-green-500',
+                        transaction.type === 'expense' && 'text-red-500'
+                      )}
+                    >
+                      {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}
+                      {formatCurrency(transaction.amount, getAccountById(transaction.accountId)?.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </Card>
+
+      <Sheet open={payingBillId !== null} onOpenChange={(open) => !open && setPayingBillId(null)}>
+        <SheetContent className="sm:max-w-md overflow-y-auto max-h-screen">
+          <SheetHeader>
+            <SheetTitle>Registrar Pagamento</SheetTitle>
+            <SheetDescription>
+              Selecione a conta para realizar o pagamento
+            </SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            {payingBillId && <BillPaymentForm billId={payingBillId} onClose={() => setPayingBillId(null)} />}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default FinanceCalendar;
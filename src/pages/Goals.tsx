@@ -0,0 +1,438 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useFinance, Goal } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Loader2, PlusCircle, Target } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { GoalStatus, PACE_MONTHS, getGoalContribution, getGoalContributions, getGoalProgress } from '@/lib/goals';
+import { formatCurrency } from '@/lib/currency';
+
+const statusLabels: Record<GoalStatus, string> = {
+  completed: 'Concluída',
+  on_track: 'No ritmo',
+  behind: 'Atrasada',
+  no_deadline: 'Sem prazo',
+};
+
+const statusStyles: Record<GoalStatus, string> = {
+  completed: 'bg-green-100 text-green-700',
+  on_track: 'bg-blue-100 text-blue-700',
+  behind: 'bg-red-100 text-red-700',
+  no_deadline: 'bg-gray-100 text-gray-700',
+};
+
+const indicatorColors: Record<GoalStatus, string> = {
+  completed: '[&>div]:bg-green-500',
+  on_track: '[&>div]:bg-blue-500',
+  behind: '[&>div]:bg-red-500',
+  no_deadline: '[&>div]:bg-primary',
+};
+
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const Goals = () => {
+  const {
+    goals,
+    accounts,
+    transactions,
+    addGoal,
+    editGoal,
+    deleteGoal,
+    addTransaction,
+    getAccountById,
+    loading,
+  } = useFinance();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [contributingId, setContributingId] = useState<string | null>(null);
+  const [contributionAmount, setContributionAmount] = useState('');
+  const [contributionAccountId, setContributionAccountId] = useState('');
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setName('');
+    setTargetAmount('');
+    setDeadline('');
+    setAccountId('');
+    setError(null);
+  };
+
+  const handleEdit = (goal: Goal) => {
+    setEditingId(goal.id);
+    setName(goal.name);
+    setTargetAmount(String(goal.targetAmount));
+    setDeadline(goal.deadline ? format(goal.deadline, 'yyyy-MM-dd') : '');
+    setAccountId(goal.accountId ?? '');
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Dê um nome para a meta.');
+      return;
+    }
+
+    if (!targetAmount || isNaN(parseFloat(targetAmount)) || parseFloat(targetAmount) <= 0) {
+      setError('Valor inválido. Digite um número positivo.');
+      return;
+    }
+
+    const goal = {
+      name: name.trim(),
+      targetAmount: parseFloat(targetAmount),
+      deadline: deadline ? parseDateInput(deadline) : null,
+      accountId: accountId || null,
+    };
+
+    setSubmitting(true);
+    try {
+      if (editingId) {
+        await editGoal(editingId, goal);
+      } else {
+        await addGoal(goal);
+      }
+      resetForm();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (window.confirm('Tem certeza que deseja excluir esta meta? As transações continuam registradas.')) {
+      await deleteGoal(goal.id);
+    }
+  };
+
+  // Contributions come from accounts in the goal account's currency, so the
+  // amount received is the amount sent
+  const getContributionAccounts = (goal: Goal) => {
+    const goalAccount = accounts.find((a) => a.id === goal.accountId);
+    return accounts.filter((a) => a.id !== goal.accountId && a.currency === goalAccount?.currency);
+  };
+
+  const startContribution = (goal: Goal) => {
+    setContributingId(goal.id);
+    setContributionAmount('');
+    setContributionAccountId(getContributionAccounts(goal).find((a) => a.type !== 'credit')?.id ?? '');
+  };
+
+  // Money goes into the goal's account as a transfer tagged with the goal
+  const handleContribute = async (goal: Goal) => {
+    const amount = parseFloat(contributionAmount);
+    if (!goal.accountId || !contributionAccountId || isNaN(amount) || amount <= 0) return;
+
+    await addTransaction({
+      type: 'transfer',
+      amount,
+      date: new Date(format(new Date(), 'yyyy-MM-dd')),
+      categoryId: null,
+      accountId: contributionAccountId,
+      destinationAccountId: goal.accountId,
+      description: `Meta: ${goal.name}`,
+      goalId: goal.id,
+    });
+    setContributingId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando metas...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Metas"
+        description="Acompanhe quanto falta para cada objetivo"
+        action={
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Nova Meta
+          </Button>
+        }
+      />
+
+      <div className="space-y-6">
+        {showForm && (
+          <Card title={editingId ? 'Editar Meta' : 'Nova Meta'}>
+            {error && (
+              <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="goalName">Nome</Label>
+                  <Input
+                    id="goalName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Ex: Reserva de emergência"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="goalTarget">Valor da meta</Label>
+                  <Input
+                    id="goalTarget"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={targetAmount}
+                    onChange={(e) => setTargetAmount(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="goalDeadline">Prazo (opcional)</Label>
+                  <Input
+                    id="goalDeadline"
+                    type="date"
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="goalAccount">Conta da meta (opcional)</Label>
+                  <select
+                    id="goalAccount"
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">Nenhuma</option>
+                    {accounts
+                      .filter((a) => a.type !== 'credit')
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                  <p className="text-xs text-neutral-light">
+                    Transferências para esta conta contam como contribuições.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm} disabled={submitting}>
+                  Cancelar
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    'Salvar Meta'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {goals.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {goals.map((goal) => {
+              const progress = getGoalProgress(goal, transactions);
+              const recentContributions = getGoalContributions(goal, transactions)
+                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                .slice(0, 3);
+              // Goals saved in an account are tracked in its currency
+              const currency = goal.accountId ? getAccountById(goal.accountId)?.currency : undefined;
+
+              return (
+                <Card key={goal.id}>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <h3 className="font-semibold flex items-center gap-2">
+                          {progress.status === 'completed' ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <Target className="h-4 w-4 text-primary" />
+                          )}
+                          {goal.name}
+                        </h3>
+                        <p className="text-xs text-neutral-light">
+                          {goal.deadline
+                            ? `Até ${format(goal.deadline, "MMMM 'de' yyyy", { locale: ptBR })}`
+                            : 'Sem prazo definido'}
+                          {goal.accountId && ` · ${getAccountById(goal.accountId)?.name}`}
+                        </p>
+                      </div>
+                      <span className={cn('text-xs rounded-full px-2 py-0.5', statusStyles[progress.status])}>
+                        {statusLabels[progress.status]}
+                      </span>
+                    </div>
+
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">{formatCurrency(progress.saved, currency)}</span>
+                        <span className="text-neutral-light">de {formatCurrency(goal.targetAmount, currency)}</span>
+                      </div>
+                      <Progress
+                        value={Math.max(progress.percent, 0)}
+                        className={cn('h-2 bg-gray-100', indicatorColors[progress.status])}
+                      />
+                      <p className="text-xs text-neutral-light">{Math.max(Math.round(progress.percent), 0)}% concluído</p>
+                    </div>
+
+                    {progress.status !== 'completed' && (
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div className="rounded-md bg-gray-50 p-2">
+                          <p className="text-xs text-neutral-light">Necessário por mês</p>
+                          <p className="font-medium">
+                            {progress.requiredMonthly !== null ? formatCurrency(progress.requiredMonthly, currency) : '—'}
+                          </p>
+                        </div>
+                        <div className="rounded-md bg-gray-50 p-2">
+                          <p className="text-xs text-neutral-light">Previsão de conclusão</p>
+                          <p className="font-medium">
+                            {progress.projectedDate
+                              ? format(progress.projectedDate, 'MMM/yyyy', { locale: ptBR })
+                              : 'Sem contribuições recentes'}
+                          </p>
+                          <p className="text-xs text-neutral-light">
+                            Média de {formatCurrency(progress.monthlyPace, currency)}/mês nos últimos {PACE_MONTHS} meses
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {recentContributions.length > 0 && (
+                      <div className="space-y-1 text-sm">
+                        <p className="text-xs font-medium text-neutral-light">Últimas contribuições</p>
+                        {recentContributions.map((t) => {
+                          const amount = getGoalContribution(goal, t);
+                          return (
+                            <div key={t.id} className="flex justify-between">
+                              <span className="truncate">
+                                {format(new Date(t.date), 'dd/MM')} · {t.description}
+                              </span>
+                              <span className={amount < 0 ? 'text-red-500' : 'text-green-500'}>
+                                {amount > 0 ? '+' : ''}
+                                {formatCurrency(amount, currency)}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {contributingId === goal.id && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+                        <div className="space-y-1">
+                          <Label htmlFor={`contributionAccount-${goal.id}`}>De</Label>
+                          <select
+                            id={`contributionAccount-${goal.id}`}
+                            value={contributionAccountId}
+                            onChange={(e) => setContributionAccountId(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-md"
+                          >
+                            {getContributionAccounts(goal).map((account) => (
+                              <option key={account.id} value={account.id}>
+                                {account.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor={`contributionAmount-${goal.id}`}>Valor</Label>
+                          <Input
+                            id={`contributionAmount-${goal.id}`}
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={contributionAmount}
+                            onChange={(e) => setContributionAmount(e.target.value)}
+                            placeholder={progress.requiredMonthly?.toFixed(2) ?? '0,00'}
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleContribute(goal)}>
+                            Confirmar
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setContributingId(null)}>
+                            Cancelar
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                      {goal.accountId ? (
+                        contributingId !== goal.id && (
+                          <Button variant="outline" size="sm" onClick={() => startContribution(goal)}>
+                            Contribuir
+                          </Button>
+                        )
+                      ) : (
+                        <p className="flex-1 text-xs text-neutral-light self-center">
+                          Associe transações a esta meta ao lançá-las.
+                        </p>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(goal)}>
+                        Editar
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => handleDelete(goal)}
+                      >
+                        Excluir
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card>
+            <div className="flex flex-col items-center py-8 text-neutral-light">
+              <Target className="h-8 w-8 mb-2" />
+              <p>Nenhuma meta cadastrada</p>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Goals;
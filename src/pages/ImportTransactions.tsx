@@ -0,0 +1,462 @@
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useFinance, Transaction, CategoryType } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  StatementRow,
+  ParsedCsv,
+  CsvColumnMapping,
+  parseCsv,
+  parseOfx,
+  guessCsvMapping,
+  mapCsvRows,
+  isLikelyDuplicate,
+} from '@/lib/statementImport';
+import { formatCurrency } from '@/lib/currency';
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+const mappingFields: { id: keyof CsvColumnMapping; name: string; required: boolean }[] = [
+  { id: 'date', name: 'Data', required: true },
+  { id: 'description', name: 'Descrição', required: true },
+  { id: 'amount', name: 'Valor', required: true },
+  { id: 'category', name: 'Categoria', required: false },
+];
+
+const ImportTransactions = () => {
+  const navigate = useNavigate();
+  const { transactions, categories, accounts, importTransactions, getRuleCategoryId, loading } = useFinance();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [accountId, setAccountId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: -1, description: -1, amount: -1, category: -1 });
+  const [rows, setRows] = useState<StatementRow[]>([]);
+  const [duplicates, setDuplicates] = useState<boolean[]>([]);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [defaultIncomeCategoryId, setDefaultIncomeCategoryId] = useState('');
+  const [defaultExpenseCategoryId, setDefaultExpenseCategoryId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const selectedAccount = accounts.find(a => a.id === accountId);
+  const incomeCategories = categories.filter(c => c.type === 'income');
+  const expenseCategories = categories.filter(c => c.type === 'expense');
+
+  const showPreview = (statementRows: StatementRow[]) => {
+    const flagged = statementRows.map(row => isLikelyDuplicate(row, accountId, transactions));
+
+    setRows(statementRows);
+    setDuplicates(flagged);
+    // Likely duplicates start unselected so they are skipped unless confirmed
+    setSelected(flagged.map(isDuplicate => !isDuplicate));
+    setStep('preview');
+  };
+
+  const handleReadFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!accountId) {
+      setError('Selecione a conta de destino.');
+      return;
+    }
+
+    if (!file) {
+      setError('Selecione um arquivo CSV ou OFX.');
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const text = await file.text();
+
+      if (file.name.toLowerCase().endsWith('.ofx') || /<OFX>/i.test(text)) {
+        const statementRows = parseOfx(text);
+        if (statementRows.length === 0) {
+          setError('Nenhuma transação encontrada no arquivo OFX.');
+          return;
+        }
+        showPreview(statementRows);
+        return;
+      }
+
+      const parsed = parseCsv(text);
+      if (parsed.rows.length === 0) {
+        setError('O arquivo CSV não possui linhas de dados.');
+        return;
+      }
+
+      setCsv(parsed);
+      setMapping(guessCsvMapping(parsed.headers));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading statement file:', err);
+      setError('Não foi possível ler o arquivo.');
+    }
+  };
+
+  const handleApplyMapping = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!csv) return;
+
+    if (mapping.date < 0 || mapping.description < 0 || mapping.amount < 0) {
+      setError('Associe as colunas de data, descrição e valor.');
+      return;
+    }
+
+    const { rows: statementRows, invalidLines } = mapCsvRows(csv, mapping);
+
+    if (statementRows.length === 0) {
+      setError('Nenhuma linha válida encontrada com este mapeamento.');
+      return;
+    }
+
+    setError(
+      invalidLines.length > 0
+        ? `${invalidLines.length} linha(s) ignorada(s) por data, valor ou descrição inválidos: ${invalidLines.slice(0, 10).join(', ')}${invalidLines.length > 10 ? '...' : ''}`
+        : null
+    );
+    showPreview(statementRows);
+  };
+
+  const getRowType = (row: StatementRow): CategoryType => (row.amount < 0 ? 'expense' : 'income');
+
+  // Use the category named in the file when it exists, then the categorization
+  // rules, then the default for the row type
+  const getRowCategoryId = (row: StatementRow) => {
+    const type = getRowType(row);
+    const named = row.category
+      ? categories.find(c => c.type === type && c.name.toLowerCase() === row.category.toLowerCase())
+      : undefined;
+    const fromRules = getRuleCategoryId({
+      type,
+      description: row.description,
+      amount: Math.abs(row.amount),
+      accountId,
+    });
+
+    return named?.id || fromRules || (type === 'income' ? defaultIncomeCategoryId : defaultExpenseCategoryId);
+  };
+
+  const selectedRows = rows.filter((_, index) => selected[index]);
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) {
+      setError('Selecione ao menos uma transação para importar.');
+      return;
+    }
+
+    if (selectedRows.some(row => !getRowCategoryId(row))) {
+      setError('Selecione as categorias padrão para receitas e despesas.');
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const newTransactions: Omit<Transaction, 'id'>[] = selectedRows.map(row => ({
+        type: getRowType(row),
+        amount: Math.abs(row.amount),
+        date: row.date,
+        categoryId: getRowCategoryId(row),
+        accountId,
+        description: row.description,
+      }));
+
+      if (await importTransactions(newTransactions)) {
+        navigate('/transacoes');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    setSelected(selected.map((value, i) => (i === index ? checked : value)));
+  };
+
+  const handleRestart = () => {
+    setStep('upload');
+    setFile(null);
+    setCsv(null);
+    setRows([]);
+    setError(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando dados...</span>
+      </div>
+    );
+  }
+
+  const duplicateCount = duplicates.filter(Boolean).length;
+
+  return (
+    <div>
+      <PageHeader
+        title="Importar Extrato"
+        description="Importe transações de arquivos CSV ou OFX do seu banco"
+      />
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <Card className="max-w-2xl mx-auto">
+          <form onSubmit={handleReadFile} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="account">Conta</Label>
+              <select
+                id="account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Selecione a conta do extrato</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="file">Arquivo</Label>
+              <Input
+                id="file"
+                type="file"
+                accept=".csv,.ofx,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-neutral-light">
+                Em arquivos CSV, valores negativos são importados como despesas e positivos como receitas.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => navigate('/transacoes')}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90">
+                <FileUp className="mr-2 h-4 w-4" />
+                Ler Arquivo
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {step === 'mapping' && csv && (
+        <Card title="Mapear Colunas" className="max-w-3xl mx-auto">
+          <form onSubmit={handleApplyMapping} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {mappingFields.map((field) => (
+                <div key={field.id} className="space-y-2">
+                  <Label htmlFor={`mapping-${field.id}`}>
+                    {field.name}{!field.required && ' (opcional)'}
+                  </Label>
+                  <select
+                    id={`mapping-${field.id}`}
+                    value={mapping[field.id]}
+                    onChange={(e) => setMapping({ ...mapping, [field.id]: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value={-1}>{field.required ? 'Selecione a coluna' : 'Não importar'}</option>
+                    {csv.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Coluna ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    {csv.headers.map((header, index) => (
+                      <th key={index} className="text-left py-2 px-2 font-medium text-neutral-light">
+                        {header || `Coluna ${index + 1}`}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {csv.rows.slice(0, 3).map((values, rowIndex) => (
+                    <tr key={rowIndex} className="border-b">
+                      {csv.headers.map((_, index) => (
+                        <td key={index} className="py-2 px-2 whitespace-nowrap">
+                          {values[index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={handleRestart}>
+                Voltar
+              </Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90">
+                Pré-visualizar
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {step === 'preview' && (
+        <Card title="Pré-visualização">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="space-y-2">
+              <Label htmlFor="defaultIncomeCategory">Categoria padrão para receitas</Label>
+              <select
+                id="defaultIncomeCategory"
+                value={defaultIncomeCategoryId}
+                onChange={(e) => setDefaultIncomeCategoryId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Selecione uma categoria</option>
+                {incomeCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="defaultExpenseCategory">Categoria padrão para despesas</Label>
+              <select
+                id="defaultExpenseCategory"
+                value={defaultExpenseCategoryId}
+                onChange={(e) => setDefaultExpenseCategoryId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md"
+              >
+                <option value="">Selecione uma categoria</option>
+                {expenseCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {duplicateCount > 0 && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4 rounded flex items-start gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 shrink-0" />
+              <p className="text-sm text-yellow-800">
+                {duplicateCount} transação(ões) parecem já existir nesta conta (mesma data, valor e descrição)
+                e foram desmarcadas. Marque-as se quiser importá-las mesmo assim.
+              </p>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-3 px-4 w-10"></th>
+                  <th className="text-left py-3 px-4 font-medium text-neutral-light">Data</th>
+                  <th className="text-left py-3 px-4 font-medium text-neutral-light">Descrição</th>
+                  <th className="text-left py-3 px-4 font-medium text-neutral-light">Categoria</th>
+                  <th className="text-right py-3 px-4 font-medium text-neutral-light">Valor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const category = categories.find(c => c.id === getRowCategoryId(row));
+
+                  return (
+                    <tr key={index} className={`border-b ${duplicates[index] ? 'bg-yellow-50' : ''}`}>
+                      <td className="py-3 px-4">
+                        <Checkbox
+                          checked={selected[index]}
+                          onCheckedChange={(checked) => toggleRow(index, checked === true)}
+                        />
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        {format(new Date(row.date.getUTCFullYear(), row.date.getUTCMonth(), row.date.getUTCDate()), 'dd/MM/yyyy')}
+                      </td>
+                      <td className="py-3 px-4">
+                        {row.description}
+                        {duplicates[index] && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+                            Possível duplicata
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-neutral-light">
+                        {category ? `${category.icon} ${category.name}` : '—'}
+                      </td>
+                      <td className={`py-3 px-4 text-right font-medium ${row.amount < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                        {row.amount < 0 ? '-' : '+'}
+                        {formatCurrency(Math.abs(row.amount), selectedAccount?.currency)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mt-6">
+            <p className="text-sm text-neutral-light">
+              {selectedRows.length} de {rows.length} transações selecionadas
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => (csv ? setStep('mapping') : handleRestart())}
+                disabled={submitting}
+              >
+                Voltar
+              </Button>
+              <Button
+                type="button"
+                className="bg-primary hover:bg-primary/90"
+                onClick={handleImport}
+                disabled={submitting || selectedRows.length === 0}
+              >
+                {submitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importando...
+                  </>
+                ) : (
+                  `Importar ${selectedRows.length} transações`
+                )}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ImportTransactions;
@@ -0,0 +1,149 @@
+
+import { useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Card from '@/components/Card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Mail } from 'lucide-react';
+
+const Login = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, signIn, signInWithMagicLink } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  const redirectTo = location.state?.from?.pathname || '/';
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (await signIn(email, password)) {
+        navigate(redirectTo, { replace: true });
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      setMagicLinkSent(await signInWithMagicLink(email));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-secondary p-4">
+      <Card className="w-full max-w-md">
+        <div className="mb-6 text-center">
+          <h1 className="font-bold text-2xl text-primary">Finançãs</h1>
+          <p className="text-sm text-gray-500">Entre para gerenciar suas finanças</p>
+        </div>
+
+        <Tabs defaultValue="password">
+          <TabsList className="grid grid-cols-2 mb-4">
+            <TabsTrigger value="password">E-mail e senha</TabsTrigger>
+            <TabsTrigger value="magic-link">Link mágico</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="password">
+            <form onSubmit={handlePasswordLogin} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="voce@exemplo.com"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Senha</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Entrando...
+                  </>
+                ) : (
+                  'Entrar'
+                )}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="magic-link">
+            {magicLinkSent ? (
+              <div className="py-6 text-center">
+                <Mail className="mx-auto h-10 w-10 text-primary" />
+                <p className="mt-2 text-sm">
+                  Verifique sua caixa de entrada em <strong>{email}</strong> e clique no link para entrar.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleMagicLink} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="magic-email">E-mail</Label>
+                  <Input
+                    id="magic-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="voce@exemplo.com"
+                    required
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Enviando...
+                    </>
+                  ) : (
+                    'Enviar link de acesso'
+                  )}
+                </Button>
+              </form>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <p className="mt-6 text-center text-sm text-neutral-light">
+          Ainda não tem conta?{' '}
+          <Link to="/cadastro" className="text-primary hover:underline">
+            Cadastre-se
+          </Link>
+        </p>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
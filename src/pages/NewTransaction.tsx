@@ -1,28 +1,117 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useFinance, TransactionType } from '@/contexts/FinanceContext';
+import { Link, useNavigate } from 'react-router-dom';
+import { useFinance, Transaction, TransactionType } from '@/contexts/FinanceContext';
 import PageHeader from '@/components/PageHeader';
 import Card from '@/components/Card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { ArrowUpCircle, ArrowDownCircle, Loader2 } from 'lucide-react';
+import { ArrowUpCircle, ArrowDownCircle, ArrowLeftRight, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { createRecurrenceRule } from '@/lib/recurrence';
+import { formatCurrency, getRate } from '@/lib/currency';
+import { getSplitsTotal, splitsMatchAmount } from '@/lib/transactionSplits';
+import TagInput from '@/components/TagInput';
+import { flattenCategoryTree, getCategoryPath } from '@/lib/categoryTree';
 
-const NewTransaction = () => {
+interface SplitLine {
+  categoryId: string;
+  amount: string;
+}
+
+interface NewTransactionProps {
+  // Edits this transaction instead of creating a new one
+  transaction?: Transaction;
+}
+
+const toAmountInput = (value: number | null | undefined) => (value == null ? '' : String(value));
+
+const NewTransaction = ({ transaction: editing }: NewTransactionProps) => {
   const navigate = useNavigate();
-  const { categories, accounts, addTransaction, loading } = useFinance();
+  const {
+    categories,
+    accounts,
+    categorizationRules,
+    addTransaction,
+    editTransaction,
+    addInstallmentPurchase,
+    addScheduledTransaction,
+    getRuleCategoryId,
+    goals,
+    exchangeRates,
+    tags,
+    billPayments,
+    loading,
+  } = useFinance();
   
-  const [type, setType] = useState<TransactionType>('expense');
-  const [amount, setAmount] = useState('');
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [categoryId, setCategoryId] = useState('');
-  const [accountId, setAccountId] = useState('');
-  const [description, setDescription] = useState('');
+  const [type, setType] = useState<TransactionType>(editing?.type ?? 'expense');
+  const [amount, setAmount] = useState(toAmountInput(editing?.amount));
+  // Transaction dates are stored at UTC midnight
+  const [date, setDate] = useState((editing?.date ?? new Date()).toISOString().split('T')[0]);
+  const [categoryId, setCategoryId] = useState(editing?.categoryId ?? '');
+  const [accountId, setAccountId] = useState(editing?.accountId ?? '');
+  const [destinationAccountId, setDestinationAccountId] = useState(editing?.destinationAccountId ?? '');
+  const [destinationAmount, setDestinationAmount] = useState(toAmountInput(editing?.destinationAmount));
+  const [description, setDescription] = useState(editing?.description ?? '');
+  const [installments, setInstallments] = useState('1');
+  const [repeatMonthly, setRepeatMonthly] = useState(false);
+  const [goalId, setGoalId] = useState(editing?.goalId ?? '');
+  const [isSplit, setIsSplit] = useState((editing?.splits?.length ?? 0) > 0);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    (editing?.splits ?? []).map(split => ({ categoryId: split.categoryId, amount: String(split.amount) }))
+  );
+  const [tagNames, setTagNames] = useState<string[]>(editing?.tags ?? []);
   const [error, setError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
-  const filteredCategories = categories.filter(c => c.type === type);
+  const isTransfer = type === 'transfer';
+  const sourceAccount = accounts.find(a => a.id === accountId);
+  const destinationAccount = accounts.find(a => a.id === destinationAccountId);
+  // Transfers between currencies record the amount received on the other side
+  const isCrossCurrency = isTransfer && !!sourceAccount && !!destinationAccount &&
+    sourceAccount.currency !== destinationAccount.currency;
+  const suggestedRate = isCrossCurrency
+    ? getRate(exchangeRates, sourceAccount.currency, destinationAccount.currency, new Date(date))
+    : null;
+  const filteredCategories = flattenCategoryTree(categories.filter(c => c.type === type)).map(n => n.category);
+  // Only new card purchases can be split across future statements
+  const canSplit = !editing && type === 'expense' && accounts.find(a => a.id === accountId)?.type === 'credit' && !isSplit;
+  const installmentCount = canSplit ? parseInt(installments) || 1 : 1;
+  // Category splits are single transactions: no installments or repetition
+  const canSplitCategories = !isTransfer && installmentCount <= 1 && !repeatMonthly;
+  const splitting = isSplit && canSplitCategories;
+  const splits = splitLines.map(line => ({ categoryId: line.categoryId, amount: parseFloat(line.amount) || 0 }));
+  const splitRemaining = (parseFloat(amount) || 0) - getSplitsTotal(splits);
+  const splitComplete = splitsMatchAmount(splits, parseFloat(amount) || 0);
+  const isBillPayment = !!editing && billPayments.some(payment => payment.transactionId === editing.id);
+
+  // Category the rules would assign when none is picked
+  const ruleCategory = !isTransfer && !splitting && !categoryId && description.trim()
+    ? categories.find(c => c.id === getRuleCategoryId({
+        type,
+        description,
+        amount: parseFloat(amount) || 0,
+        accountId,
+      }))
+    : undefined;
+
+  // The chosen category becomes the first part, the second one takes the rest
+  const startSplit = () => {
+    setSplitLines([
+      { categoryId: categoryId || ruleCategory?.id || '', amount },
+      { categoryId: '', amount: '' },
+    ]);
+    setIsSplit(true);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) => {
+    setSplitLines(splitLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addSplitLine = () => {
+    setSplitLines([...splitLines, { categoryId: '', amount: splitRemaining > 0 ? splitRemaining.toFixed(2) : '' }]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -33,13 +122,41 @@ const NewTransaction = () => {
       return;
     }
     
-    if (!categoryId) {
-      setError('Selecione uma categoria.');
+    if (splitting) {
+      if (splits.length < 2 || splits.some(split => !split.categoryId || split.amount <= 0)) {
+        setError('Cada parte da divisão precisa de uma categoria e de um valor positivo.');
+        return;
+      }
+      if (!splitsMatchAmount(splits, parseFloat(amount))) {
+        setError('A soma das partes deve ser igual ao valor da transação.');
+        return;
+      }
+    } else if (!isTransfer && !categoryId && !ruleCategory) {
+      setError(
+        categorizationRules.length > 0
+          ? 'Nenhuma regra de categorização corresponde a esta transação. Selecione uma categoria.'
+          : 'Selecione uma categoria.'
+      );
       return;
     }
     
     if (!accountId) {
-      setError('Selecione uma conta.');
+      setError(isTransfer ? 'Selecione a conta de origem.' : 'Selecione uma conta.');
+      return;
+    }
+
+    if (isTransfer && !destinationAccountId) {
+      setError('Selecione a conta de destino.');
+      return;
+    }
+
+    if (isTransfer && destinationAccountId === accountId) {
+      setError('A conta de destino deve ser diferente da conta de origem.');
+      return;
+    }
+
+    if (isCrossCurrency && !(parseFloat(destinationAmount) > 0)) {
+      setError('Digite o valor recebido na conta de destino.');
       return;
     }
     
@@ -48,24 +165,58 @@ const NewTransaction = () => {
       return;
     }
 
+    if (installmentCount < 1 || installmentCount > 48) {
+      setError('O número de parcelas deve estar entre 1 e 48.');
+      return;
+    }
+
     setSubmitting(true);
     
     try {
-      // Add new transaction
-      await addTransaction({
+      const transaction: Omit<Transaction, 'id'> = {
         type,
         amount: parseFloat(amount),
         date: new Date(date),
-        categoryId,
+        categoryId: isTransfer ? null : splitting ? splits[0].categoryId : categoryId,
         accountId,
         description,
-      });
+        destinationAccountId: isTransfer ? destinationAccountId : null,
+        destinationAmount: isCrossCurrency ? parseFloat(destinationAmount) : null,
+        goalId: goalId || null,
+        splits: splitting ? splits : [],
+        tags: tagNames,
+      };
+
+      if (editing) {
+        // Balances come from the ledger, so updating the row moves the old
+        // amount out of the previous account and the new one into the current
+        await editTransaction(editing.id, transaction);
+      } else if (repeatMonthly && installmentCount <= 1 && !isCrossCurrency) {
+        // The schedule posts this first occurrence too when its date has come
+        const [year, month, day] = date.split('-').map(Number);
+        await addScheduledTransaction({
+          type,
+          amount: transaction.amount,
+          description,
+          categoryId: isTransfer ? null : categoryId || ruleCategory?.id || null,
+          accountId,
+          destinationAccountId: transaction.destinationAccountId,
+          rule: createRecurrenceRule('monthly'),
+          startDate: new Date(year, month - 1, day),
+          endDate: null,
+          requiresConfirmation: false,
+        });
+      } else if (installmentCount > 1) {
+        await addInstallmentPurchase(transaction, installmentCount);
+      } else {
+        await addTransaction(transaction);
+      }
 
       // Navigate back to transactions
       navigate('/transacoes');
     } catch (error) {
-      console.error('Error adding transaction:', error);
-      setError('Erro ao adicionar transação. Tente novamente.');
+      console.error('Error saving transaction:', error);
+      setError(editing ? 'Erro ao atualizar transação. Tente novamente.' : 'Erro ao adicionar transação. Tente novamente.');
     } finally {
       setSubmitting(false);
     }
@@ -82,9 +233,22 @@ const NewTransaction = () => {
 
   return (
     <div>
-      <PageHeader title="Nova Transação" description="Adicione uma nova transação financeira" />
+      {editing ? (
+        <PageHeader title="Editar Transação" description="Altere os dados da transação" />
+      ) : (
+        <PageHeader title="Nova Transação" description="Adicione uma nova transação financeira" />
+      )}
 
       <Card>
+        {isBillPayment && (
+          <div className="bg-yellow-100 border-l-4 border-yellow-500 p-4 mb-4 rounded">
+            <p className="text-yellow-800">
+              Esta transação é o pagamento de uma conta a pagar. Alterar o valor aqui não altera o pagamento
+              registrado na conta.
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
             <p className="text-red-700">{error}</p>
@@ -103,6 +267,7 @@ const NewTransaction = () => {
                   onClick={() => {
                     setType('expense');
                     setCategoryId(''); // Reset category when changing type
+                    setIsSplit(false);
                   }}
                 >
                   <ArrowDownCircle className="mr-2 h-4 w-4" />
@@ -116,11 +281,26 @@ const NewTransaction = () => {
                   onClick={() => {
                     setType('income');
                     setCategoryId(''); // Reset category when changing type
+                    setIsSplit(false);
                   }}
                 >
                   <ArrowUpCircle className="mr-2 h-4 w-4" />
                   Receita
                 </Button>
+
+                <Button
+                  type="button"
+                  variant={type === 'transfer' ? 'default' : 'outline'}
+                  className={type === 'transfer' ? 'bg-blue-500 text-white' : ''}
+                  onClick={() => {
+                    setType('transfer');
+                    setCategoryId('');
+                    setIsSplit(false);
+                  }}
+                >
+                  <ArrowLeftRight className="mr-2 h-4 w-4" />
+                  Transferência
+                </Button>
               </div>
             </div>
             
@@ -149,26 +329,99 @@ const NewTransaction = () => {
               />
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="category">Categoria</Label>
-              <select
-                id="category"
-                value={categoryId}
-                onChange={(e) => setCategoryId(e.target.value)}
-                className="w-full px-3 py-2 border rounded-md"
-                required
-              >
-                <option value="">Selecione uma categoria</option>
-                {filteredCategories.map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.icon} {category.name}
+            {!isTransfer && !splitting && (
+              <div className="space-y-2">
+                <Label htmlFor="category">Categoria</Label>
+                <select
+                  id="category"
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md"
+                >
+                  <option value="">
+                    {categorizationRules.length > 0 ? 'Automática (regras de categorização)' : 'Selecione uma categoria'}
                   </option>
+                  {filteredCategories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.icon} {getCategoryPath(categories, category)}
+                    </option>
+                  ))}
+                </select>
+                {ruleCategory && (
+                  <p className="text-xs text-neutral-light">
+                    Categoria pelas regras: {ruleCategory.icon} {ruleCategory.name}
+                  </p>
+                )}
+                {canSplitCategories && (
+                  <button type="button" className="text-xs text-primary underline" onClick={startSplit}>
+                    Dividir em várias categorias
+                  </button>
+                )}
+              </div>
+            )}
+
+            {splitting && (
+              <div className="space-y-2 md:col-span-2">
+                <div className="flex items-center justify-between">
+                  <Label>Divisão por Categoria</Label>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setIsSplit(false)}>
+                    Usar uma categoria
+                  </Button>
+                </div>
+                {splitLines.map((line, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      aria-label={`Categoria da parte ${index + 1}`}
+                      value={line.categoryId}
+                      onChange={(e) => updateSplitLine(index, { categoryId: e.target.value })}
+                      className="flex-1 px-3 py-2 border rounded-md"
+                    >
+                      <option value="">Selecione uma categoria</option>
+                      {filteredCategories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {getCategoryPath(categories, category)}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      aria-label={`Valor da parte ${index + 1}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0,00"
+                      className="w-32"
+                      value={line.amount}
+                      onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={splitLines.length <= 2}
+                      onClick={() => setSplitLines(splitLines.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 ))}
-              </select>
-            </div>
+                <div className="flex items-center justify-between">
+                  <Button type="button" variant="outline" size="sm" onClick={addSplitLine}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Adicionar parte
+                  </Button>
+                  <p className={`text-xs ${splitComplete ? 'text-green-600' : 'text-red-500'}`}>
+                    {splitComplete
+                      ? 'As partes somam o valor da transação'
+                      : splitRemaining > 0
+                        ? `Faltam ${formatCurrency(splitRemaining, sourceAccount?.currency)}`
+                        : `Passou ${formatCurrency(-splitRemaining, sourceAccount?.currency)} do valor`}
+                  </p>
+                </div>
+              </div>
+            )}
             
             <div className="space-y-2">
-              <Label htmlFor="account">Conta</Label>
+              <Label htmlFor="account">{isTransfer ? 'Conta de Origem' : 'Conta'}</Label>
               <select
                 id="account"
                 value={accountId}
@@ -179,12 +432,139 @@ const NewTransaction = () => {
                 <option value="">Selecione uma conta</option>
                 {accounts.map((account) => (
                   <option key={account.id} value={account.id}>
-                    {account.name} ({new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(account.balance)})
+                    {account.name} ({formatCurrency(account.balance, account.currency)})
                   </option>
                 ))}
               </select>
             </div>
+
+            {canSplit && (
+              <div className="space-y-2">
+                <Label htmlFor="installments">Parcelas</Label>
+                <Input
+                  id="installments"
+                  type="number"
+                  min="1"
+                  max="48"
+                  step="1"
+                  value={installments}
+                  onChange={(e) => setInstallments(e.target.value)}
+                />
+                {installmentCount > 1 && parseFloat(amount) > 0 && (
+                  <p className="text-xs text-neutral-light">
+                    {installmentCount}x de{' '}
+                    {formatCurrency(
+                      Math.round((parseFloat(amount) / installmentCount) * 100) / 100,
+                      sourceAccount?.currency
+                    )}
+                    , uma parcela em cada fatura a partir desta data
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isTransfer && (
+              <div className="space-y-2">
+                <Label htmlFor="destinationAccount">Conta de Destino</Label>
+                <select
+                  id="destinationAccount"
+                  value={destinationAccountId}
+                  onChange={(e) => setDestinationAccountId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md"
+                  required
+                >
+                  <option value="">Selecione uma conta</option>
+                  {accounts
+                    .filter((account) => account.id !== accountId)
+                    .map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({formatCurrency(account.balance, account.currency)})
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
+
+            {isCrossCurrency && (
+              <div className="space-y-2">
+                <Label htmlFor="destinationAmount">Valor Recebido ({destinationAccount.currency})</Label>
+                <Input
+                  id="destinationAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0,00"
+                  value={destinationAmount}
+                  onChange={(e) => setDestinationAmount(e.target.value)}
+                  required
+                />
+                {suggestedRate !== null && parseFloat(amount) > 0 && (
+                  <p className="text-xs text-neutral-light">
+                    Pela cotação cadastrada:{' '}
+                    <button
+                      type="button"
+                      className="text-primary underline"
+                      onClick={() => setDestinationAmount((parseFloat(amount) * suggestedRate).toFixed(2))}
+                    >
+                      {formatCurrency(parseFloat(amount) * suggestedRate, destinationAccount.currency)}
+                    </button>
+                  </p>
+                )}
+              </div>
+            )}
             
+            {!editing && installmentCount <= 1 && !isCrossCurrency && !splitting && (
+              <div className="space-y-1 md:col-span-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="repeatMonthly"
+                    checked={repeatMonthly}
+                    onCheckedChange={(checked) => setRepeatMonthly(checked === true)}
+                  />
+                  <Label htmlFor="repeatMonthly" className="font-normal">
+                    Repetir todo mês nesta data
+                  </Label>
+                </div>
+                {repeatMonthly && (
+                  <p className="text-xs text-neutral-light">
+                    O lançamento será feito automaticamente a cada mês. Para outras frequências, use os{' '}
+                    <Link to="/agendamentos" className="text-primary underline">agendamentos</Link>.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {goals.length > 0 && !repeatMonthly && installmentCount <= 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="goal">Meta (opcional)</Label>
+                <select
+                  id="goal"
+                  value={goalId}
+                  onChange={(e) => setGoalId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md"
+                >
+                  <option value="">Nenhuma</option>
+                  {goals.map((goal) => (
+                    <option key={goal.id} value={goal.id}>
+                      {goal.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!repeatMonthly && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="tags">Etiquetas (opcional)</Label>
+                <TagInput
+                  id="tags"
+                  value={tagNames}
+                  onChange={setTagNames}
+                  suggestions={tags.map((tag) => tag.name)}
+                />
+              </div>
+            )}
+
             <div className="space-y-2 md:col-span-2">
               <Label htmlFor="description">Descrição</Label>
               <Textarea
@@ -216,6 +596,8 @@ const NewTransaction = () => {
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Salvando...
                 </>
+              ) : editing ? (
+                'Salvar Alterações'
               ) : (
                 'Salvar Transação'
               )}
@@ -0,0 +1,493 @@
+import { useState } from 'react';
+import { addDays, format, startOfToday } from 'date-fns';
+import {
+  useFinance,
+  ScheduledTransaction,
+  TransactionType,
+} from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import RecurrenceRuleFields from '@/components/RecurrenceRuleFields';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarClock, Check, Clock, Loader2, PlusCircle, Repeat, X } from 'lucide-react';
+import {
+  RecurrenceRule,
+  canReachMonths,
+  createRecurrenceRule,
+  describeRecurrence,
+  getOccurrences,
+} from '@/lib/recurrence';
+import { formatCurrency } from '@/lib/currency';
+
+// How far ahead the upcoming postings list looks
+const UPCOMING_DAYS = 60;
+
+const emptyForm = {
+  type: 'income' as TransactionType,
+  amount: '',
+  description: '',
+  categoryId: '',
+  accountId: '',
+  destinationAccountId: '',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: '',
+  requiresConfirmation: false,
+};
+
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const ScheduledTransactions = () => {
+  const {
+    categories,
+    accounts,
+    scheduledTransactions,
+    pendingTransactions,
+    addScheduledTransaction,
+    deleteScheduledTransaction,
+    confirmPendingTransaction,
+    dismissPendingTransaction,
+    getCategoryById,
+    getAccountById,
+    loading,
+  } = useFinance();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [rule, setRule] = useState<RecurrenceRule>(createRecurrenceRule('monthly'));
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Amounts corrected before confirming, by pending transaction id
+  const [pendingAmounts, setPendingAmounts] = useState<Record<string, string>>({});
+
+  const isTransfer = form.type === 'transfer';
+  const today = startOfToday();
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setRule(createRecurrenceRule('monthly'));
+    setShowForm(false);
+    setError(null);
+  };
+
+  // Dates not posted yet, from tomorrow up to `until`
+  const getUpcomingDates = (schedule: ScheduledTransaction, until: Date) =>
+    getOccurrences(schedule.rule, schedule.startDate, {
+      until: schedule.endDate && schedule.endDate < until ? schedule.endDate : until,
+    }).filter(date => date > today && (!schedule.lastPostedDate || date > schedule.lastPostedDate));
+
+  const upcomingPostings = scheduledTransactions
+    .flatMap(schedule =>
+      getUpcomingDates(schedule, addDays(today, UPCOMING_DAYS)).map(date => ({ schedule, date }))
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const startDate = form.startDate ? parseDateInput(form.startDate) : null;
+  // A month filter the rule never reaches gives no dates to preview
+  const previewDates = startDate && canReachMonths(rule, startDate)
+    ? getOccurrences(rule, startDate, {
+        count: 3,
+        until: form.endDate ? parseDateInput(form.endDate) : null,
+      })
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(form.amount);
+
+    if (!amount || amount <= 0) {
+      setError('Valor inválido. Digite um número positivo.');
+      return;
+    }
+
+    if (!form.description.trim()) {
+      setError('Digite uma descrição.');
+      return;
+    }
+
+    if (!isTransfer && !form.categoryId) {
+      setError('Selecione uma categoria.');
+      return;
+    }
+
+    if (!form.accountId) {
+      setError(isTransfer ? 'Selecione a conta de origem.' : 'Selecione uma conta.');
+      return;
+    }
+
+    if (isTransfer && (!form.destinationAccountId || form.destinationAccountId === form.accountId)) {
+      setError('Selecione uma conta de destino diferente da conta de origem.');
+      return;
+    }
+
+    if (form.endDate && form.endDate < form.startDate) {
+      setError('A data final deve ser posterior à data inicial.');
+      return;
+    }
+
+    if (startDate && !canReachMonths(rule, startDate)) {
+      setError('A recorrência nunca cai nos meses escolhidos. Escolha outros meses.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await addScheduledTransaction({
+        type: form.type,
+        amount,
+        description: form.description.trim(),
+        categoryId: isTransfer ? null : form.categoryId,
+        accountId: form.accountId,
+        destinationAccountId: isTransfer ? form.destinationAccountId : null,
+        rule,
+        startDate: parseDateInput(form.startDate),
+        endDate: form.endDate ? parseDateInput(form.endDate) : null,
+        requiresConfirmation: form.requiresConfirmation,
+      });
+      resetForm();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduledTransaction) => {
+    if (window.confirm(`Excluir o agendamento "${schedule.description}"? Os lançamentos já feitos serão mantidos.`)) {
+      await deleteScheduledTransaction(schedule.id);
+    }
+  };
+
+  const handleConfirm = async (id: string, scheduledAmount: number) => {
+    const amount = parseFloat(pendingAmounts[id] ?? '');
+    await confirmPendingTransaction(id, amount > 0 && amount !== scheduledAmount ? amount : undefined);
+  };
+
+  const describeAccounts = (schedule: ScheduledTransaction) => {
+    const account = getAccountById(schedule.accountId)?.name;
+    return schedule.destinationAccountId
+      ? `${account} → ${getAccountById(schedule.destinationAccountId)?.name ?? ''}`
+      : account;
+  };
+
+  const amountClassName = (type: TransactionType) =>
+    type === 'transfer' ? 'text-blue-600' : type === 'income' ? 'text-green-600' : 'text-red-600';
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando agendamentos...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Agendamentos"
+        description="Lançamentos recorrentes como salário e assinaturas, feitos automaticamente na data"
+        action={
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo Agendamento
+          </Button>
+        }
+      />
+
+      <div className="space-y-6">
+        {showForm && (
+          <Card title="Novo Agendamento">
+            {error && (
+              <div className="bg-red-100 border-l-4 border-red-500 p-4 mb-4 rounded">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleType">Tipo</Label>
+                  <select
+                    id="scheduleType"
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as TransactionType, categoryId: '' })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="income">Receita</option>
+                    <option value="expense">Despesa</option>
+                    <option value="transfer">Transferência</option>
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleAmount">Valor</Label>
+                  <Input
+                    id="scheduleAmount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0,00"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleDescription">Descrição</Label>
+                  <Input
+                    id="scheduleDescription"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="Ex: Salário"
+                  />
+                </div>
+
+                {!isTransfer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="scheduleCategory">Categoria</Label>
+                    <select
+                      id="scheduleCategory"
+                      value={form.categoryId}
+                      onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-md"
+                    >
+                      <option value="">Selecione uma categoria</option>
+                      {categories.filter(c => c.type === form.type).map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleAccount">{isTransfer ? 'Conta de Origem' : 'Conta'}</Label>
+                  <select
+                    id="scheduleAccount"
+                    value={form.accountId}
+                    onChange={(e) => setForm({ ...form, accountId: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">Selecione uma conta</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {isTransfer && (
+                  <div className="space-y-2">
+                    <Label htmlFor="scheduleDestinationAccount">Conta de Destino</Label>
+                    <select
+                      id="scheduleDestinationAccount"
+                      value={form.destinationAccountId}
+                      onChange={(e) => setForm({ ...form, destinationAccountId: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-md"
+                    >
+                      <option value="">Selecione uma conta</option>
+                      {accounts.filter(a => a.id !== form.accountId).map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleStartDate">Data inicial</Label>
+                  <Input
+                    id="scheduleStartDate"
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="scheduleEndDate">Data final (opcional)</Label>
+                  <Input
+                    id="scheduleEndDate"
+                    type="date"
+                    value={form.endDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <RecurrenceRuleFields rule={rule} startDate={startDate ?? undefined} onChange={setRule} />
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="scheduleRequiresConfirmation"
+                  checked={form.requiresConfirmation}
+                  onCheckedChange={(checked) => setForm({ ...form, requiresConfirmation: checked === true })}
+                />
+                <Label htmlFor="scheduleRequiresConfirmation" className="font-normal">
+                  Aguardar minha confirmação antes de lançar (útil para valores que variam)
+                </Label>
+              </div>
+
+              {previewDates.length > 0 && (
+                <div className="rounded-md bg-gray-50 p-3 text-sm">
+                  <p className="font-medium">{describeRecurrence(rule)}</p>
+                  <p className="text-neutral-light">
+                    Próximas datas: {previewDates.map(date => format(date, 'dd/MM/yyyy')).join(', ')}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm} disabled={submitting}>
+                  Cancelar
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Salvando...
+                    </>
+                  ) : (
+                    'Salvar Agendamento'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {pendingTransactions.length > 0 && (
+          <Card title="Aguardando confirmação" icon={<Clock size={18} />}>
+            <div className="divide-y">
+              {[...pendingTransactions]
+                .sort((a, b) => a.date.getTime() - b.date.getTime())
+                .map((pending) => {
+                  const schedule = scheduledTransactions.find(s => s.id === pending.scheduledTransactionId);
+                  if (!schedule) return null;
+
+                  return (
+                    <div key={pending.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                      <div>
+                        <p className="font-medium">{schedule.description}</p>
+                        <p className="text-sm text-neutral-light">
+                          {format(pending.date, 'dd/MM/yyyy')} · {describeAccounts(schedule)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-32"
+                          value={pendingAmounts[pending.id] ?? String(pending.amount)}
+                          onChange={(e) => setPendingAmounts({ ...pendingAmounts, [pending.id]: e.target.value })}
+                        />
+                        <Button size="sm" onClick={() => handleConfirm(pending.id, pending.amount)}>
+                          <Check className="mr-1 h-3 w-3" /> Confirmar
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => dismissPendingTransaction(pending.id)}>
+                          <X className="mr-1 h-3 w-3" /> Ignorar
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          </Card>
+        )}
+
+        <Card title={`Próximos ${UPCOMING_DAYS} dias`} icon={<CalendarClock size={18} />}>
+          {upcomingPostings.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-neutral-light">Data</th>
+                    <th className="text-left py-3 px-4 font-medium text-neutral-light">Descrição</th>
+                    <th className="text-left py-3 px-4 font-medium text-neutral-light">Conta</th>
+                    <th className="text-right py-3 px-4 font-medium text-neutral-light">Valor</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {upcomingPostings.map(({ schedule, date }) => (
+                    <tr key={`${schedule.id}-${date.getTime()}`} className="border-b last:border-0">
+                      <td className="py-3 px-4 whitespace-nowrap">{format(date, 'dd/MM/yyyy')}</td>
+                      <td className="py-3 px-4">
+                        {schedule.description}
+                        {schedule.requiresConfirmation && (
+                          <span className="ml-2 text-xs text-amber-600">requer confirmação</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">{describeAccounts(schedule)}</td>
+                      <td className={`py-3 px-4 text-right ${amountClassName(schedule.type)}`}>
+                        {formatCurrency(schedule.amount, getAccountById(schedule.accountId)?.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="py-4 text-center text-neutral-light">Nenhum lançamento agendado para os próximos dias.</p>
+          )}
+        </Card>
+
+        <Card title="Agendamentos" icon={<Repeat size={18} />}>
+          {scheduledTransactions.length > 0 ? (
+            <div className="divide-y">
+              {scheduledTransactions.map((schedule) => {
+                const category = schedule.categoryId ? getCategoryById(schedule.categoryId) : undefined;
+                const [nextDate] = getUpcomingDates(schedule, addDays(today, 366 * schedule.rule.interval));
+
+                return (
+                  <div key={schedule.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                    <div>
+                      <p className="font-medium">
+                        {category?.icon} {schedule.description}
+                      </p>
+                      <p className="text-sm text-neutral-light">
+                        {describeRecurrence(schedule.rule)} · {describeAccounts(schedule)}
+                      </p>
+                      <p className="text-xs text-neutral-light">
+                        {nextDate ? `Próximo: ${format(nextDate, 'dd/MM/yyyy')}` : 'Sem próximos lançamentos'}
+                        {schedule.endDate && ` · até ${format(schedule.endDate, 'dd/MM/yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={`font-medium ${amountClassName(schedule.type)}`}>
+                        {formatCurrency(schedule.amount, getAccountById(schedule.accountId)?.currency)}
+                      </span>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        className="text-red-500 hover:text-red-700 text-xs"
+                      >
+                        Excluir
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="py-4 text-center text-neutral-light">
+              Nenhum agendamento. Cadastre salário, assinaturas e outros lançamentos que se repetem.
+            </p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledTransactions;
@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useFinance } from '@/contexts/FinanceContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Loader2, Tag as TagIcon } from 'lucide-react';
+import { CURRENCIES, formatCurrency } from '@/lib/currency';
+import { toCalendarDay } from '@/lib/creditCards';
+import { getTagReport } from '@/lib/tagReport';
+
+const TagReport = () => {
+  const {
+    tags,
+    transactions,
+    accounts,
+    categories,
+    exchangeRates,
+    baseCurrency,
+    setBaseCurrency,
+    loading,
+  } = useFinance();
+
+  const report = useMemo(
+    () => getTagReport(tags, transactions, accounts, exchangeRates, baseCurrency),
+    [tags, transactions, accounts, exchangeRates, baseCurrency]
+  );
+
+  const formatPeriod = (firstDate: Date | null, lastDate: Date | null) => {
+    if (!firstDate || !lastDate) return 'Sem transações';
+    const first = format(toCalendarDay(firstDate), 'dd/MM/yyyy');
+    const last = format(toCalendarDay(lastDate), 'dd/MM/yyyy');
+    return first === last ? first : `${first} a ${last}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando etiquetas...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Etiquetas"
+        description="Quanto foi gasto em cada viagem, evento ou projeto"
+        action={
+          <select
+            aria-label="Moeda dos totais"
+            value={baseCurrency}
+            onChange={(e) => setBaseCurrency(e.target.value)}
+            className="px-3 py-2 border rounded-md bg-white"
+          >
+            {CURRENCIES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.code} - {option.name}
+              </option>
+            ))}
+          </select>
+        }
+      />
+
+      {report.missing.length > 0 && (
+        <div className="bg-yellow-100 border-l-4 border-yellow-500 p-4 rounded">
+          <p className="text-yellow-800">
+            Sem cotação de {report.missing.join(', ')} para {baseCurrency}: esses valores ficaram fora dos totais.
+            Cadastre as cotações em <Link to="/contas" className="underline">Contas</Link>.
+          </p>
+        </div>
+      )}
+
+      {report.summaries.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {report.summaries.map((summary) => (
+            <Card key={summary.name}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="flex items-center gap-2 font-medium">
+                    <TagIcon size={16} className="text-primary" />
+                    {summary.name}
+                  </h3>
+                  <p className="text-xs text-neutral-light mt-1">
+                    {formatPeriod(summary.firstDate, summary.lastDate)}
+                    {summary.count > 0 && ` · ${summary.count} ${summary.count === 1 ? 'transação' : 'transações'}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-bold text-red-600">{formatCurrency(summary.expense, baseCurrency)}</p>
+                  {summary.income > 0 && (
+                    <p className="text-xs text-green-600">
+                      + {formatCurrency(summary.income, baseCurrency)} em receitas
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {summary.categories.length > 0 && (
+                <div className="mt-4 space-y-1">
+                  {summary.categories.map((line) => {
+                    const category = categories.find((c) => c.id === line.categoryId);
+                    return (
+                      <div key={line.categoryId} className="flex justify-between text-sm">
+                        <span>{category?.icon} {category?.name}</span>
+                        <span className="text-neutral-light">{formatCurrency(line.amount, baseCurrency)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {summary.count > 0 && (
+                <Link
+                  to={`/transacoes?tag=${encodeURIComponent(summary.name)}`}
+                  className="mt-4 inline-block text-sm text-primary underline"
+                >
+                  Ver transações
+                </Link>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <div className="py-8 text-center">
+            <TagIcon className="mx-auto h-12 w-12 text-neutral-light opacity-50" />
+            <h3 className="mt-2 text-lg font-medium">Nenhuma etiqueta cadastrada</h3>
+            <p className="text-neutral-light">
+              Adicione etiquetas ao cadastrar uma transação ou conta a pagar, como "Viagem Floripa".
+            </p>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TagReport;
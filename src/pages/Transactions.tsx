@@ -1,20 +1,35 @@
 
 import { useState } from 'react';
-import { useFinance } from '@/contexts/FinanceContext';
+import { useFinance, Transaction, TransactionType } from '@/contexts/FinanceContext';
 import PageHeader from '@/components/PageHeader';
+import TransactionExportMenu from '@/components/TransactionExportMenu';
 import Card from '@/components/Card';
 import { Button } from '@/components/ui/button';
-import { PlusCircle, Calendar, Filter, Loader2 } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { PlusCircle, Calendar, Filter, Loader2, ArrowLeftRight, FileUp } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { supabase } from '@/integrations/supabase/client';
+import { formatCurrency } from '@/lib/currency';
+import { getCategoryLines, hasCategory, isSplitTransaction } from '@/lib/transactionSplits';
+import { flattenCategoryTree, getCategoryFamilyIds, getCategoryPath } from '@/lib/categoryTree';
 
 const Transactions = () => {
-  const { transactions, categories, accounts, deleteTransaction, loading } = useFinance();
-  const [selectedType, setSelectedType] = useState<'all' | 'income' | 'expense'>('all');
+  const {
+    transactions,
+    categories,
+    accounts,
+    tags,
+    deleteTransaction,
+    cancelRemainingInstallments,
+    settleRemainingInstallments,
+    loading,
+  } = useFinance();
+  const [selectedType, setSelectedType] = useState<'all' | TransactionType>('all');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedMonth, setSelectedMonth] = useState<string>('all');
+  // The tag report links here with ?tag=<name>
+  const [searchParams] = useSearchParams();
+  const [selectedTag, setSelectedTag] = useState<string>(searchParams.get('tag') ?? 'all');
 
   // Get all unique months from transactions
   const uniqueMonths = [...new Set(transactions.map(t => {
@@ -29,8 +44,16 @@ const Transactions = () => {
       return false;
     }
 
-    // Filter by category
-    if (selectedCategory !== 'all' && transaction.categoryId !== selectedCategory) {
+    // Filter by category, a parent category including its subcategories
+    if (
+      selectedCategory !== 'all' &&
+      !getCategoryFamilyIds(categories, selectedCategory).some(id => hasCategory(transaction, id))
+    ) {
+      return false;
+    }
+
+    // Filter by tag
+    if (selectedTag !== 'all' && !transaction.tags?.includes(selectedTag)) {
       return false;
     }
 
@@ -52,35 +75,54 @@ const Transactions = () => {
     return format(date, 'MMMM yyyy', { locale: ptBR });
   };
 
-  const handleDeleteTransaction = async (transaction: any) => {
-    if (window.confirm('Tem certeza que deseja excluir esta transação?')) {
-      try {
-        // Step 1: Find the affected account
-        const account = accounts.find(a => a.id === transaction.accountId);
-        if (!account) {
-          throw new Error('Conta não encontrada');
-        }
-        
-        // Step 2: Calculate the new balance
-        // For expenses, we add the amount back to the account
-        // For income, we subtract the amount from the account
-        const balanceChange = transaction.type === 'expense' ? transaction.amount : -transaction.amount;
-        const newBalance = account.balance + balanceChange;
-        
-        // Step 3: Update the account balance in Supabase
-        await supabase
-          .from('accounts')
-          .update({ balance: newBalance })
-          .eq('id', transaction.accountId);
-        
-        // Step 4: Delete the transaction
-        await deleteTransaction(transaction.id);
-        
-        // No need to refresh the page as the context will update the state
-      } catch (error) {
-        console.error('Error deleting transaction:', error);
-        alert('Erro ao excluir transação');
-      }
+  const typeFilterLabels: Record<'all' | TransactionType, string> = {
+    all: 'Todos os tipos',
+    income: 'Receitas',
+    expense: 'Despesas',
+    transfer: 'Transferências',
+  };
+
+  const selectedCategoryName = categories.find(c => c.id === selectedCategory)?.name;
+  const filtersDescription = [
+    selectedMonth === 'all' ? 'Todos os meses' : formatMonthName(selectedMonth),
+    typeFilterLabels[selectedType],
+    selectedCategoryName || 'Todas as categorias',
+    ...(selectedTag === 'all' ? [] : [`Etiqueta: ${selectedTag}`]),
+  ].join(' · ');
+
+  // The first installment of a purchase is the parent of the others
+  const getInstallmentParentId = (transaction: Transaction) =>
+    transaction.parentTransactionId ?? transaction.id;
+
+  const hasRemainingInstallments = (transaction: Transaction) => {
+    if (!transaction.installmentCount) return false;
+    const parentId = getInstallmentParentId(transaction);
+    const now = new Date();
+    return transactions.some(
+      t => (t.id === parentId || t.parentTransactionId === parentId) && new Date(t.date) > now
+    );
+  };
+
+  const handleCancelInstallments = async (transaction: Transaction) => {
+    if (window.confirm('Cancelar as parcelas futuras desta compra? As parcelas já lançadas serão mantidas.')) {
+      await cancelRemainingInstallments(getInstallmentParentId(transaction));
+    }
+  };
+
+  const handleSettleInstallments = async (transaction: Transaction) => {
+    if (window.confirm('Antecipar as parcelas futuras desta compra para a fatura atual?')) {
+      await settleRemainingInstallments(getInstallmentParentId(transaction));
+    }
+  };
+
+  const handleDeleteTransaction = async (transaction: Transaction) => {
+    const message = transaction.installmentNumber === 1
+      ? 'Excluir a primeira parcela exclui todas as parcelas desta compra. Deseja continuar?'
+      : 'Tem certeza que deseja excluir esta transação?';
+    if (window.confirm(message)) {
+      // Account balances are derived from the ledger, so removing the
+      // transaction is enough to restore them
+      await deleteTransaction(transaction.id);
     }
   };
 
@@ -99,11 +141,22 @@ const Transactions = () => {
         title="Transações" 
         description="Gerencie suas transações financeiras"
         action={
-          <Link to="/nova-transacao">
-            <Button className="bg-primary hover:bg-primary/90">
-              <PlusCircle className="mr-2 h-4 w-4" /> Nova Transação
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <TransactionExportMenu
+              transactions={filteredTransactions}
+              filtersDescription={filtersDescription}
+            />
+            <Link to="/importar">
+              <Button variant="outline">
+                <FileUp className="mr-2 h-4 w-4" /> Importar
+              </Button>
+            </Link>
+            <Link to="/nova-transacao">
+              <Button className="bg-primary hover:bg-primary/90">
+                <PlusCircle className="mr-2 h-4 w-4" /> Nova Transação
+              </Button>
+            </Link>
+          </div>
         }
       />
 
@@ -130,12 +183,13 @@ const Transactions = () => {
             
             <select
               value={selectedType}
-              onChange={(e) => setSelectedType(e.target.value as 'all' | 'income' | 'expense')}
+              onChange={(e) => setSelectedType(e.target.value as 'all' | TransactionType)}
               className="px-3 py-1 border rounded-md text-sm bg-white"
             >
               <option value="all">Todos os tipos</option>
               <option value="income">Receitas</option>
               <option value="expense">Despesas</option>
+              <option value="transfer">Transferências</option>
             </select>
             
             <select
@@ -144,14 +198,30 @@ const Transactions = () => {
               className="px-3 py-1 border rounded-md text-sm bg-white"
             >
               <option value="all">Todas as categorias</option>
-              {categories
-                .filter(c => selectedType === 'all' || c.type === selectedType)
-                .map((category) => (
+              {flattenCategoryTree(categories.filter(c => selectedType === 'all' || c.type === selectedType))
+                .map(({ category }) => (
                   <option key={category.id} value={category.id}>
-                    {category.icon} {category.name}
+                    {category.icon} {getCategoryPath(categories, category)}
                   </option>
                 ))}
             </select>
+
+            {tags.length > 0 && (
+              <select
+                value={selectedTag}
+                onChange={(e) => setSelectedTag(e.target.value)}
+                className="px-3 py-1 border rounded-md text-sm bg-white"
+              >
+                <option value="all">Todas as etiquetas</option>
+                {[...tags]
+                  .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'))
+                  .map((tag) => (
+                    <option key={tag.id} value={tag.name}>
+                      {tag.name}
+                    </option>
+                  ))}
+              </select>
+            )}
           </div>
         </div>
 
@@ -174,20 +244,92 @@ const Transactions = () => {
                   .map((transaction) => {
                     const category = categories.find(c => c.id === transaction.categoryId);
                     const account = accounts.find(a => a.id === transaction.accountId);
+                    const destinationAccount = accounts.find(a => a.id === transaction.destinationAccountId);
+                    const isTransfer = transaction.type === 'transfer';
                     return (
                       <tr key={transaction.id} className="border-b last:border-0 hover:bg-gray-50">
-                        <td className="py-3">{transaction.description}</td>
+                        <td className="py-3">
+                          {transaction.description}
+                          {transaction.installmentCount && (
+                            <span className="text-neutral-light">
+                              {' '}({transaction.installmentNumber}/{transaction.installmentCount})
+                            </span>
+                          )}
+                          {(transaction.tags?.length ?? 0) > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {transaction.tags!.map((tag) => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setSelectedTag(tag)}
+                                  className="rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary hover:bg-primary/20"
+                                >
+                                  {tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </td>
                         <td className="py-3">{format(new Date(transaction.date), 'dd/MM/yyyy')}</td>
                         <td className="py-3 flex items-center gap-2">
-                          <span>{category?.icon}</span>
-                          {category?.name}
+                          {isTransfer ? (
+                            <>
+                              <ArrowLeftRight size={14} className="text-blue-600" />
+                              Transferência
+                            </>
+                          ) : isSplitTransaction(transaction) ? (
+                            <div className="space-y-0.5">
+                              {getCategoryLines(transaction).map((line, index) => {
+                                const lineCategory = categories.find(c => c.id === line.categoryId);
+                                return (
+                                  <p key={index} className="text-xs">
+                                    {lineCategory?.icon} {lineCategory?.name} · {formatCurrency(line.amount, account?.currency)}
+                                  </p>
+                                );
+                              })}
+                            </div>
+                          ) : (
+                            <>
+                              <span>{category?.icon}</span>
+                              {category?.name}
+                            </>
+                          )}
                         </td>
-                        <td className="py-3">{account?.name}</td>
-                        <td className={`py-3 text-right ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                          {transaction.type === 'income' ? '+' : '-'} 
-                          {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(transaction.amount)}
+                        <td className="py-3">
+                          {account?.name}
+                          {isTransfer && ` → ${destinationAccount?.name ?? ''}`}
+                        </td>
+                        <td className={`py-3 text-right ${isTransfer ? 'text-blue-600' : transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {!isTransfer && (transaction.type === 'income' ? '+' : '-')} 
+                          {formatCurrency(transaction.amount, account?.currency)}
+                          {transaction.destinationAmount != null && (
+                            <div className="text-xs text-neutral-light">
+                              → {formatCurrency(transaction.destinationAmount, destinationAccount?.currency)}
+                            </div>
+                          )}
                         </td>
                         <td className="py-3 text-right space-x-2">
+                          {hasRemainingInstallments(transaction) && (
+                            <>
+                              <button
+                                onClick={() => handleSettleInstallments(transaction)}
+                                className="text-primary hover:text-primary/80 text-xs"
+                              >
+                                Antecipar parcelas
+                              </button>
+                              <button
+                                onClick={() => handleCancelInstallments(transaction)}
+                                className="text-neutral-light hover:text-neutral text-xs"
+                              >
+                                Cancelar parcelas
+                              </button>
+                            </>
+                          )}
+                          <Link
+                            to={`/transacoes/${transaction.id}`}
+                            className="text-primary hover:text-primary/80 text-xs"
+                          >
+                            Editar
+                          </Link>
                           <button
                             onClick={() => handleDeleteTransaction(transaction)}
                             className="text-red-500 hover:text-red-700 text-xs"
@@ -0,0 +1,277 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWorkspace, WorkspaceMember, WorkspaceRole } from '@/contexts/WorkspaceContext';
+import { useAuth } from '@/contexts/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/Card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, PlusCircle, UserPlus, Users } from 'lucide-react';
+
+const roleOptions: { id: WorkspaceRole; name: string; description: string }[] = [
+  { id: 'owner', name: 'Proprietário', description: 'Gerencia membros e dados' },
+  { id: 'editor', name: 'Editor', description: 'Adiciona e altera dados' },
+  { id: 'viewer', name: 'Leitor', description: 'Apenas visualiza' },
+];
+
+const Workspace = () => {
+  const { user } = useAuth();
+  const {
+    currentWorkspace,
+    loading,
+    createWorkspace,
+    getMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [membersLoading, setMembersLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isOwner = currentWorkspace?.role === 'owner';
+  // A workspace always keeps an owner, so the last one can't leave or be removed
+  const ownerCount = members.filter((member) => member.role === 'owner').length;
+
+  const loadMembers = useCallback(async () => {
+    setMembersLoading(true);
+    setMembers(await getMembers());
+    setMembersLoading(false);
+  }, [getMembers]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setSubmitting(true);
+    try {
+      if (await addMember(email.trim(), role)) {
+        setEmail('');
+        setRole('editor');
+        await loadMembers();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: WorkspaceRole) => {
+    await updateMemberRole(memberId, newRole);
+    await loadMembers();
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    const isSelf = member.userId === user?.id;
+    const message = isSelf
+      ? 'Tem certeza que deseja sair deste espaço de trabalho?'
+      : `Tem certeza que deseja remover ${member.email}?`;
+
+    if (window.confirm(message)) {
+      await removeMember(member.userId);
+      if (!isSelf) {
+        await loadMembers();
+      }
+    }
+  };
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await createWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+      setShowCreateForm(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando espaço de trabalho...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title={currentWorkspace?.name || 'Espaço de Trabalho'}
+        description="Compartilhe suas finanças com outras pessoas"
+        action={
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            onClick={() => setShowCreateForm(!showCreateForm)}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo Espaço
+          </Button>
+        }
+      />
+
+      <div className="space-y-6">
+        {showCreateForm && (
+          <Card title="Novo Espaço de Trabalho">
+            <form onSubmit={handleCreateWorkspace} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="workspaceName">Nome</Label>
+                <Input
+                  id="workspaceName"
+                  value={newWorkspaceName}
+                  onChange={(e) => setNewWorkspaceName(e.target.value)}
+                  placeholder="Ex: Casa, Empresa"
+                  required
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowCreateForm(false)}
+                  disabled={submitting}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={submitting}
+                >
+                  Criar Espaço
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {isOwner && (
+          <Card title="Adicionar Membro" icon={<UserPlus size={18} />}>
+            <form onSubmit={handleAddMember} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="memberEmail">E-mail</Label>
+                  <Input
+                    id="memberEmail"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="pessoa@exemplo.com"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="memberRole">Papel</Label>
+                  <select
+                    id="memberRole"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    {roleOptions.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.name} — {option.description}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <p className="text-xs text-neutral-light">
+                A pessoa precisa ter uma conta cadastrada com este e-mail.
+              </p>
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={submitting}
+                >
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Adicionando...
+                    </>
+                  ) : (
+                    'Adicionar Membro'
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        <Card title="Membros" icon={<Users size={18} />}>
+          {membersLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="divide-y">
+              {members.map((member) => {
+                const isSelf = member.userId === user?.id;
+                const isLastOwner = member.role === 'owner' && ownerCount === 1;
+
+                return (
+                  <div key={member.userId} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {member.email}
+                        {isSelf && <span className="ml-2 text-xs text-neutral-light">(você)</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {isOwner && !isSelf ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member.userId, e.target.value as WorkspaceRole)}
+                          className="px-3 py-1 border rounded-md text-sm bg-white"
+                        >
+                          {roleOptions.map((option) => (
+                            <option key={option.id} value={option.id}>
+                              {option.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-neutral-light">
+                          {roleOptions.find((option) => option.id === member.role)?.name}
+                        </span>
+                      )}
+                      {(isOwner || isSelf) && !isLastOwner && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-500 hover:text-red-700 text-xs"
+                          onClick={() => handleRemoveMember(member)}
+                        >
+                          {isSelf ? 'Sair' : 'Remover'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Workspace;
@@ -0,0 +1,52 @@
+// Materializes the occurrences of every recurring bill template a few months
+// ahead. Scheduled daily by pg_cron (see the bill_templates migration).
+//
+// To run it locally:
+//   supabase functions serve generate-recurring-bills
+//   curl -X POST http://localhost:54321/functions/v1/generate-recurring-bills \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -d '{"monthsAhead": 3}'
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const DEFAULT_MONTHS_AHEAD = 3;
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+  // Generating for every workspace bypasses row level security, so only the
+  // scheduler may call this
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let monthsAhead = DEFAULT_MONTHS_AHEAD;
+  try {
+    const body = await req.json();
+    if (Number.isInteger(body?.monthsAhead) && body.monthsAhead > 0) {
+      monthsAhead = body.monthsAhead;
+    }
+  } catch {
+    // No body: use the default horizon
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data, error } = await supabase.rpc("generate_recurring_bills", {
+    p_months_ahead: monthsAhead,
+  });
+
+  if (error) {
+    console.error("Error generating recurring bills:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ generated: data, monthsAhead }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,227 @@
+// Sends the day's bill reminders: a Web Push notification per bill to every
+// device a member subscribed, and one email digest per member listing the
+// bills due soon or overdue. Scheduled daily by pg_cron (see the
+// bill_reminders migration); reminders already sent today are skipped.
+//
+// Environment:
+//   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT  (npx web-push generate-vapid-keys;
+//     the app subscribes with the same public key, set as VITE_VAPID_PUBLIC_KEY)
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_FROM
+//   APP_URL  (links in the email and notifications)
+//
+// To run it locally, point SMTP at the Inbucket server of the local stack
+// (see [inbucket] in supabase/config.toml) by adding to supabase/functions/.env
+//   SMTP_HOST=supabase_inbucket_hgiracgxmctotfljrmkj
+//   SMTP_PORT=2500
+// and read the digests at http://localhost:54324:
+//   supabase functions serve send-bill-reminders
+//   curl -X POST http://localhost:54321/functions/v1/send-bill-reminders \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+import { createClient } from "npm:@supabase/supabase-js@2";
+import webpush from "npm:web-push@3";
+import nodemailer from "npm:nodemailer@6";
+
+interface Reminder {
+  user_id: string;
+  email: string;
+  email_digest: boolean;
+  workspace_name: string;
+  bill_id: string;
+  description: string;
+  remaining: number;
+  due_date: string;
+  days_until: number;
+}
+
+interface LogEntry {
+  bill_id: string;
+  user_id: string;
+  channel: "push" | "email";
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatDate = (date: string) => date.split("-").reverse().join("/");
+
+const describeDueDate = (daysUntil: number) => {
+  if (daysUntil < 0) return `venceu há ${-daysUntil} ${daysUntil === -1 ? "dia" : "dias"}`;
+  if (daysUntil === 0) return "vence hoje";
+  if (daysUntil === 1) return "vence amanhã";
+  return `vence em ${daysUntil} dias`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const buildDigest = (reminders: Reminder[], appUrl: string) => {
+  const overdue = reminders.filter((r) => r.days_until < 0);
+  const upcoming = reminders.filter((r) => r.days_until >= 0);
+
+  const section = (title: string, items: Reminder[]) =>
+    items.length === 0
+      ? ""
+      : `<h3>${title}</h3><ul>${items
+          .map(
+            (r) =>
+              `<li><strong>${escapeHtml(r.description)}</strong> (${escapeHtml(r.workspace_name)}): ` +
+              `${formatCurrency(r.remaining)}, ${describeDueDate(r.days_until)} (${formatDate(r.due_date)})</li>`
+          )
+          .join("")}</ul>`;
+
+  const lines = reminders.map(
+    (r) => `- ${r.description} (${r.workspace_name}): ${formatCurrency(r.remaining)}, ${describeDueDate(r.days_until)}`
+  );
+
+  return {
+    subject: overdue.length > 0
+      ? `Você tem ${overdue.length} ${overdue.length === 1 ? "conta vencida" : "contas vencidas"}`
+      : `Contas a vencer: ${upcoming.length}`,
+    html: `${section("Vencidas", overdue)}${section("A vencer", upcoming)}` +
+      `<p><a href="${appUrl}/contas-a-pagar">Ver contas a pagar</a></p>`,
+    text: `${lines.join("\n")}\n\n${appUrl}/contas-a-pagar`,
+  };
+};
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const appUrl = (Deno.env.get("APP_URL") ?? "http://localhost:8080").replace(/\/$/, "");
+
+  // Reminders read every workspace, so only the scheduler may call this
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: reminders, error } = await supabase.rpc("due_bill_reminders");
+  if (error) {
+    console.error("Error listing bill reminders:", error);
+    return json({ error: error.message }, 500);
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const { data: alreadySent, error: logError } = await supabase
+    .from("bill_reminder_log")
+    .select("bill_id, user_id, channel")
+    .eq("sent_on", today);
+
+  if (logError) {
+    console.error("Error reading reminder log:", logError);
+    return json({ error: logError.message }, 500);
+  }
+
+  const sentKeys = new Set((alreadySent ?? []).map((e: LogEntry) => `${e.bill_id}:${e.user_id}:${e.channel}`));
+  const isPending = (r: Reminder, channel: LogEntry["channel"]) => !sentKeys.has(`${r.bill_id}:${r.user_id}:${channel}`);
+
+  const byUser = new Map<string, Reminder[]>();
+  (reminders as Reminder[]).forEach((r) => byUser.set(r.user_id, [...(byUser.get(r.user_id) ?? []), r]));
+
+  const log: LogEntry[] = [];
+  let pushed = 0;
+  let emailed = 0;
+
+  // Push notifications
+  const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (vapidPublicKey && vapidPrivateKey) {
+    webpush.setVapidDetails(
+      Deno.env.get("VAPID_SUBJECT") ?? "mailto:no-reply@localhost",
+      vapidPublicKey,
+      vapidPrivateKey
+    );
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from("push_subscriptions")
+      .select("*")
+      .in("user_id", [...byUser.keys()]);
+
+    if (subscriptionsError) console.error("Error loading push subscriptions:", subscriptionsError);
+
+    for (const [userId, userReminders] of byUser) {
+      const devices = (subscriptions ?? []).filter((s) => s.user_id === userId);
+      const pending = userReminders.filter((r) => isPending(r, "push"));
+      if (devices.length === 0 || pending.length === 0) continue;
+
+      for (const reminder of pending) {
+        const payload = JSON.stringify({
+          title: reminder.description,
+          body: `${formatCurrency(reminder.remaining)} - ${describeDueDate(reminder.days_until)}`,
+          url: `${appUrl}/contas-a-pagar`,
+          tag: `bill-${reminder.bill_id}`,
+        });
+
+        let delivered = false;
+        for (const device of devices) {
+          try {
+            await webpush.sendNotification(
+              { endpoint: device.endpoint, keys: { p256dh: device.p256dh, auth: device.auth } },
+              payload
+            );
+            delivered = true;
+          } catch (pushError) {
+            // The browser dropped the subscription: forget the device
+            const statusCode = (pushError as { statusCode?: number }).statusCode;
+            if (statusCode === 404 || statusCode === 410) {
+              await supabase.from("push_subscriptions").delete().eq("id", device.id);
+            } else {
+              console.error("Error sending push notification:", pushError);
+            }
+          }
+        }
+
+        if (delivered) {
+          pushed += 1;
+          log.push({ bill_id: reminder.bill_id, user_id: userId, channel: "push" });
+        }
+      }
+    }
+  }
+
+  // Email digests
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  if (smtpHost) {
+    const smtpPort = parseInt(Deno.env.get("SMTP_PORT") ?? "587", 10);
+    const smtpUser = Deno.env.get("SMTP_USER");
+    const transporter = nodemailer.createTransport({
+      host: smtpHost,
+      port: smtpPort,
+      secure: smtpPort === 465,
+      auth: smtpUser ? { user: smtpUser, pass: Deno.env.get("SMTP_PASSWORD") ?? "" } : undefined,
+    });
+
+    for (const [userId, userReminders] of byUser) {
+      const [{ email, email_digest }] = userReminders;
+      if (!email || !email_digest || !userReminders.some((r) => isPending(r, "email"))) continue;
+
+      const digest = buildDigest(userReminders, appUrl);
+      try {
+        await transporter.sendMail({
+          from: Deno.env.get("SMTP_FROM") ?? "Vibe Finanças <no-reply@localhost>",
+          to: email,
+          ...digest,
+        });
+        emailed += 1;
+        userReminders.forEach((r) => log.push({ bill_id: r.bill_id, user_id: userId, channel: "email" }));
+      } catch (mailError) {
+        console.error("Error sending reminder email:", mailError);
+      }
+    }
+  }
+
+  if (log.length > 0) {
+    const { error: insertError } = await supabase
+      .from("bill_reminder_log")
+      .upsert(log.map((entry) => ({ ...entry, sent_on: today })), { ignoreDuplicates: true });
+    if (insertError) console.error("Error writing reminder log:", insertError);
+  }
+
+  return json({ reminders: reminders.length, pushed, emailed });
+});
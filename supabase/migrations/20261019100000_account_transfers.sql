@@ -0,0 +1,42 @@
+-- Transfers between accounts are stored as a single ledger row: `account_id`
+-- is the source and `destination_account_id` the destination. They carry no
+-- category, so `category_id` becomes optional for them.
+alter table public.transactions
+  add column destination_account_id uuid references public.accounts(id),
+  alter column category_id drop not null;
+
+alter table public.transactions
+  add constraint transactions_transfer_check check (
+    (type = 'transfer' and destination_account_id is not null and destination_account_id <> account_id)
+    or (type <> 'transfer' and destination_account_id is null and category_id is not null)
+  );
+
+-- Records a transfer and moves the money between both accounts in a single
+-- database transaction.
+create or replace function public.create_transfer(
+  p_from_account_id uuid,
+  p_to_account_id uuid,
+  p_amount numeric,
+  p_date timestamptz,
+  p_description text
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_transaction public.transactions;
+begin
+  if p_amount <= 0 then
+    raise exception 'Transfer amount must be positive';
+  end if;
+
+  insert into public.transactions (type, amount, date, account_id, destination_account_id, description)
+  values ('transfer', p_amount, p_date, p_from_account_id, p_to_account_id, p_description)
+  returning * into v_transaction;
+
+  update public.accounts set balance = balance - p_amount where id = p_from_account_id;
+  update public.accounts set balance = balance + p_amount where id = p_to_account_id;
+
+  return v_transaction;
+end;
+$$;
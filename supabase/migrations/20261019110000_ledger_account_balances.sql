@@ -0,0 +1,67 @@
+-- Account balances are derived from an opening balance plus the ledger.
+-- The stored `balance` column is kept as a cached value maintained by a
+-- trigger so it can be compared against the computed one on the
+-- reconciliation screen.
+alter table public.accounts
+  add column opening_balance numeric not null default 0;
+
+-- The old client entered `balance` as the initial balance and only patched it
+-- on some flows, so that is the best available opening balance. Accounts that
+-- drifted show up as discrepancies to be settled on the reconciliation screen.
+update public.accounts set opening_balance = balance;
+
+create or replace view public.account_balances
+with (security_invoker = true) as
+select
+  a.id as account_id,
+  a.opening_balance,
+  a.balance as stored_balance,
+  a.opening_balance + coalesce(sum(
+    case
+      when t.type = 'income' and t.account_id = a.id then t.amount
+      when t.type in ('expense', 'transfer') and t.account_id = a.id then -t.amount
+      when t.type = 'transfer' and t.destination_account_id = a.id then t.amount
+      else 0
+    end
+  ), 0) as computed_balance
+from public.accounts a
+left join public.transactions t
+  on t.account_id = a.id or t.destination_account_id = a.id
+group by a.id;
+
+-- Keeps the cached balance in step with the ledger
+create or replace function public.sync_account_stored_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.accounts
+      set balance = balance + case when old.type = 'income' then -old.amount else old.amount end
+      where id = old.account_id;
+
+    if old.type = 'transfer' then
+      update public.accounts set balance = balance - old.amount where id = old.destination_account_id;
+    end if;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    update public.accounts
+      set balance = balance + case when new.type = 'income' then new.amount else -new.amount end
+      where id = new.account_id;
+
+    if new.type = 'transfer' then
+      update public.accounts set balance = balance + new.amount where id = new.destination_account_id;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger transactions_sync_account_stored_balance
+after insert or update or delete on public.transactions
+for each row execute function public.sync_account_stored_balance();
+
+-- Transfers are plain ledger rows now; the trigger moves both balances
+drop function if exists public.create_transfer(uuid, uuid, numeric, timestamptz, text);
@@ -0,0 +1,58 @@
+-- Pays a bill in a single database transaction: marks it as paid, records the
+-- expense in the ledger (the balance trigger updates the account) and creates
+-- the next occurrence of recurring bills.
+create or replace function public.pay_bill(
+  p_bill_id uuid,
+  p_account_id uuid
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_bill public.bills;
+  v_transaction public.transactions;
+  v_next_due_date date;
+begin
+  select * into v_bill from public.bills where id = p_bill_id for update;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  if v_bill.status <> 'pending' then
+    raise exception 'Bill % is not pending', p_bill_id;
+  end if;
+
+  if not exists (select 1 from public.accounts where id = p_account_id) then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  update public.bills set status = 'paid' where id = p_bill_id;
+
+  insert into public.transactions (type, amount, date, category_id, account_id, description)
+  values ('expense', v_bill.amount, now(), v_bill.category_id, p_account_id, 'Pagamento: ' || v_bill.description)
+  returning * into v_transaction;
+
+  if v_bill.is_recurring and v_bill.recurrence_type is not null then
+    v_next_due_date := case v_bill.recurrence_type
+      when 'monthly' then v_bill.due_date + interval '1 month'
+      when 'weekly' then v_bill.due_date + interval '7 days'
+      when 'yearly' then v_bill.due_date + interval '1 year'
+    end;
+
+    if v_next_due_date is not null
+      and (v_bill.recurrence_end_date is null or v_next_due_date <= v_bill.recurrence_end_date) then
+      insert into public.bills (
+        description, amount, due_date, category_id, status,
+        is_recurring, recurrence_type, recurrence_end_date
+      )
+      values (
+        v_bill.description, v_bill.amount, v_next_due_date, v_bill.category_id, 'pending',
+        v_bill.is_recurring, v_bill.recurrence_type, v_bill.recurrence_end_date
+      );
+    end if;
+  end if;
+
+  return v_transaction;
+end;
+$$;
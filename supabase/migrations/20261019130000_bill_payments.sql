@@ -0,0 +1,94 @@
+-- Bills can be paid in several chunks. Every payment is recorded in
+-- `bill_payments` and linked to the ledger transaction it created.
+create table public.bill_payments (
+  id uuid primary key default gen_random_uuid(),
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  account_id uuid not null references public.accounts(id),
+  transaction_id uuid references public.transactions(id) on delete set null,
+  amount numeric not null check (amount > 0),
+  paid_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index bill_payments_bill_id_idx on public.bill_payments (bill_id);
+
+drop function if exists public.pay_bill(uuid, uuid);
+
+-- Pays a bill, or part of it, in a single database transaction. A null amount
+-- pays whatever is left. The bill becomes 'partially_paid' until the
+-- payments cover its amount, and only then is the next recurrence created.
+create or replace function public.pay_bill(
+  p_bill_id uuid,
+  p_account_id uuid,
+  p_amount numeric default null
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_bill public.bills;
+  v_transaction public.transactions;
+  v_paid numeric;
+  v_remaining numeric;
+  v_amount numeric;
+  v_next_due_date date;
+begin
+  select * into v_bill from public.bills where id = p_bill_id for update;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  if v_bill.status not in ('pending', 'partially_paid') then
+    raise exception 'Bill % is not open', p_bill_id;
+  end if;
+
+  if not exists (select 1 from public.accounts where id = p_account_id) then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from public.bill_payments where bill_id = p_bill_id;
+  v_remaining := v_bill.amount - v_paid;
+  v_amount := coalesce(p_amount, v_remaining);
+
+  if v_amount <= 0 or v_amount > v_remaining then
+    raise exception 'Payment amount must be between 0 and %', v_remaining;
+  end if;
+
+  insert into public.transactions (type, amount, date, category_id, account_id, description)
+  values ('expense', v_amount, now(), v_bill.category_id, p_account_id, 'Pagamento: ' || v_bill.description)
+  returning * into v_transaction;
+
+  insert into public.bill_payments (bill_id, account_id, transaction_id, amount, paid_at)
+  values (p_bill_id, p_account_id, v_transaction.id, v_amount, v_transaction.date);
+
+  if v_amount < v_remaining then
+    update public.bills set status = 'partially_paid' where id = p_bill_id;
+    return v_transaction;
+  end if;
+
+  update public.bills set status = 'paid' where id = p_bill_id;
+
+  if v_bill.is_recurring and v_bill.recurrence_type is not null then
+    v_next_due_date := case v_bill.recurrence_type
+      when 'monthly' then v_bill.due_date + interval '1 month'
+      when 'weekly' then v_bill.due_date + interval '7 days'
+      when 'yearly' then v_bill.due_date + interval '1 year'
+    end;
+
+    if v_next_due_date is not null
+      and (v_bill.recurrence_end_date is null or v_next_due_date <= v_bill.recurrence_end_date) then
+      insert into public.bills (
+        description, amount, due_date, category_id, status,
+        is_recurring, recurrence_type, recurrence_end_date
+      )
+      values (
+        v_bill.description, v_bill.amount, v_next_due_date, v_bill.category_id, 'pending',
+        v_bill.is_recurring, v_bill.recurrence_type, v_bill.recurrence_end_date
+      );
+    end if;
+  end if;
+
+  return v_transaction;
+end;
+$$;
@@ -0,0 +1,51 @@
+-- Every row belongs to the user who created it and row-level security keeps
+-- users from seeing each other's data. Rows created before this migration have
+-- no owner and stay hidden until they are assigned, e.g.
+--   update public.accounts set user_id = '<user uuid>' where user_id is null;
+alter table public.accounts
+  add column user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.categories
+  add column user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.transactions
+  add column user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.bills
+  add column user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table public.bill_payments
+  add column user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+
+create index accounts_user_id_idx on public.accounts (user_id);
+create index categories_user_id_idx on public.categories (user_id);
+create index transactions_user_id_idx on public.transactions (user_id);
+create index bills_user_id_idx on public.bills (user_id);
+create index bill_payments_user_id_idx on public.bill_payments (user_id);
+
+alter table public.accounts enable row level security;
+alter table public.categories enable row level security;
+alter table public.transactions enable row level security;
+alter table public.bills enable row level security;
+alter table public.bill_payments enable row level security;
+
+create policy "Users manage their own accounts" on public.accounts
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage their own categories" on public.categories
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage their own transactions" on public.transactions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage their own bills" on public.bills
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage their own bill payments" on public.bill_payments
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,320 @@
+-- Workspaces let several users share the same accounts, categories,
+-- transactions and bills. Members are owners (manage members), editors
+-- (change data) or viewers (read only).
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Role of the current user in a workspace, or null when not a member. Security
+-- definer so policies on workspace_members can use it without recursing.
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = p_workspace_id and user_id = auth.uid()
+$$;
+
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.workspace_role(p_workspace_id) is not null
+$$;
+
+create or replace function public.can_edit_workspace(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.workspace_role(p_workspace_id) in ('owner', 'editor'), false)
+$$;
+
+-- Whoever creates a workspace owns it
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (new.id, new.created_by, 'owner');
+  return new;
+end;
+$$;
+
+create trigger workspaces_add_owner
+after insert on public.workspaces
+for each row execute function public.add_workspace_owner();
+
+-- Every new user starts with a personal workspace
+create or replace function public.create_personal_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspaces (name, created_by) values ('Pessoal', new.id);
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_workspace
+after insert on auth.users
+for each row execute function public.create_personal_workspace();
+
+-- Existing users get a personal workspace holding the data they own
+insert into public.workspaces (name, created_by)
+select 'Pessoal', id from auth.users;
+
+alter table public.accounts add column workspace_id uuid references public.workspaces(id) on delete cascade;
+alter table public.categories add column workspace_id uuid references public.workspaces(id) on delete cascade;
+alter table public.transactions add column workspace_id uuid references public.workspaces(id) on delete cascade;
+alter table public.bills add column workspace_id uuid references public.workspaces(id) on delete cascade;
+alter table public.bill_payments add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+update public.accounts t set workspace_id = w.id from public.workspaces w where w.created_by = t.user_id;
+update public.categories t set workspace_id = w.id from public.workspaces w where w.created_by = t.user_id;
+update public.transactions t set workspace_id = w.id from public.workspaces w where w.created_by = t.user_id;
+update public.bills t set workspace_id = w.id from public.workspaces w where w.created_by = t.user_id;
+update public.bill_payments t set workspace_id = w.id from public.workspaces w where w.created_by = t.user_id;
+
+create index accounts_workspace_id_idx on public.accounts (workspace_id);
+create index categories_workspace_id_idx on public.categories (workspace_id);
+create index transactions_workspace_id_idx on public.transactions (workspace_id);
+create index bills_workspace_id_idx on public.bills (workspace_id);
+create index bill_payments_workspace_id_idx on public.bill_payments (workspace_id);
+
+-- Replace the per-user policies with workspace membership checks
+drop policy "Users manage their own accounts" on public.accounts;
+drop policy "Users manage their own categories" on public.categories;
+drop policy "Users manage their own transactions" on public.transactions;
+drop policy "Users manage their own bills" on public.bills;
+drop policy "Users manage their own bill payments" on public.bill_payments;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['accounts', 'categories', 'transactions', 'bills', 'bill_payments'] loop
+    execute format(
+      'create policy "Members can view %1$s" on public.%1$I for select to authenticated
+         using (public.is_workspace_member(workspace_id))', v_table);
+    execute format(
+      'create policy "Editors can insert %1$s" on public.%1$I for insert to authenticated
+         with check (public.can_edit_workspace(workspace_id))', v_table);
+    execute format(
+      'create policy "Editors can update %1$s" on public.%1$I for update to authenticated
+         using (public.can_edit_workspace(workspace_id))
+         with check (public.can_edit_workspace(workspace_id))', v_table);
+    execute format(
+      'create policy "Editors can delete %1$s" on public.%1$I for delete to authenticated
+         using (public.can_edit_workspace(workspace_id))', v_table);
+  end loop;
+end;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can view workspaces" on public.workspaces
+  for select to authenticated
+  using (public.is_workspace_member(id));
+
+create policy "Users can create workspaces" on public.workspaces
+  for insert to authenticated
+  with check (created_by = auth.uid());
+
+create policy "Owners can update workspaces" on public.workspaces
+  for update to authenticated
+  using (public.workspace_role(id) = 'owner');
+
+create policy "Owners can delete workspaces" on public.workspaces
+  for delete to authenticated
+  using (public.workspace_role(id) = 'owner');
+
+create policy "Members can view members" on public.workspace_members
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Owners can update members" on public.workspace_members
+  for update to authenticated
+  using (public.workspace_role(workspace_id) = 'owner')
+  with check (public.workspace_role(workspace_id) = 'owner');
+
+create policy "Owners can remove members" on public.workspace_members
+  for delete to authenticated
+  using (public.workspace_role(workspace_id) = 'owner' or user_id = auth.uid());
+
+-- Members are added by e-mail, which requires looking up auth.users
+create or replace function public.add_workspace_member(
+  p_workspace_id uuid,
+  p_email text,
+  p_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  if public.workspace_role(p_workspace_id) is distinct from 'owner' then
+    raise exception 'Only workspace owners can add members';
+  end if;
+
+  if p_role not in ('owner', 'editor', 'viewer') then
+    raise exception 'Invalid role %', p_role;
+  end if;
+
+  select id into v_user_id from auth.users where lower(email) = lower(trim(p_email));
+
+  if v_user_id is null then
+    raise exception 'No user registered with e-mail %', p_email;
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (p_workspace_id, v_user_id, p_role)
+  on conflict (workspace_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+create or replace function public.get_workspace_members(p_workspace_id uuid)
+returns table (user_id uuid, email text, role text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'Not a member of workspace %', p_workspace_id;
+  end if;
+
+  return query
+    select m.user_id, u.email::text, m.role
+    from public.workspace_members m
+    join auth.users u on u.id = m.user_id
+    where m.workspace_id = p_workspace_id
+    order by m.created_at;
+end;
+$$;
+
+create or replace view public.account_balances
+with (security_invoker = true) as
+select
+  a.id as account_id,
+  a.opening_balance,
+  a.balance as stored_balance,
+  a.opening_balance + coalesce(sum(
+    case
+      when t.type = 'income' and t.account_id = a.id then t.amount
+      when t.type in ('expense', 'transfer') and t.account_id = a.id then -t.amount
+      when t.type = 'transfer' and t.destination_account_id = a.id then t.amount
+      else 0
+    end
+  ), 0) as computed_balance,
+  a.workspace_id
+from public.accounts a
+left join public.transactions t
+  on t.account_id = a.id or t.destination_account_id = a.id
+group by a.id;
+
+-- Rows created by pay_bill belong to the bill's workspace
+create or replace function public.pay_bill(
+  p_bill_id uuid,
+  p_account_id uuid,
+  p_amount numeric default null
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_bill public.bills;
+  v_transaction public.transactions;
+  v_paid numeric;
+  v_remaining numeric;
+  v_amount numeric;
+  v_next_due_date date;
+begin
+  select * into v_bill from public.bills where id = p_bill_id for update;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  if v_bill.status not in ('pending', 'partially_paid') then
+    raise exception 'Bill % is not open', p_bill_id;
+  end if;
+
+  if not exists (
+    select 1 from public.accounts where id = p_account_id and workspace_id = v_bill.workspace_id
+  ) then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from public.bill_payments where bill_id = p_bill_id;
+  v_remaining := v_bill.amount - v_paid;
+  v_amount := coalesce(p_amount, v_remaining);
+
+  if v_amount <= 0 or v_amount > v_remaining then
+    raise exception 'Payment amount must be between 0 and %', v_remaining;
+  end if;
+
+  insert into public.transactions (type, amount, date, category_id, account_id, description, workspace_id)
+  values ('expense', v_amount, now(), v_bill.category_id, p_account_id, 'Pagamento: ' || v_bill.description, v_bill.workspace_id)
+  returning * into v_transaction;
+
+  insert into public.bill_payments (bill_id, account_id, transaction_id, amount, paid_at, workspace_id)
+  values (p_bill_id, p_account_id, v_transaction.id, v_amount, v_transaction.date, v_bill.workspace_id);
+
+  if v_amount < v_remaining then
+    update public.bills set status = 'partially_paid' where id = p_bill_id;
+    return v_transaction;
+  end if;
+
+  update public.bills set status = 'paid' where id = p_bill_id;
+
+  if v_bill.is_recurring and v_bill.recurrence_type is not null then
+    v_next_due_date := case v_bill.recurrence_type
+      when 'monthly' then v_bill.due_date + interval '1 month'
+      when 'weekly' then v_bill.due_date + interval '7 days'
+      when 'yearly' then v_bill.due_date + interval '1 year'
+    end;
+
+    if v_next_due_date is not null
+      and (v_bill.recurrence_end_date is null or v_next_due_date <= v_bill.recurrence_end_date) then
+      insert into public.bills (
+        description, amount, due_date, category_id, status,
+        is_recurring, recurrence_type, recurrence_end_date, workspace_id
+      )
+      values (
+        v_bill.description, v_bill.amount, v_next_due_date, v_bill.category_id, 'pending',
+        v_bill.is_recurring, v_bill.recurrence_type, v_bill.recurrence_end_date, v_bill.workspace_id
+      );
+    end if;
+  end if;
+
+  return v_transaction;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- User-defined rules that pick a category for new transactions. A rule
+-- matches when every condition it sets holds; rules are tried by ascending
+-- priority and the first match wins.
+create table public.categorization_rules (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  name text not null,
+  category_id uuid not null references public.categories(id) on delete cascade,
+  match_type text not null default 'contains' check (match_type in ('contains', 'regex')),
+  -- Matched against the description; null matches any description
+  pattern text,
+  min_amount numeric,
+  max_amount numeric,
+  account_id uuid references public.accounts(id) on delete cascade,
+  priority integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint categorization_rules_amount_range_check
+    check (min_amount is null or max_amount is null or min_amount <= max_amount),
+  constraint categorization_rules_condition_check
+    check (pattern is not null or min_amount is not null or max_amount is not null or account_id is not null)
+);
+
+create index categorization_rules_workspace_id_idx on public.categorization_rules (workspace_id);
+
+alter table public.categorization_rules enable row level security;
+
+create policy "Members can view categorization_rules" on public.categorization_rules
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert categorization_rules" on public.categorization_rules
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update categorization_rules" on public.categorization_rules
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete categorization_rules" on public.categorization_rules
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
@@ -0,0 +1,35 @@
+-- Monthly spending limits per category. `month` is always the first day of
+-- the month. With `rollover` set, whatever was left (or overspent) in the
+-- previous month's budget for the category is carried into this one.
+create table public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  category_id uuid not null references public.categories(id) on delete cascade,
+  month date not null check (extract(day from month) = 1),
+  amount numeric not null check (amount > 0),
+  rollover boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, category_id, month)
+);
+
+create index budgets_workspace_id_idx on public.budgets (workspace_id);
+
+alter table public.budgets enable row level security;
+
+create policy "Members can view budgets" on public.budgets
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert budgets" on public.budgets
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update budgets" on public.budgets
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete budgets" on public.budgets
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
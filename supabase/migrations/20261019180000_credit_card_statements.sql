@@ -0,0 +1,217 @@
+-- Credit card accounts close a statement every month on `closing_day` and the
+-- invoice is due on `due_day`. Purchases made before the closing date belong
+-- to that statement; purchases on or after it go to the next one.
+alter table public.accounts
+  add column closing_day integer check (closing_day between 1 and 31),
+  add column due_day integer check (due_day between 1 and 31),
+  add column credit_limit numeric check (credit_limit >= 0);
+
+-- Each closed statement becomes a bill. `statement_month` is the first day of
+-- the month the statement closes in.
+alter table public.bills
+  add column statement_account_id uuid references public.accounts(id) on delete cascade,
+  add column statement_month date,
+  add constraint bills_statement_unique unique (statement_account_id, statement_month);
+
+-- Invoice bills settle a card balance, so they have no expense category
+alter table public.bills alter column category_id drop not null;
+alter table public.bills
+  add constraint bills_category_check check (category_id is not null or statement_account_id is not null);
+
+-- Closing date of the statement that closes in the month of `p_month`,
+-- clamped to the last day of short months
+create or replace function public.card_closing_date(p_month date, p_closing_day integer)
+returns date
+language sql
+immutable
+as $$
+  select date_trunc('month', p_month)::date
+    + least(p_closing_day, extract(day from date_trunc('month', p_month) + interval '1 month - 1 day')::integer)
+    - 1
+$$;
+
+-- Due date of the statement that closes in the month of `p_month`. A due day
+-- before or on the closing day falls in the following month.
+create or replace function public.card_due_date(p_month date, p_closing_day integer, p_due_day integer)
+returns date
+language sql
+immutable
+as $$
+  select public.card_closing_date(
+    (date_trunc('month', p_month) + case when p_due_day > p_closing_day then interval '0' else interval '1 month' end)::date,
+    p_due_day
+  )
+$$;
+
+-- Creates the invoice bill for every closed statement of the workspace's
+-- credit cards, and refreshes the amount of invoices nobody has paid yet when
+-- purchases were added to an already closed statement. Returns how many bills
+-- were created or updated.
+create or replace function public.generate_card_statement_bills(p_workspace_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_account public.accounts;
+  v_month date;
+  v_start date;
+  v_end date;
+  v_amount numeric;
+  v_count integer := 0;
+  v_rows integer;
+begin
+  -- Viewers only read the bills editors generated
+  if not public.can_edit_workspace(p_workspace_id) then
+    return 0;
+  end if;
+
+  for v_account in
+    select * from public.accounts
+    where workspace_id = p_workspace_id
+      and type = 'credit'
+      and closing_day is not null
+      and due_day is not null
+  loop
+    for v_month in
+      select generate_series(
+        date_trunc('month', min(t.date)),
+        date_trunc('month', current_date),
+        interval '1 month'
+      )::date
+      from public.transactions t
+      where t.account_id = v_account.id
+    loop
+      v_end := public.card_closing_date(v_month, v_account.closing_day);
+      exit when v_end > current_date;
+
+      v_start := public.card_closing_date((v_month - interval '1 month')::date, v_account.closing_day);
+
+      select coalesce(sum(case when type = 'expense' then amount else -amount end), 0)
+      into v_amount
+      from public.transactions
+      where account_id = v_account.id
+        and type in ('income', 'expense')
+        and date::date >= v_start
+        and date::date < v_end;
+
+      continue when v_amount <= 0;
+
+      insert into public.bills (
+        description, amount, due_date, status, statement_account_id, statement_month, workspace_id
+      )
+      values (
+        'Fatura ' || v_account.name || ' ' || to_char(v_month, 'MM/YYYY'),
+        v_amount,
+        public.card_due_date(v_month, v_account.closing_day, v_account.due_day),
+        'pending',
+        v_account.id,
+        v_month,
+        p_workspace_id
+      )
+      on conflict (statement_account_id, statement_month) do update
+        set amount = excluded.amount
+        where public.bills.status = 'pending' and public.bills.amount <> excluded.amount;
+
+      get diagnostics v_rows = row_count;
+      v_count := v_count + v_rows;
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Paying an invoice moves money from the paying account to the card instead
+-- of booking another expense: the purchases were already expenses on the card.
+create or replace function public.pay_bill(
+  p_bill_id uuid,
+  p_account_id uuid,
+  p_amount numeric default null
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_bill public.bills;
+  v_transaction public.transactions;
+  v_paid numeric;
+  v_remaining numeric;
+  v_amount numeric;
+  v_next_due_date date;
+begin
+  select * into v_bill from public.bills where id = p_bill_id for update;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  if v_bill.status not in ('pending', 'partially_paid') then
+    raise exception 'Bill % is not open', p_bill_id;
+  end if;
+
+  if not exists (
+    select 1 from public.accounts where id = p_account_id and workspace_id = v_bill.workspace_id
+  ) then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  if p_account_id = v_bill.statement_account_id then
+    raise exception 'An invoice cannot be paid from its own card';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from public.bill_payments where bill_id = p_bill_id;
+  v_remaining := v_bill.amount - v_paid;
+  v_amount := coalesce(p_amount, v_remaining);
+
+  if v_amount <= 0 or v_amount > v_remaining then
+    raise exception 'Payment amount must be between 0 and %', v_remaining;
+  end if;
+
+  if v_bill.statement_account_id is not null then
+    insert into public.transactions (
+      type, amount, date, category_id, account_id, destination_account_id, description, workspace_id
+    )
+    values (
+      'transfer', v_amount, now(), null, p_account_id, v_bill.statement_account_id,
+      'Pagamento: ' || v_bill.description, v_bill.workspace_id
+    )
+    returning * into v_transaction;
+  else
+    insert into public.transactions (type, amount, date, category_id, account_id, description, workspace_id)
+    values ('expense', v_amount, now(), v_bill.category_id, p_account_id, 'Pagamento: ' || v_bill.description, v_bill.workspace_id)
+    returning * into v_transaction;
+  end if;
+
+  insert into public.bill_payments (bill_id, account_id, transaction_id, amount, paid_at, workspace_id)
+  values (p_bill_id, p_account_id, v_transaction.id, v_amount, v_transaction.date, v_bill.workspace_id);
+
+  if v_amount < v_remaining then
+    update public.bills set status = 'partially_paid' where id = p_bill_id;
+    return v_transaction;
+  end if;
+
+  update public.bills set status = 'paid' where id = p_bill_id;
+
+  if v_bill.is_recurring and v_bill.recurrence_type is not null then
+    v_next_due_date := case v_bill.recurrence_type
+      when 'monthly' then v_bill.due_date + interval '1 month'
+      when 'weekly' then v_bill.due_date + interval '7 days'
+      when 'yearly' then v_bill.due_date + interval '1 year'
+    end;
+
+    if v_next_due_date is not null
+      and (v_bill.recurrence_end_date is null or v_next_due_date <= v_bill.recurrence_end_date) then
+      insert into public.bills (
+        description, amount, due_date, category_id, status,
+        is_recurring, recurrence_type, recurrence_end_date, workspace_id
+      )
+      values (
+        v_bill.description, v_bill.amount, v_next_due_date, v_bill.category_id, 'pending',
+        v_bill.is_recurring, v_bill.recurrence_type, v_bill.recurrence_end_date, v_bill.workspace_id
+      );
+    end if;
+  end if;
+
+  return v_transaction;
+end;
+$$;
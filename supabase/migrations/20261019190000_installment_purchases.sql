@@ -0,0 +1,87 @@
+-- A credit card purchase split into installments is stored as one expense per
+-- installment, a month apart so each lands in its own statement. The first
+-- installment is the parent and every other one points to it.
+alter table public.transactions
+  add column parent_transaction_id uuid references public.transactions(id) on delete cascade,
+  add column installment_number integer,
+  add column installment_count integer,
+  add constraint transactions_installment_check check (
+    (installment_number is null and installment_count is null)
+    or (installment_count > 1 and installment_number between 1 and installment_count)
+  );
+
+create index transactions_parent_transaction_id_idx on public.transactions (parent_transaction_id);
+
+-- Creates every installment in one database transaction. The amount is split
+-- in cents and the last installment absorbs the rounding difference.
+create or replace function public.create_installment_purchase(
+  p_account_id uuid,
+  p_category_id uuid,
+  p_description text,
+  p_amount numeric,
+  p_date timestamptz,
+  p_installments integer
+)
+returns setof public.transactions
+language plpgsql
+as $$
+declare
+  v_account public.accounts;
+  v_parent public.transactions;
+  v_installment_amount numeric;
+begin
+  select * into v_account from public.accounts where id = p_account_id;
+
+  if not found then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  if v_account.type <> 'credit' then
+    raise exception 'Installment purchases are only allowed on credit card accounts';
+  end if;
+
+  if p_installments < 2 then
+    raise exception 'An installment purchase needs at least 2 installments';
+  end if;
+
+  if p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  v_installment_amount := round(p_amount / p_installments, 2);
+
+  insert into public.transactions (
+    type, amount, date, category_id, account_id, description,
+    installment_number, installment_count, workspace_id
+  )
+  values (
+    'expense', v_installment_amount, p_date, p_category_id, p_account_id, p_description,
+    1, p_installments, v_account.workspace_id
+  )
+  returning * into v_parent;
+
+  return next v_parent;
+
+  return query
+    insert into public.transactions (
+      type, amount, date, category_id, account_id, description,
+      parent_transaction_id, installment_number, installment_count, workspace_id
+    )
+    select
+      'expense',
+      case when n = p_installments
+        then p_amount - v_installment_amount * (p_installments - 1)
+        else v_installment_amount
+      end,
+      p_date + make_interval(months => n - 1),
+      p_category_id,
+      p_account_id,
+      p_description,
+      v_parent.id,
+      n,
+      p_installments,
+      v_account.workspace_id
+    from generate_series(2, p_installments) as n
+    returning *;
+end;
+$$;
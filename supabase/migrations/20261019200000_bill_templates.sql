@@ -0,0 +1,254 @@
+-- Recurring bills are described by a template and their occurrences are
+-- materialized ahead of time by `generate_recurring_bills`, which the
+-- generate-recurring-bills edge function runs every day. Occurrences no longer
+-- depend on the previous one being paid.
+create table public.bill_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  description text not null,
+  amount numeric not null check (amount > 0),
+  category_id uuid not null references public.categories(id) on delete cascade,
+  recurrence_type text not null check (recurrence_type in ('monthly', 'weekly', 'yearly')),
+  -- Due date of the first occurrence; later ones are counted from it so a
+  -- bill due on the 31st stays on the last day of shorter months
+  start_date date not null,
+  recurrence_end_date date,
+  -- Due date of the last occurrence created. Occurrences up to it are never
+  -- created again, so deleting one does not bring it back.
+  generated_until date,
+  created_at timestamptz not null default now()
+);
+
+create index bill_templates_workspace_id_idx on public.bill_templates (workspace_id);
+
+alter table public.bill_templates enable row level security;
+
+create policy "Members can view bill_templates" on public.bill_templates
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert bill_templates" on public.bill_templates
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update bill_templates" on public.bill_templates
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete bill_templates" on public.bill_templates
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+alter table public.bills
+  add column template_id uuid references public.bill_templates(id) on delete set null,
+  add constraint bills_template_occurrence_unique unique (template_id, due_date);
+
+-- Existing recurring chains become templates. Bills of a chain share every
+-- recurrence field, and the newest one holds the current amount.
+with chains as (
+  select distinct on (workspace_id, description, category_id, recurrence_type, recurrence_end_date)
+    workspace_id, user_id, description, amount, category_id, recurrence_type, recurrence_end_date,
+    min(due_date::date) over chain as start_date,
+    max(due_date::date) over chain as generated_until
+  from public.bills
+  where is_recurring
+    and recurrence_type in ('monthly', 'weekly', 'yearly')
+    and category_id is not null
+    and workspace_id is not null
+  window chain as (partition by workspace_id, description, category_id, recurrence_type, recurrence_end_date)
+  order by workspace_id, description, category_id, recurrence_type, recurrence_end_date, due_date desc
+)
+insert into public.bill_templates (
+  workspace_id, user_id, description, amount, category_id, recurrence_type,
+  start_date, recurrence_end_date, generated_until
+)
+select
+  workspace_id, user_id, description, amount, category_id, recurrence_type,
+  start_date, recurrence_end_date::date, generated_until
+from chains;
+
+update public.bills b
+set template_id = t.id
+from public.bill_templates t
+where b.is_recurring
+  and b.workspace_id = t.workspace_id
+  and b.description = t.description
+  and b.category_id = t.category_id
+  and b.recurrence_type = t.recurrence_type
+  and b.recurrence_end_date::date is not distinct from t.recurrence_end_date;
+
+-- Due date of the occurrence `p_n` recurrences after `p_start_date`
+create or replace function public.bill_occurrence_date(p_start_date date, p_recurrence_type text, p_n integer)
+returns date
+language sql
+immutable
+as $$
+  select (p_start_date + case p_recurrence_type
+    when 'monthly' then make_interval(months => p_n)
+    when 'weekly' then make_interval(weeks => p_n)
+    when 'yearly' then make_interval(years => p_n)
+  end)::date
+$$;
+
+-- Creates the occurrences of recurring bill templates due up to
+-- `p_months_ahead` months from today, stopping at `recurrence_end_date`.
+-- Without a workspace it covers every workspace, which only the scheduler
+-- (running as the service role) may do. Returns how many bills were created.
+create or replace function public.generate_recurring_bills(
+  p_months_ahead integer default 3,
+  p_workspace_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_template public.bill_templates;
+  v_horizon date := (current_date + make_interval(months => p_months_ahead))::date;
+  v_due_date date;
+  v_last date;
+  v_n integer;
+  v_count integer := 0;
+  v_rows integer;
+begin
+  if p_workspace_id is null then
+    if coalesce(auth.role(), '') <> 'service_role' then
+      raise exception 'Only the scheduler can generate bills for every workspace';
+    end if;
+  elsif not public.can_edit_workspace(p_workspace_id) then
+    return 0;
+  end if;
+
+  for v_template in
+    select * from public.bill_templates
+    where p_workspace_id is null or workspace_id = p_workspace_id
+    for update
+  loop
+    v_n := 0;
+    v_last := v_template.generated_until;
+
+    loop
+      v_due_date := public.bill_occurrence_date(v_template.start_date, v_template.recurrence_type, v_n);
+      exit when v_due_date > least(v_horizon, v_template.recurrence_end_date);
+
+      if v_template.generated_until is null or v_due_date > v_template.generated_until then
+        insert into public.bills (
+          description, amount, due_date, category_id, status, is_recurring,
+          recurrence_type, recurrence_end_date, template_id, workspace_id, user_id
+        )
+        values (
+          v_template.description, v_template.amount, v_due_date, v_template.category_id, 'pending', true,
+          v_template.recurrence_type, v_template.recurrence_end_date, v_template.id,
+          v_template.workspace_id, v_template.user_id
+        )
+        on conflict (template_id, due_date) do nothing;
+
+        get diagnostics v_rows = row_count;
+        v_count := v_count + v_rows;
+        v_last := v_due_date;
+      end if;
+
+      v_n := v_n + 1;
+    end loop;
+
+    if v_last is distinct from v_template.generated_until then
+      update public.bill_templates set generated_until = v_last where id = v_template.id;
+    end if;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Paying a recurring bill no longer creates the next one: the templates
+-- already did
+create or replace function public.pay_bill(
+  p_bill_id uuid,
+  p_account_id uuid,
+  p_amount numeric default null
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_bill public.bills;
+  v_transaction public.transactions;
+  v_paid numeric;
+  v_remaining numeric;
+  v_amount numeric;
+begin
+  select * into v_bill from public.bills where id = p_bill_id for update;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  if v_bill.status not in ('pending', 'partially_paid') then
+    raise exception 'Bill % is not open', p_bill_id;
+  end if;
+
+  if not exists (
+    select 1 from public.accounts where id = p_account_id and workspace_id = v_bill.workspace_id
+  ) then
+    raise exception 'Account % not found', p_account_id;
+  end if;
+
+  if p_account_id = v_bill.statement_account_id then
+    raise exception 'An invoice cannot be paid from its own card';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from public.bill_payments where bill_id = p_bill_id;
+  v_remaining := v_bill.amount - v_paid;
+  v_amount := coalesce(p_amount, v_remaining);
+
+  if v_amount <= 0 or v_amount > v_remaining then
+    raise exception 'Payment amount must be between 0 and %', v_remaining;
+  end if;
+
+  if v_bill.statement_account_id is not null then
+    insert into public.transactions (
+      type, amount, date, category_id, account_id, destination_account_id, description, workspace_id
+    )
+    values (
+      'transfer', v_amount, now(), null, p_account_id, v_bill.statement_account_id,
+      'Pagamento: ' || v_bill.description, v_bill.workspace_id
+    )
+    returning * into v_transaction;
+  else
+    insert into public.transactions (type, amount, date, category_id, account_id, description, workspace_id)
+    values ('expense', v_amount, now(), v_bill.category_id, p_account_id, 'Pagamento: ' || v_bill.description, v_bill.workspace_id)
+    returning * into v_transaction;
+  end if;
+
+  insert into public.bill_payments (bill_id, account_id, transaction_id, amount, paid_at, workspace_id)
+  values (p_bill_id, p_account_id, v_transaction.id, v_amount, v_transaction.date, v_bill.workspace_id);
+
+  update public.bills
+  set status = case when v_amount < v_remaining then 'partially_paid' else 'paid' end
+  where id = p_bill_id;
+
+  return v_transaction;
+end;
+$$;
+
+-- Runs the edge function every morning. The project URL and the service role
+-- key are read from Vault secrets named `project_url` and `service_role_key`.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'generate-recurring-bills',
+  '0 6 * * *',
+  $cron$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/generate-recurring-bills',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $cron$
+);
@@ -0,0 +1,236 @@
+-- RRULE-style recurrence for bill templates: every `recurrence_interval`
+-- periods, on a day of the month, the nth weekday, or the nth business day,
+-- optionally only in some months, and moved off weekends and Brazilian
+-- holidays. src/lib/recurrence.ts computes the same dates for previews.
+alter table public.bill_templates
+  add column recurrence_interval integer not null default 1 check (recurrence_interval >= 1),
+  add column by_month_day integer check (by_month_day between 1 and 31 or by_month_day = -1),
+  add column by_weekday integer check (by_weekday between 0 and 6),
+  add column by_set_position integer check (by_set_position between 1 and 4 or by_set_position = -1),
+  add column by_business_day integer check (by_business_day between 1 and 15 or by_business_day = -1),
+  add column by_months integer[] check (by_months <@ array[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]),
+  add column business_day_adjustment text not null default 'none'
+    check (business_day_adjustment in ('none', 'following', 'preceding')),
+  add constraint bill_templates_day_rule_check check (
+    num_nonnulls(by_month_day, by_weekday, by_business_day) <= 1
+    and (by_set_position is null or by_weekday is not null)
+  );
+
+-- Easter Sunday (anonymous Gregorian algorithm), which the movable holidays follow
+create or replace function public.easter_date(p_year integer)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  a integer := p_year % 19;
+  b integer := p_year / 100;
+  c integer := p_year % 100;
+  d integer := b / 4;
+  e integer := b % 4;
+  f integer := (b + 8) / 25;
+  g integer := (b - f + 1) / 3;
+  h integer := (19 * a + b - d - g + 15) % 30;
+  i integer := c / 4;
+  k integer := c % 4;
+  l integer := (32 + 2 * e + 2 * i - h - k) % 7;
+  m integer := (a + 11 * h + 22 * l) / 451;
+begin
+  return make_date(p_year, (h + l - 7 * m + 114) / 31, (h + l - 7 * m + 114) % 31 + 1);
+end;
+$$;
+
+-- National holidays plus the days banks close (Carnival and Corpus Christi)
+create or replace function public.brazilian_holidays(p_year integer)
+returns setof date
+language sql
+immutable
+as $$
+  select make_date(p_year, month, day)
+  from (values (1, 1), (4, 21), (5, 1), (9, 7), (10, 12), (11, 2), (11, 15), (12, 25)) as fixed(month, day)
+  union all
+  select make_date(p_year, 11, 20) where p_year >= 2024
+  union all
+  select public.easter_date(p_year) + offset_days
+  from unnest(array[-48, -47, -2, 60]) as offset_days
+$$;
+
+create or replace function public.is_business_day(p_date date)
+returns boolean
+language sql
+immutable
+as $$
+  select extract(isodow from p_date) < 6
+    and p_date not in (select public.brazilian_holidays(extract(year from p_date)::integer))
+$$;
+
+create or replace function public.adjust_to_business_day(p_date date, p_adjustment text)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_date date := p_date;
+begin
+  if p_adjustment = 'none' then
+    return p_date;
+  end if;
+
+  while not public.is_business_day(v_date) loop
+    v_date := v_date + case when p_adjustment = 'preceding' then -1 else 1 end;
+  end loop;
+
+  return v_date;
+end;
+$$;
+
+-- Nth business day of the month starting at `p_month`, counted from its end
+-- when `p_n` is -1
+create or replace function public.nth_business_day(p_month date, p_n integer)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_date date := case when p_n < 0 then (p_month + interval '1 month - 1 day')::date else p_month end;
+  v_count integer := 0;
+begin
+  loop
+    if public.is_business_day(v_date) then
+      v_count := v_count + 1;
+      exit when v_count = abs(p_n);
+    end if;
+    v_date := v_date + sign(p_n)::integer;
+  end loop;
+
+  return v_date;
+end;
+$$;
+
+-- Nth `p_weekday` (0 = Sunday) of the month starting at `p_month`, or the
+-- last one when `p_position` is -1
+create or replace function public.nth_weekday(p_month date, p_weekday integer, p_position integer)
+returns date
+language sql
+immutable
+as $$
+  select case
+    when p_position < 0 then
+      (p_month + interval '1 month - 1 day')::date
+        - ((extract(dow from p_month + interval '1 month - 1 day')::integer - p_weekday + 7) % 7)
+    else
+      p_month + ((p_weekday - extract(dow from p_month)::integer + 7) % 7) + (p_position - 1) * 7
+  end
+$$;
+
+-- Due date the template's rule gives in its `p_period`-th week, month or year
+-- after `start_date`. The caller skips dates before `start_date` and outside
+-- `by_months`.
+create or replace function public.recurrence_candidate(p_template public.bill_templates, p_period integer)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_month date;
+  v_day integer;
+  v_last_day integer;
+  v_date date;
+begin
+  if p_template.recurrence_type = 'weekly' then
+    return public.adjust_to_business_day(
+      p_template.start_date + p_period * p_template.recurrence_interval * 7,
+      p_template.business_day_adjustment
+    );
+  end if;
+
+  v_month := (date_trunc('month', p_template.start_date) + make_interval(
+    months => p_period * p_template.recurrence_interval
+      * case when p_template.recurrence_type = 'yearly' then 12 else 1 end
+  ))::date;
+
+  if p_template.by_business_day is not null then
+    return public.nth_business_day(v_month, p_template.by_business_day);
+  end if;
+
+  if p_template.by_weekday is not null then
+    v_date := public.nth_weekday(v_month, p_template.by_weekday, coalesce(p_template.by_set_position, 1));
+  else
+    v_day := coalesce(p_template.by_month_day, extract(day from p_template.start_date)::integer);
+    v_last_day := extract(day from v_month + interval '1 month - 1 day')::integer;
+    v_date := v_month + case when v_day = -1 then v_last_day else least(v_day, v_last_day) end - 1;
+  end if;
+
+  return public.adjust_to_business_day(v_date, p_template.business_day_adjustment);
+end;
+$$;
+
+drop function public.bill_occurrence_date(date, text, integer);
+
+create or replace function public.generate_recurring_bills(
+  p_months_ahead integer default 3,
+  p_workspace_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_template public.bill_templates;
+  v_horizon date := (current_date + make_interval(months => p_months_ahead))::date;
+  v_due_date date;
+  v_last date;
+  v_period integer;
+  v_count integer := 0;
+  v_rows integer;
+begin
+  if p_workspace_id is null then
+    if coalesce(auth.role(), '') <> 'service_role' then
+      raise exception 'Only the scheduler can generate bills for every workspace';
+    end if;
+  elsif not public.can_edit_workspace(p_workspace_id) then
+    return 0;
+  end if;
+
+  for v_template in
+    select * from public.bill_templates
+    where p_workspace_id is null or workspace_id = p_workspace_id
+    for update
+  loop
+    v_period := 0;
+    v_last := v_template.generated_until;
+
+    loop
+      v_due_date := public.recurrence_candidate(v_template, v_period);
+      v_period := v_period + 1;
+
+      exit when v_due_date > least(v_horizon, v_template.recurrence_end_date);
+      continue when v_due_date < v_template.start_date;
+      continue when v_template.by_months is not null
+        and cardinality(v_template.by_months) > 0
+        and not extract(month from v_due_date)::integer = any (v_template.by_months);
+      continue when v_template.generated_until is not null and v_due_date <= v_template.generated_until;
+
+      insert into public.bills (
+        description, amount, due_date, category_id, status, is_recurring,
+        recurrence_type, recurrence_end_date, template_id, workspace_id, user_id
+      )
+      values (
+        v_template.description, v_template.amount, v_due_date, v_template.category_id, 'pending', true,
+        v_template.recurrence_type, v_template.recurrence_end_date, v_template.id,
+        v_template.workspace_id, v_template.user_id
+      )
+      on conflict (template_id, due_date) do nothing;
+
+      get diagnostics v_rows = row_count;
+      v_count := v_count + v_rows;
+      v_last := v_due_date;
+    end loop;
+
+    if v_last is distinct from v_template.generated_until then
+      update public.bill_templates set generated_until = v_last where id = v_template.id;
+    end if;
+  end loop;
+
+  return v_count;
+end;
+$$;
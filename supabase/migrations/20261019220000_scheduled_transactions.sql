@@ -0,0 +1,348 @@
+-- Scheduled transactions (salary, subscriptions) post themselves to the
+-- ledger on their due dates, following the same recurrence rules as bill
+-- templates. Schedules that need confirmation create a pending transaction
+-- instead, which only reaches the ledger once someone confirms it.
+create table public.scheduled_transactions (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  type text not null check (type in ('income', 'expense', 'transfer')),
+  amount numeric not null check (amount > 0),
+  description text not null,
+  category_id uuid references public.categories(id) on delete cascade,
+  account_id uuid not null references public.accounts(id) on delete cascade,
+  destination_account_id uuid references public.accounts(id) on delete cascade,
+  recurrence_type text not null check (recurrence_type in ('monthly', 'weekly', 'yearly')),
+  recurrence_interval integer not null default 1 check (recurrence_interval >= 1),
+  by_month_day integer check (by_month_day between 1 and 31 or by_month_day = -1),
+  by_weekday integer check (by_weekday between 0 and 6),
+  by_set_position integer check (by_set_position between 1 and 4 or by_set_position = -1),
+  by_business_day integer check (by_business_day between 1 and 15 or by_business_day = -1),
+  by_months integer[] check (by_months <@ array[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]),
+  business_day_adjustment text not null default 'none'
+    check (business_day_adjustment in ('none', 'following', 'preceding')),
+  start_date date not null,
+  recurrence_end_date date,
+  requires_confirmation boolean not null default false,
+  -- Date of the last occurrence posted or left pending
+  generated_until date,
+  created_at timestamptz not null default now(),
+  check (
+    (type = 'transfer' and destination_account_id is not null and destination_account_id <> account_id and category_id is null)
+    or (type <> 'transfer' and destination_account_id is null and category_id is not null)
+  ),
+  check (
+    num_nonnulls(by_month_day, by_weekday, by_business_day) <= 1
+    and (by_set_position is null or by_weekday is not null)
+  )
+);
+
+create index scheduled_transactions_workspace_id_idx on public.scheduled_transactions (workspace_id);
+
+alter table public.scheduled_transactions enable row level security;
+
+create policy "Members can view scheduled_transactions" on public.scheduled_transactions
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert scheduled_transactions" on public.scheduled_transactions
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update scheduled_transactions" on public.scheduled_transactions
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete scheduled_transactions" on public.scheduled_transactions
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+-- Occurrences waiting for confirmation. The amount starts as the scheduled
+-- one and can be corrected when confirming (e.g. a utility bill that varies).
+create table public.pending_transactions (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  scheduled_transaction_id uuid not null references public.scheduled_transactions(id) on delete cascade,
+  date date not null,
+  amount numeric not null check (amount > 0),
+  created_at timestamptz not null default now(),
+  unique (scheduled_transaction_id, date)
+);
+
+create index pending_transactions_workspace_id_idx on public.pending_transactions (workspace_id);
+
+alter table public.pending_transactions enable row level security;
+
+create policy "Members can view pending_transactions" on public.pending_transactions
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert pending_transactions" on public.pending_transactions
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update pending_transactions" on public.pending_transactions
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete pending_transactions" on public.pending_transactions
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+alter table public.transactions
+  add column scheduled_transaction_id uuid references public.scheduled_transactions(id) on delete set null;
+
+-- The recurrence logic now serves bill templates and scheduled transactions,
+-- so it takes the rule fields instead of a bill template row
+drop function public.recurrence_candidate(public.bill_templates, integer);
+
+create or replace function public.recurrence_candidate(
+  p_start_date date,
+  p_recurrence_type text,
+  p_interval integer,
+  p_by_month_day integer,
+  p_by_weekday integer,
+  p_by_set_position integer,
+  p_by_business_day integer,
+  p_adjustment text,
+  p_period integer
+)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_month date;
+  v_day integer;
+  v_last_day integer;
+  v_date date;
+begin
+  if p_recurrence_type = 'weekly' then
+    return public.adjust_to_business_day(p_start_date + p_period * p_interval * 7, p_adjustment);
+  end if;
+
+  v_month := (date_trunc('month', p_start_date) + make_interval(
+    months => p_period * p_interval * case when p_recurrence_type = 'yearly' then 12 else 1 end
+  ))::date;
+
+  if p_by_business_day is not null then
+    return public.nth_business_day(v_month, p_by_business_day);
+  end if;
+
+  if p_by_weekday is not null then
+    v_date := public.nth_weekday(v_month, p_by_weekday, coalesce(p_by_set_position, 1));
+  else
+    v_day := coalesce(p_by_month_day, extract(day from p_start_date)::integer);
+    v_last_day := extract(day from v_month + interval '1 month - 1 day')::integer;
+    v_date := v_month + case when v_day = -1 then v_last_day else least(v_day, v_last_day) end - 1;
+  end if;
+
+  return public.adjust_to_business_day(v_date, p_adjustment);
+end;
+$$;
+
+-- Every occurrence of a rule from `p_start_date` up to `p_until`
+create or replace function public.recurrence_dates(
+  p_start_date date,
+  p_recurrence_type text,
+  p_interval integer,
+  p_by_month_day integer,
+  p_by_weekday integer,
+  p_by_set_position integer,
+  p_by_business_day integer,
+  p_by_months integer[],
+  p_adjustment text,
+  p_until date
+)
+returns setof date
+language plpgsql
+immutable
+as $$
+declare
+  v_period integer := 0;
+  v_date date;
+begin
+  loop
+    v_date := public.recurrence_candidate(
+      p_start_date, p_recurrence_type, p_interval, p_by_month_day, p_by_weekday,
+      p_by_set_position, p_by_business_day, p_adjustment, v_period
+    );
+    v_period := v_period + 1;
+
+    exit when v_date > p_until;
+    continue when v_date < p_start_date;
+    continue when cardinality(p_by_months) > 0
+      and not extract(month from v_date)::integer = any (p_by_months);
+
+    return next v_date;
+  end loop;
+end;
+$$;
+
+create or replace function public.generate_recurring_bills(
+  p_months_ahead integer default 3,
+  p_workspace_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_template public.bill_templates;
+  v_horizon date := (current_date + make_interval(months => p_months_ahead))::date;
+  v_due_date date;
+  v_count integer := 0;
+  v_rows integer;
+begin
+  if p_workspace_id is null then
+    if coalesce(auth.role(), '') <> 'service_role' then
+      raise exception 'Only the scheduler can generate bills for every workspace';
+    end if;
+  elsif not public.can_edit_workspace(p_workspace_id) then
+    return 0;
+  end if;
+
+  for v_template in
+    select * from public.bill_templates
+    where p_workspace_id is null or workspace_id = p_workspace_id
+    for update
+  loop
+    for v_due_date in
+      select d from public.recurrence_dates(
+        v_template.start_date, v_template.recurrence_type, v_template.recurrence_interval,
+        v_template.by_month_day, v_template.by_weekday, v_template.by_set_position,
+        v_template.by_business_day, v_template.by_months, v_template.business_day_adjustment,
+        least(v_horizon, v_template.recurrence_end_date)
+      ) as d
+      where v_template.generated_until is null or d > v_template.generated_until
+    loop
+      insert into public.bills (
+        description, amount, due_date, category_id, status, is_recurring,
+        recurrence_type, recurrence_end_date, template_id, workspace_id, user_id
+      )
+      values (
+        v_template.description, v_template.amount, v_due_date, v_template.category_id, 'pending', true,
+        v_template.recurrence_type, v_template.recurrence_end_date, v_template.id,
+        v_template.workspace_id, v_template.user_id
+      )
+      on conflict (template_id, due_date) do nothing;
+
+      get diagnostics v_rows = row_count;
+      v_count := v_count + v_rows;
+
+      update public.bill_templates set generated_until = v_due_date where id = v_template.id;
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Posts every occurrence of the workspace's schedules due up to today, or
+-- leaves it pending when the schedule requires confirmation. Without a
+-- workspace it covers every workspace, which only the daily cron job (running
+-- without a user session) or the service role may do. Returns how many
+-- occurrences were handled.
+create or replace function public.post_scheduled_transactions(p_workspace_id uuid default null)
+returns integer
+language plpgsql
+as $$
+declare
+  v_schedule public.scheduled_transactions;
+  v_date date;
+  v_count integer := 0;
+begin
+  if p_workspace_id is null then
+    if coalesce(auth.role(), 'service_role') <> 'service_role' then
+      raise exception 'Only the scheduler can post transactions for every workspace';
+    end if;
+  elsif not public.can_edit_workspace(p_workspace_id) then
+    return 0;
+  end if;
+
+  for v_schedule in
+    select * from public.scheduled_transactions
+    where p_workspace_id is null or workspace_id = p_workspace_id
+    for update
+  loop
+    for v_date in
+      select d from public.recurrence_dates(
+        v_schedule.start_date, v_schedule.recurrence_type, v_schedule.recurrence_interval,
+        v_schedule.by_month_day, v_schedule.by_weekday, v_schedule.by_set_position,
+        v_schedule.by_business_day, v_schedule.by_months, v_schedule.business_day_adjustment,
+        least(current_date, v_schedule.recurrence_end_date)
+      ) as d
+      where v_schedule.generated_until is null or d > v_schedule.generated_until
+    loop
+      if v_schedule.requires_confirmation then
+        insert into public.pending_transactions (scheduled_transaction_id, date, amount, workspace_id, user_id)
+        values (v_schedule.id, v_date, v_schedule.amount, v_schedule.workspace_id, v_schedule.user_id)
+        on conflict (scheduled_transaction_id, date) do nothing;
+      else
+        insert into public.transactions (
+          type, amount, date, category_id, account_id, destination_account_id, description,
+          scheduled_transaction_id, workspace_id, user_id
+        )
+        values (
+          v_schedule.type, v_schedule.amount, v_date, v_schedule.category_id, v_schedule.account_id,
+          v_schedule.destination_account_id, v_schedule.description, v_schedule.id,
+          v_schedule.workspace_id, v_schedule.user_id
+        );
+      end if;
+
+      v_count := v_count + 1;
+      update public.scheduled_transactions set generated_until = v_date where id = v_schedule.id;
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Posts a pending occurrence to the ledger, optionally with a corrected amount
+create or replace function public.confirm_pending_transaction(
+  p_pending_id uuid,
+  p_amount numeric default null
+)
+returns public.transactions
+language plpgsql
+as $$
+declare
+  v_pending public.pending_transactions;
+  v_schedule public.scheduled_transactions;
+  v_transaction public.transactions;
+begin
+  delete from public.pending_transactions where id = p_pending_id returning * into v_pending;
+
+  if not found then
+    raise exception 'Pending transaction % not found', p_pending_id;
+  end if;
+
+  if coalesce(p_amount, v_pending.amount) <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  select * into v_schedule from public.scheduled_transactions where id = v_pending.scheduled_transaction_id;
+
+  insert into public.transactions (
+    type, amount, date, category_id, account_id, destination_account_id, description,
+    scheduled_transaction_id, workspace_id
+  )
+  values (
+    v_schedule.type, coalesce(p_amount, v_pending.amount), v_pending.date, v_schedule.category_id,
+    v_schedule.account_id, v_schedule.destination_account_id, v_schedule.description, v_schedule.id,
+    v_pending.workspace_id
+  )
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
+
+select cron.schedule(
+  'post-scheduled-transactions',
+  '0 5 * * *',
+  'select public.post_scheduled_transactions()'
+);
@@ -0,0 +1,144 @@
+-- Reminders for bills about to fall due. Each bill lists how many days
+-- before its due date to remind (0 is the due date itself); open bills past
+-- their due date are reminded daily until paid. The send-bill-reminders edge
+-- function delivers them as Web Push notifications and an email digest to
+-- every member of the bill's workspace.
+alter table public.bills
+  add column reminder_days integer[] not null default array[3, 0]
+    check (0 <= all (reminder_days) and 30 >= all (reminder_days));
+
+alter table public.bill_templates
+  add column reminder_days integer[] not null default array[3, 0]
+    check (0 <= all (reminder_days) and 30 >= all (reminder_days));
+
+-- Generated occurrences take their lead times from the template
+create or replace function public.copy_template_reminder_days()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.template_id is not null then
+    select reminder_days into new.reminder_days
+    from public.bill_templates
+    where id = new.template_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bills_copy_template_reminder_days
+  before insert on public.bills
+  for each row execute function public.copy_template_reminder_days();
+
+-- Browsers that accepted push notifications, one row per device
+create table public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users manage their own push subscriptions" on public.push_subscriptions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Users without a row get the email digest
+create table public.notification_settings (
+  user_id uuid primary key default auth.uid() references auth.users(id) on delete cascade,
+  email_digest boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_settings enable row level security;
+
+create policy "Users manage their own notification settings" on public.notification_settings
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Keeps a reminder from going out twice on the same day when the function
+-- runs again. Only the edge function (service role) reads and writes it.
+create table public.bill_reminder_log (
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  channel text not null check (channel in ('push', 'email')),
+  sent_on date not null default current_date,
+  primary key (bill_id, user_id, channel, sent_on)
+);
+
+alter table public.bill_reminder_log enable row level security;
+
+-- Reminders due today for every workspace member, or only for `p_user_id`.
+-- Reads every workspace, so only the scheduler may call it.
+create or replace function public.due_bill_reminders(p_user_id uuid default null)
+returns table (
+  user_id uuid,
+  email text,
+  email_digest boolean,
+  workspace_name text,
+  bill_id uuid,
+  description text,
+  remaining numeric,
+  due_date date,
+  days_until integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), 'service_role') <> 'service_role' then
+    raise exception 'Only the scheduler can list reminders';
+  end if;
+
+  return query
+  select
+    m.user_id,
+    u.email::text,
+    coalesce(s.email_digest, true),
+    w.name,
+    b.id,
+    b.description,
+    b.amount - coalesce((select sum(p.amount) from public.bill_payments p where p.bill_id = b.id), 0),
+    b.due_date::date,
+    (b.due_date::date - current_date)::integer
+  from public.bills b
+  join public.workspaces w on w.id = b.workspace_id
+  join public.workspace_members m on m.workspace_id = b.workspace_id
+  join auth.users u on u.id = m.user_id
+  left join public.notification_settings s on s.user_id = m.user_id
+  where b.status in ('pending', 'partially_paid')
+    and (p_user_id is null or m.user_id = p_user_id)
+    and (
+      b.due_date::date < current_date
+      or (b.due_date::date - current_date)::integer = any (b.reminder_days)
+    )
+  order by m.user_id, b.due_date;
+end;
+$$;
+
+revoke execute on function public.due_bill_reminders(uuid) from public, anon, authenticated;
+
+select cron.schedule(
+  'send-bill-reminders',
+  '0 8 * * *',
+  $cron$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/send-bill-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $cron$
+);
@@ -0,0 +1,39 @@
+-- Savings goals ("emergency fund R$ 30.000 by December"). Contributions are
+-- transactions tagged with the goal, plus transfers into and out of the
+-- goal's account when it has one.
+create table public.goals (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  name text not null,
+  target_amount numeric not null check (target_amount > 0),
+  deadline date,
+  account_id uuid references public.accounts(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index goals_workspace_id_idx on public.goals (workspace_id);
+
+alter table public.goals enable row level security;
+
+create policy "Members can view goals" on public.goals
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert goals" on public.goals
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update goals" on public.goals
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete goals" on public.goals
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+alter table public.transactions
+  add column goal_id uuid references public.goals(id) on delete set null;
+
+create index transactions_goal_id_idx on public.transactions (goal_id);
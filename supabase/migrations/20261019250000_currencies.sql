@@ -0,0 +1,99 @@
+-- Accounts in foreign currencies (a USD account, travel cards). Amounts are
+-- stored in the currency of their account; exchange rates are entered by hand
+-- or imported and only used to convert totals for display.
+alter table public.accounts
+  add column currency text not null default 'BRL' check (currency ~ '^[A-Z]{3}$');
+
+-- One unit of base_currency is worth `rate` units of quote_currency on `date`
+create table public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  base_currency text not null check (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text not null check (quote_currency ~ '^[A-Z]{3}$'),
+  rate numeric not null check (rate > 0),
+  date date not null,
+  created_at timestamptz not null default now(),
+  check (base_currency <> quote_currency),
+  unique (workspace_id, base_currency, quote_currency, date)
+);
+
+create index exchange_rates_workspace_id_idx on public.exchange_rates (workspace_id);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Members can view exchange rates" on public.exchange_rates
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert exchange rates" on public.exchange_rates
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update exchange rates" on public.exchange_rates
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete exchange rates" on public.exchange_rates
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+-- A transfer between accounts in different currencies credits the
+-- destination with the converted amount actually received. Null means the
+-- same amount that left the source account.
+alter table public.transactions
+  add column destination_amount numeric check (destination_amount > 0);
+
+create or replace view public.account_balances
+with (security_invoker = true) as
+select
+  a.id as account_id,
+  a.opening_balance,
+  a.balance as stored_balance,
+  a.opening_balance + coalesce(sum(
+    case
+      when t.type = 'income' and t.account_id = a.id then t.amount
+      when t.type in ('expense', 'transfer') and t.account_id = a.id then -t.amount
+      when t.type = 'transfer' and t.destination_account_id = a.id then coalesce(t.destination_amount, t.amount)
+      else 0
+    end
+  ), 0) as computed_balance,
+  a.workspace_id
+from public.accounts a
+left join public.transactions t
+  on t.account_id = a.id or t.destination_account_id = a.id
+group by a.id;
+
+create or replace function public.sync_account_stored_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.accounts
+      set balance = balance + case when old.type = 'income' then -old.amount else old.amount end
+      where id = old.account_id;
+
+    if old.type = 'transfer' then
+      update public.accounts
+        set balance = balance - coalesce(old.destination_amount, old.amount)
+        where id = old.destination_account_id;
+    end if;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    update public.accounts
+      set balance = balance + case when new.type = 'income' then new.amount else -new.amount end
+      where id = new.account_id;
+
+    if new.type = 'transfer' then
+      update public.accounts
+        set balance = balance + coalesce(new.destination_amount, new.amount)
+        where id = new.destination_account_id;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
@@ -0,0 +1,91 @@
+-- A transaction can be split across several categories (a supermarket
+-- receipt with groceries, pharmacy and household items). The lines add up to
+-- the transaction amount; the first one is also kept as the transaction's own
+-- category so the not-null check and single-category views keep working.
+create table public.transaction_splits (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  transaction_id uuid not null references public.transactions(id) on delete cascade,
+  category_id uuid not null references public.categories(id),
+  amount numeric not null check (amount > 0),
+  created_at timestamptz not null default now()
+);
+
+create index transaction_splits_workspace_id_idx on public.transaction_splits (workspace_id);
+create index transaction_splits_transaction_id_idx on public.transaction_splits (transaction_id);
+
+alter table public.transaction_splits enable row level security;
+
+create policy "Members can view transaction splits" on public.transaction_splits
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert transaction splits" on public.transaction_splits
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update transaction splits" on public.transaction_splits
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete transaction splits" on public.transaction_splits
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+-- Replaces the split lines of a transaction in one database transaction.
+-- `p_splits` is a JSON array of {category_id, amount}; an empty array turns
+-- the transaction back into a single-category one.
+create or replace function public.set_transaction_splits(
+  p_transaction_id uuid,
+  p_splits jsonb
+)
+returns setof public.transaction_splits
+language plpgsql
+as $$
+declare
+  v_transaction public.transactions;
+  v_total numeric;
+begin
+  select * into v_transaction from public.transactions where id = p_transaction_id;
+
+  if not found then
+    raise exception 'Transaction % not found', p_transaction_id;
+  end if;
+
+  delete from public.transaction_splits where transaction_id = p_transaction_id;
+
+  if jsonb_array_length(p_splits) = 0 then
+    return;
+  end if;
+
+  if v_transaction.type = 'transfer' then
+    raise exception 'Transfers cannot be split across categories';
+  end if;
+
+  if jsonb_array_length(p_splits) < 2 then
+    raise exception 'A split needs at least 2 lines';
+  end if;
+
+  select sum((line->>'amount')::numeric) into v_total from jsonb_array_elements(p_splits) as line;
+
+  if round(v_total, 2) <> round(v_transaction.amount, 2) then
+    raise exception 'Split lines add up to % but the transaction amount is %', v_total, v_transaction.amount;
+  end if;
+
+  update public.transactions
+    set category_id = (p_splits->0->>'category_id')::uuid
+    where id = p_transaction_id;
+
+  return query
+    insert into public.transaction_splits (workspace_id, transaction_id, category_id, amount)
+    select
+      v_transaction.workspace_id,
+      p_transaction_id,
+      (line->>'category_id')::uuid,
+      (line->>'amount')::numeric
+    from jsonb_array_elements(p_splits) as line
+    returning *;
+end;
+$$;
@@ -0,0 +1,175 @@
+-- Free-form tags on transactions and bills, to answer questions categories
+-- are too coarse for ("how much did the trip to Floripa cost?"). Tags are
+-- identified by name within a workspace, ignoring case.
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid default auth.uid() references auth.users(id) on delete cascade,
+  name text not null check (length(btrim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index tags_workspace_id_name_idx on public.tags (workspace_id, lower(name));
+
+alter table public.tags enable row level security;
+
+create policy "Members can view tags" on public.tags
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert tags" on public.tags
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can update tags" on public.tags
+  for update to authenticated
+  using (public.can_edit_workspace(workspace_id))
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete tags" on public.tags
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+create table public.transaction_tags (
+  transaction_id uuid not null references public.transactions(id) on delete cascade,
+  tag_id uuid not null references public.tags(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  primary key (transaction_id, tag_id)
+);
+
+create index transaction_tags_tag_id_idx on public.transaction_tags (tag_id);
+create index transaction_tags_workspace_id_idx on public.transaction_tags (workspace_id);
+
+alter table public.transaction_tags enable row level security;
+
+create policy "Members can view transaction tags" on public.transaction_tags
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert transaction tags" on public.transaction_tags
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete transaction tags" on public.transaction_tags
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+create table public.bill_tags (
+  bill_id uuid not null references public.bills(id) on delete cascade,
+  tag_id uuid not null references public.tags(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  primary key (bill_id, tag_id)
+);
+
+create index bill_tags_tag_id_idx on public.bill_tags (tag_id);
+create index bill_tags_workspace_id_idx on public.bill_tags (workspace_id);
+
+alter table public.bill_tags enable row level security;
+
+create policy "Members can view bill tags" on public.bill_tags
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Editors can insert bill tags" on public.bill_tags
+  for insert to authenticated
+  with check (public.can_edit_workspace(workspace_id));
+
+create policy "Editors can delete bill tags" on public.bill_tags
+  for delete to authenticated
+  using (public.can_edit_workspace(workspace_id));
+
+-- Returns the tags with the given names, creating the missing ones
+create or replace function public.ensure_tags(p_workspace_id uuid, p_names text[])
+returns setof public.tags
+language plpgsql
+as $$
+begin
+  insert into public.tags (workspace_id, name)
+  select distinct on (lower(btrim(name))) p_workspace_id, btrim(name)
+  from unnest(p_names) as name
+  where length(btrim(name)) > 0
+  on conflict (workspace_id, lower(name)) do nothing;
+
+  return query
+    select * from public.tags
+    where workspace_id = p_workspace_id
+      and lower(name) in (select lower(btrim(n)) from unnest(p_names) as n);
+end;
+$$;
+
+-- Replaces the tags of a transaction; returns them
+create or replace function public.set_transaction_tags(p_transaction_id uuid, p_tag_names text[])
+returns setof public.tags
+language plpgsql
+as $$
+declare
+  v_workspace_id uuid;
+begin
+  select workspace_id into v_workspace_id from public.transactions where id = p_transaction_id;
+
+  if not found then
+    raise exception 'Transaction % not found', p_transaction_id;
+  end if;
+
+  delete from public.transaction_tags where transaction_id = p_transaction_id;
+
+  return query
+    with tagged as (
+      insert into public.transaction_tags (transaction_id, tag_id, workspace_id)
+      select p_transaction_id, t.id, v_workspace_id
+      from public.ensure_tags(v_workspace_id, p_tag_names) as t
+      returning tag_id
+    )
+    select tags.* from public.tags join tagged on tagged.tag_id = tags.id;
+end;
+$$;
+
+-- Replaces the tags of a bill; returns them
+create or replace function public.set_bill_tags(p_bill_id uuid, p_tag_names text[])
+returns setof public.tags
+language plpgsql
+as $$
+declare
+  v_workspace_id uuid;
+begin
+  select workspace_id into v_workspace_id from public.bills where id = p_bill_id;
+
+  if not found then
+    raise exception 'Bill % not found', p_bill_id;
+  end if;
+
+  delete from public.bill_tags where bill_id = p_bill_id;
+
+  return query
+    with tagged as (
+      insert into public.bill_tags (bill_id, tag_id, workspace_id)
+      select p_bill_id, t.id, v_workspace_id
+      from public.ensure_tags(v_workspace_id, p_tag_names) as t
+      returning tag_id
+    )
+    select tags.* from public.tags join tagged on tagged.tag_id = tags.id;
+end;
+$$;
+
+-- Paying a tagged bill tags the expense it creates, so the tag's spending
+-- report includes it
+create or replace function public.copy_bill_tags_to_payment()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.transaction_tags (transaction_id, tag_id, workspace_id)
+  select new.transaction_id, bt.tag_id, bt.workspace_id
+  from public.bill_tags bt
+  where bt.bill_id = new.bill_id
+  on conflict do nothing;
+
+  return null;
+end;
+$$;
+
+create trigger bill_payments_copy_tags
+after insert on public.bill_payments
+for each row
+when (new.transaction_id is not null)
+execute function public.copy_bill_tags_to_payment();
@@ -0,0 +1,53 @@
+-- Subcategories ("Transporte > Combustível", "Transporte > Uber"). The tree has
+-- two levels: a parent is always a top-level category of the same type and
+-- workspace. Deleting a parent turns its subcategories into top-level ones.
+alter table public.categories
+  add column parent_id uuid references public.categories(id) on delete set null;
+
+create index categories_parent_id_idx on public.categories (parent_id);
+
+create or replace function public.check_category_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_parent public.categories;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if new.parent_id = new.id then
+    raise exception 'A category cannot be its own parent';
+  end if;
+
+  select * into v_parent from public.categories where id = new.parent_id;
+
+  if not found then
+    raise exception 'Parent category % not found', new.parent_id;
+  end if;
+
+  if v_parent.workspace_id is distinct from new.workspace_id then
+    raise exception 'Parent category belongs to another workspace';
+  end if;
+
+  if v_parent.type <> new.type then
+    raise exception 'Parent category must have the same type';
+  end if;
+
+  if v_parent.parent_id is not null then
+    raise exception 'Subcategories cannot have subcategories';
+  end if;
+
+  if exists (select 1 from public.categories where parent_id = new.id) then
+    raise exception 'A category with subcategories cannot become a subcategory';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger categories_check_parent
+before insert or update of parent_id, type on public.categories
+for each row
+execute function public.check_category_parent();
@@ -0,0 +1,177 @@
+-- Merging a category or account into another moves everything that points at
+-- it to the target and then deletes it, in a single database transaction.
+
+-- Transactions, split lines, bills, bill templates, schedules and rules move
+-- to the target category. Budgets of a month the target also has are added to
+-- the target's; subcategories move under the target, or under its parent when
+-- the target is itself a subcategory.
+create or replace function public.merge_categories(p_source_id uuid, p_target_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_source public.categories;
+  v_target public.categories;
+begin
+  select * into v_source from public.categories where id = p_source_id;
+
+  if not found then
+    raise exception 'Category % not found', p_source_id;
+  end if;
+
+  select * into v_target from public.categories where id = p_target_id;
+
+  if not found then
+    raise exception 'Category % not found', p_target_id;
+  end if;
+
+  if v_source.id = v_target.id then
+    raise exception 'A category cannot be merged into itself';
+  end if;
+
+  if v_source.workspace_id is distinct from v_target.workspace_id then
+    raise exception 'Categories belong to different workspaces';
+  end if;
+
+  if v_source.type <> v_target.type then
+    raise exception 'Categories must have the same type';
+  end if;
+
+  if v_target.parent_id = v_source.id then
+    raise exception 'A category cannot be merged into one of its subcategories';
+  end if;
+
+  update public.transactions set category_id = p_target_id where category_id = p_source_id;
+  update public.transaction_splits set category_id = p_target_id where category_id = p_source_id;
+  update public.bills set category_id = p_target_id where category_id = p_source_id;
+  update public.bill_templates set category_id = p_target_id where category_id = p_source_id;
+  update public.scheduled_transactions set category_id = p_target_id where category_id = p_source_id;
+  update public.categorization_rules set category_id = p_target_id where category_id = p_source_id;
+
+  update public.budgets t
+    set amount = t.amount + s.amount
+    from public.budgets s
+    where s.category_id = p_source_id
+      and t.category_id = p_target_id
+      and t.month = s.month;
+
+  delete from public.budgets s
+    using public.budgets t
+    where s.category_id = p_source_id
+      and t.category_id = p_target_id
+      and t.month = s.month;
+
+  update public.budgets set category_id = p_target_id where category_id = p_source_id;
+
+  update public.categories
+    set parent_id = coalesce(v_target.parent_id, p_target_id)
+    where parent_id = p_source_id;
+
+  delete from public.categories where id = p_source_id;
+end;
+$$;
+
+-- Transactions, bill payments, card invoices, schedules, rules and goals move
+-- to the target account, which takes over the source's opening balance.
+-- Transfers between the two accounts would become transfers from the target
+-- to itself, so they are deleted: their net effect on the merged account is
+-- zero. Both accounts must be in the same currency.
+create or replace function public.merge_accounts(p_source_id uuid, p_target_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_source public.accounts;
+  v_target public.accounts;
+begin
+  select * into v_source from public.accounts where id = p_source_id;
+
+  if not found then
+    raise exception 'Account % not found', p_source_id;
+  end if;
+
+  select * into v_target from public.accounts where id = p_target_id;
+
+  if not found then
+    raise exception 'Account % not found', p_target_id;
+  end if;
+
+  if v_source.id = v_target.id then
+    raise exception 'An account cannot be merged into itself';
+  end if;
+
+  if v_source.workspace_id is distinct from v_target.workspace_id then
+    raise exception 'Accounts belong to different workspaces';
+  end if;
+
+  if v_source.currency <> v_target.currency then
+    raise exception 'Accounts must have the same currency';
+  end if;
+
+  delete from public.transactions
+    where type = 'transfer'
+      and ((account_id = p_source_id and destination_account_id = p_target_id)
+        or (account_id = p_target_id and destination_account_id = p_source_id));
+
+  delete from public.scheduled_transactions
+    where type = 'transfer'
+      and ((account_id = p_source_id and destination_account_id = p_target_id)
+        or (account_id = p_target_id and destination_account_id = p_source_id));
+
+  -- The stored balance trigger moves each transaction's amount between the accounts
+  update public.transactions set account_id = p_target_id where account_id = p_source_id;
+  update public.transactions set destination_account_id = p_target_id where destination_account_id = p_source_id;
+  update public.scheduled_transactions set account_id = p_target_id where account_id = p_source_id;
+  update public.scheduled_transactions
+    set destination_account_id = p_target_id
+    where destination_account_id = p_source_id;
+  update public.bill_payments set account_id = p_target_id where account_id = p_source_id;
+  update public.categorization_rules set account_id = p_target_id where account_id = p_source_id;
+  update public.goals set account_id = p_target_id where account_id = p_source_id;
+
+  -- Card invoices of a month both cards have become one, with the payments of both
+  update public.bill_payments p
+    set bill_id = t.id
+    from public.bills s, public.bills t
+    where p.bill_id = s.id
+      and s.statement_account_id = p_source_id
+      and t.statement_account_id = p_target_id
+      and t.statement_month = s.statement_month;
+
+  update public.bills t
+    set amount = t.amount + s.amount
+    from public.bills s
+    where s.statement_account_id = p_source_id
+      and t.statement_account_id = p_target_id
+      and t.statement_month = s.statement_month;
+
+  delete from public.bills s
+    using public.bills t
+    where s.statement_account_id = p_source_id
+      and t.statement_account_id = p_target_id
+      and t.statement_month = s.statement_month;
+
+  update public.bills t
+    set status = case
+      when paid.total >= t.amount then 'paid'
+      when paid.total > 0 then 'partially_paid'
+      else 'pending'
+    end
+    from (
+      select bill_id, sum(amount) as total from public.bill_payments group by bill_id
+    ) paid
+    where paid.bill_id = t.id
+      and t.statement_account_id = p_target_id
+      and t.status <> 'cancelled';
+
+  update public.bills set statement_account_id = p_target_id where statement_account_id = p_source_id;
+
+  -- Whatever is left on the source is its opening balance
+  update public.accounts
+    set opening_balance = opening_balance + v_source.opening_balance,
+        balance = balance + (select balance from public.accounts where id = p_source_id)
+    where id = p_target_id;
+
+  delete from public.accounts where id = p_source_id;
+end;
+$$;
@@ -0,0 +1,45 @@
+-- Cancelling an installment purchase deletes only the installments still to
+-- come. Deleting the parent would cascade to every installment, so when the
+-- parent is one of them and an earlier-posted installment is kept, the kept
+-- installments are first moved under the earliest of them.
+create or replace function public.cancel_remaining_installments(p_parent_id uuid, p_after timestamptz)
+returns void
+language plpgsql
+as $$
+declare
+  v_parent public.transactions;
+  v_new_parent_id uuid;
+begin
+  select * into v_parent from public.transactions where id = p_parent_id;
+
+  if not found then
+    raise exception 'Transaction % not found', p_parent_id;
+  end if;
+
+  if v_parent.parent_transaction_id is not null or v_parent.installment_count is null then
+    raise exception 'Transaction % is not the first installment of a purchase', p_parent_id;
+  end if;
+
+  delete from public.transactions
+  where parent_transaction_id = p_parent_id
+    and date > p_after;
+
+  if v_parent.date <= p_after then
+    return;
+  end if;
+
+  select id into v_new_parent_id
+  from public.transactions
+  where parent_transaction_id = p_parent_id
+  order by installment_number
+  limit 1;
+
+  if v_new_parent_id is not null then
+    update public.transactions
+    set parent_transaction_id = case when id = v_new_parent_id then null else v_new_parent_id end
+    where parent_transaction_id = p_parent_id;
+  end if;
+
+  delete from public.transactions where id = p_parent_id;
+end;
+$$;
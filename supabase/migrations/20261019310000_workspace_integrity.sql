@@ -0,0 +1,158 @@
+-- Guards the policies cannot express on their own: a workspace always keeps an
+-- owner, and rows only point at rows of their own workspace.
+
+-- The last owner can neither be demoted nor removed, so the members can still
+-- be managed. Deleting the whole workspace is still allowed.
+create or replace function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+    and exists (select 1 from public.workspaces where id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members
+      where workspace_id = old.workspace_id and role = 'owner'
+    ) then
+    raise exception 'Workspace % must keep at least one owner', old.workspace_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger workspace_members_keep_owner
+after update or delete on public.workspace_members
+for each row execute function public.keep_workspace_owner();
+
+-- Checks that every referenced row belongs to the row's workspace. The
+-- trigger arguments are pairs of column and referenced table. Security
+-- definer so a row of another workspace is reported as such instead of
+-- looking missing; references left unchanged by an update are not checked.
+create or replace function public.check_same_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new jsonb := to_jsonb(new);
+  v_old jsonb;
+  v_column text;
+  v_table text;
+  v_id uuid;
+  v_workspace_id uuid;
+begin
+  if tg_op = 'UPDATE' then
+    v_old := to_jsonb(old);
+  end if;
+
+  for i in 0 .. tg_nargs - 1 by 2 loop
+    v_column := tg_argv[i];
+    v_table := tg_argv[i + 1];
+    v_id := (v_new ->> v_column)::uuid;
+
+    continue when v_id is null;
+    continue when tg_op = 'UPDATE'
+      and (v_old ->> v_column)::uuid = v_id
+      and old.workspace_id is not distinct from new.workspace_id;
+
+    execute format('select workspace_id from public.%I where id = $1', v_table)
+      into v_workspace_id
+      using v_id;
+
+    if v_workspace_id is distinct from new.workspace_id then
+      raise exception '% % is not in workspace %', v_column, v_id, new.workspace_id;
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger categories_same_workspace
+before insert or update on public.categories
+for each row execute function public.check_same_workspace('parent_id', 'categories');
+
+create trigger transactions_same_workspace
+before insert or update on public.transactions
+for each row execute function public.check_same_workspace(
+  'account_id', 'accounts',
+  'destination_account_id', 'accounts',
+  'category_id', 'categories',
+  'goal_id', 'goals',
+  'parent_transaction_id', 'transactions',
+  'scheduled_transaction_id', 'scheduled_transactions'
+);
+
+create trigger bills_same_workspace
+before insert or update on public.bills
+for each row execute function public.check_same_workspace(
+  'category_id', 'categories',
+  'statement_account_id', 'accounts',
+  'template_id', 'bill_templates'
+);
+
+create trigger bill_payments_same_workspace
+before insert or update on public.bill_payments
+for each row execute function public.check_same_workspace(
+  'bill_id', 'bills',
+  'account_id', 'accounts',
+  'transaction_id', 'transactions'
+);
+
+create trigger bill_templates_same_workspace
+before insert or update on public.bill_templates
+for each row execute function public.check_same_workspace('category_id', 'categories');
+
+create trigger categorization_rules_same_workspace
+before insert or update on public.categorization_rules
+for each row execute function public.check_same_workspace(
+  'category_id', 'categories',
+  'account_id', 'accounts'
+);
+
+create trigger budgets_same_workspace
+before insert or update on public.budgets
+for each row execute function public.check_same_workspace('category_id', 'categories');
+
+create trigger scheduled_transactions_same_workspace
+before insert or update on public.scheduled_transactions
+for each row execute function public.check_same_workspace(
+  'category_id', 'categories',
+  'account_id', 'accounts',
+  'destination_account_id', 'accounts'
+);
+
+create trigger pending_transactions_same_workspace
+before insert or update on public.pending_transactions
+for each row execute function public.check_same_workspace(
+  'scheduled_transaction_id', 'scheduled_transactions'
+);
+
+create trigger goals_same_workspace
+before insert or update on public.goals
+for each row execute function public.check_same_workspace('account_id', 'accounts');
+
+create trigger transaction_splits_same_workspace
+before insert or update on public.transaction_splits
+for each row execute function public.check_same_workspace(
+  'transaction_id', 'transactions',
+  'category_id', 'categories'
+);
+
+create trigger transaction_tags_same_workspace
+before insert or update on public.transaction_tags
+for each row execute function public.check_same_workspace(
+  'transaction_id', 'transactions',
+  'tag_id', 'tags'
+);
+
+create trigger bill_tags_same_workspace
+before insert or update on public.bill_tags
+for each row execute function public.check_same_workspace(
+  'bill_id', 'bills',
+  'tag_id', 'tags'
+);
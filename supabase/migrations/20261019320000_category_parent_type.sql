@@ -0,0 +1,48 @@
+-- A parent and its subcategories share a type, so a category with
+-- subcategories cannot change type: they would be left with the old one.
+create or replace function public.check_category_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_parent public.categories;
+begin
+  if tg_op = 'UPDATE'
+    and new.type <> old.type
+    and exists (select 1 from public.categories where parent_id = new.id) then
+    raise exception 'A category with subcategories cannot change type';
+  end if;
+
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if new.parent_id = new.id then
+    raise exception 'A category cannot be its own parent';
+  end if;
+
+  select * into v_parent from public.categories where id = new.parent_id;
+
+  if not found then
+    raise exception 'Parent category % not found', new.parent_id;
+  end if;
+
+  if v_parent.workspace_id is distinct from new.workspace_id then
+    raise exception 'Parent category belongs to another workspace';
+  end if;
+
+  if v_parent.type <> new.type then
+    raise exception 'Parent category must have the same type';
+  end if;
+
+  if v_parent.parent_id is not null then
+    raise exception 'Subcategories cannot have subcategories';
+  end if;
+
+  if exists (select 1 from public.categories where parent_id = new.id) then
+    raise exception 'A category with subcategories cannot become a subcategory';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,55 @@
+-- A yearly rule with months falls in each of them ("IPVA every year in
+-- January, February and March"); before, it only kept the start date's month
+-- when that month was listed. Each listed month is a period of its own,
+-- counted as a monthly candidate from the start date.
+create or replace function public.recurrence_dates(
+  p_start_date date,
+  p_recurrence_type text,
+  p_interval integer,
+  p_by_month_day integer,
+  p_by_weekday integer,
+  p_by_set_position integer,
+  p_by_business_day integer,
+  p_by_months integer[],
+  p_adjustment text,
+  p_until date
+)
+returns setof date
+language plpgsql
+immutable
+as $$
+declare
+  v_period integer := 0;
+  v_months integer[];
+  v_offset integer;
+  v_date date;
+begin
+  if p_recurrence_type = 'yearly' and cardinality(p_by_months) > 0 then
+    select array_agg(distinct m order by m) into v_months from unnest(p_by_months) as m;
+  end if;
+
+  loop
+    if v_months is not null then
+      v_offset := (v_period / cardinality(v_months)) * p_interval * 12
+        + v_months[v_period % cardinality(v_months) + 1] - extract(month from p_start_date)::integer;
+      v_date := public.recurrence_candidate(
+        p_start_date, 'monthly', 1, p_by_month_day, p_by_weekday,
+        p_by_set_position, p_by_business_day, p_adjustment, v_offset
+      );
+    else
+      v_date := public.recurrence_candidate(
+        p_start_date, p_recurrence_type, p_interval, p_by_month_day, p_by_weekday,
+        p_by_set_position, p_by_business_day, p_adjustment, v_period
+      );
+    end if;
+    v_period := v_period + 1;
+
+    exit when v_date > p_until;
+    continue when v_date < p_start_date;
+    continue when cardinality(p_by_months) > 0
+      and not extract(month from v_date)::integer = any (p_by_months);
+
+    return next v_date;
+  end loop;
+end;
+$$;